@@ -0,0 +1,225 @@
+import type {
+  ArbitrageConfig,
+  ArbitrageEvents,
+  ArbitrageExecution,
+  ArbitragePlan,
+  EventListener,
+  MarketData,
+  Trade,
+} from './types';
+import { MarketMaker } from './marketMaker';
+import { LiquidityPool } from './liquidityPool';
+import { EventBus } from './events';
+
+const FEE_POLICY_ITERATIONS = 20;
+
+const DEFAULT_ARBITRAGE_CONFIG: Omit<ArbitrageConfig, 'venueFeeRate'> = {
+  minProfit: 0,
+  maxTradeSize: Infinity,
+  slippageTolerance: 0.001,
+};
+
+// Arbitrages the market maker's constant-product pool against the external
+// book: buy token A wherever it is cheaper and sell it on the other side.
+export class ArbitrageEngine {
+  private config: ArbitrageConfig;
+  private marketMaker: MarketMaker;
+  private events: EventBus<ArbitrageEvents> = new EventBus();
+
+  constructor(marketMaker: MarketMaker, config: Partial<ArbitrageConfig> = {}) {
+    // Venue fees default to the rate the market maker books on its fills
+    this.config = { ...DEFAULT_ARBITRAGE_CONFIG, venueFeeRate: marketMaker.getConfig().feeRate, ...config };
+    this.marketMaker = marketMaker;
+  }
+
+  on<K extends keyof ArbitrageEvents>(type: K, listener: EventListener<ArbitrageEvents[K]>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  // Relative gap between the pool price and the far side of the book, after
+  // pool and venue fees. Positive when there is an arbitrage.
+  getDeviation(marketData: MarketData): number {
+    const pool = this.getPool();
+    const { tokenAReserve, tokenBReserve } = pool.getState();
+    if (tokenAReserve <= 0 || tokenBReserve <= 0) return 0;
+
+    const poolPrice = tokenBReserve / tokenAReserve;
+    const venueFee = this.config.venueFeeRate;
+    const buyFee = getMarginalFeeRate(pool, 'B');
+    const sellFee = getMarginalFeeRate(pool, 'A');
+    const sellOnVenue = (marketData.bidPrice * (1 - venueFee) * (1 - buyFee)) / poolPrice - 1;
+    const buyOnVenue = (poolPrice * (1 - sellFee)) / (marketData.askPrice * (1 + venueFee)) - 1;
+    return Math.max(sellOnVenue, buyOnVenue);
+  }
+
+  // A fee policy charges by size and direction, so each direction is sized
+  // with the fee the pool would charge the previous size until the two agree
+  findOpportunity(marketData: MarketData): ArbitragePlan | null {
+    const pool = this.getPool();
+    const { tokenAReserve, tokenBReserve } = pool.getState();
+    if (tokenAReserve <= 0 || tokenBReserve <= 0) return null;
+
+    for (const tokenIn of ['B', 'A'] as const) {
+      let fee = getMarginalFeeRate(pool, tokenIn);
+      let plan = this.calculatePlan(tokenAReserve, tokenBReserve, fee, marketData);
+      for (let i = 0; i < FEE_POLICY_ITERATIONS && plan?.tokenIn === tokenIn; i++) {
+        const next = pool.simulateSwap(plan.amountIn, tokenIn).fee / plan.amountIn;
+        if (Math.abs(next - fee) <= 1e-12) break;
+        fee = next;
+        plan = this.calculatePlan(tokenAReserve, tokenBReserve, fee, marketData);
+      }
+      if (plan?.tokenIn === tokenIn) {
+        return plan.expectedProfit > this.config.minProfit ? plan : null;
+      }
+    }
+    return null;
+  }
+
+  // Swaps against the pool, then offsets the token A leg on the venue. Without
+  // an execution venue the offsetting order fills immediately at the touch.
+  // The swap cannot be undone, so it is not made unless the full hedge passes
+  // the pre-trade checks first. The swap only moves inventory away from the
+  // hedge's side, so checking against the current inventory is conservative.
+  execute(plan: ArbitragePlan): ArbitrageExecution {
+    const rejection = this.marketMaker.checkOrder(plan.venueSide, plan.venuePrice, plan.baseSize, 'hedge');
+    if (rejection) {
+      throw new Error(`Arbitrage hedge would be rejected (${rejection.code}): ${rejection.message}`);
+    }
+
+    const minAmountOut = plan.amountOut * (1 - this.config.slippageTolerance);
+    const { swap, trade: swapTrade } = this.marketMaker.executeInventorySwap(plan.amountIn, plan.tokenIn, minAmountOut);
+
+    const hedgeOrder = this.marketMaker.placeOrder(plan.venueSide, plan.venuePrice, swapTrade.size, undefined, 'hedge');
+    let hedgeTrade: Trade | null = null;
+    if (hedgeOrder.status !== 'rejected' && !this.marketMaker.getExecutionVenue()) {
+      hedgeTrade = this.marketMaker.processFill(hedgeOrder.id, hedgeOrder.size, hedgeOrder.price);
+    }
+
+    const execution = { plan, swap, swapTrade, hedgeOrder, hedgeTrade };
+    // Submission can still fail after the swap, e.g. on the order rate limit
+    const hedgedSize = hedgeOrder.status === 'rejected' ? 0 : hedgeOrder.size;
+    const unhedgedSize = swapTrade.size - hedgedSize;
+    if (unhedgedSize > this.marketMaker.getConfig().sizeTickSize / 2) {
+      this.events.emit('arbitrage-unhedged', { execution, unhedgedSize, timestamp: swapTrade.timestamp });
+    }
+    return execution;
+  }
+
+  // Finds and executes an opportunity in one step
+  run(marketData: MarketData): ArbitrageExecution | null {
+    const plan = this.findOpportunity(marketData);
+    return plan ? this.execute(plan) : null;
+  }
+
+  private calculatePlan(
+    reserveA: number,
+    reserveB: number,
+    poolFee: number,
+    marketData: MarketData
+  ): ArbitragePlan | null {
+    return calculateOptimalArbitrage(
+      reserveA,
+      reserveB,
+      poolFee,
+      marketData.bidPrice,
+      marketData.askPrice,
+      this.config.venueFeeRate,
+      this.config.maxTradeSize
+    );
+  }
+
+  private getPool(): LiquidityPool {
+    const pool = this.marketMaker.getLiquidityPool();
+    if (!(pool instanceof LiquidityPool)) {
+      throw new Error('Arbitrage sizing requires a constant-product pool');
+    }
+    return pool;
+  }
+
+  updateConfig(config: Partial<ArbitrageConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): ArbitrageConfig {
+    return { ...this.config };
+  }
+}
+
+// Fee rate the pool charges on a swap too small to move its price
+function getMarginalFeeRate(pool: LiquidityPool, tokenIn: 'A' | 'B'): number {
+  const { tokenAReserve, tokenBReserve } = pool.getState();
+  const amountIn = (tokenIn === 'A' ? tokenAReserve : tokenBReserve) * 1e-9;
+  return pool.simulateSwap(amountIn, tokenIn).fee / amountIn;
+}
+
+// Profit-maximizing size against x * y = k, with g = 1 - poolFee:
+//   buy A in the pool:  spend (sqrt(bid' * g * x * y) - y) / g of B, bid' = bid * (1 - venueFee)
+//   sell A to the pool: swap in (sqrt(g * x * y / ask') - x) / g of A,  ask' = ask * (1 + venueFee)
+// maxBaseSize caps the token A traded on the venue.
+export function calculateOptimalArbitrage(
+  reserveA: number,
+  reserveB: number,
+  poolFee: number,
+  bidPrice: number,
+  askPrice: number,
+  venueFeeRate: number = 0,
+  maxBaseSize: number = Infinity
+): ArbitragePlan | null {
+  if (reserveA <= 0 || reserveB <= 0) return null;
+
+  const g = 1 - poolFee;
+  const k = reserveA * reserveB;
+  const poolPrice = reserveB / reserveA;
+  const netBid = bidPrice * (1 - venueFeeRate);
+  const netAsk = askPrice * (1 + venueFeeRate);
+
+  if (bidPrice > 0 && netBid * g > poolPrice) {
+    let amountIn = (Math.sqrt(netBid * g * k) - reserveB) / g;
+    let baseSize = reserveA - k / (reserveB + g * amountIn);
+    if (baseSize > maxBaseSize) {
+      baseSize = maxBaseSize;
+      amountIn = (k / (reserveA - baseSize) - reserveB) / g;
+    }
+    if (amountIn <= 0 || baseSize <= 0) return null;
+
+    const venueFee = baseSize * bidPrice * venueFeeRate;
+    return {
+      direction: 'buy-pool-sell-venue',
+      tokenIn: 'B',
+      amountIn,
+      amountOut: baseSize,
+      baseSize,
+      venueSide: 'sell',
+      venuePrice: bidPrice,
+      poolPrice,
+      poolPriceAfter: (reserveB + amountIn) / (reserveA - baseSize),
+      poolFee: amountIn * poolFee,
+      venueFee,
+      expectedProfit: baseSize * bidPrice - venueFee - amountIn,
+    };
+  }
+
+  if (askPrice > 0 && poolPrice * g > netAsk) {
+    const amountIn = Math.min((Math.sqrt((g * k) / netAsk) - reserveA) / g, maxBaseSize);
+    if (amountIn <= 0) return null;
+
+    const amountOut = reserveB - k / (reserveA + g * amountIn);
+    const venueFee = amountIn * askPrice * venueFeeRate;
+    return {
+      direction: 'buy-venue-sell-pool',
+      tokenIn: 'A',
+      amountIn,
+      amountOut,
+      baseSize: amountIn,
+      venueSide: 'buy',
+      venuePrice: askPrice,
+      poolPrice,
+      poolPriceAfter: (reserveB - amountOut) / (reserveA + amountIn),
+      poolFee: amountIn * poolFee,
+      venueFee,
+      expectedProfit: amountOut - amountIn * askPrice - venueFee,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,110 @@
+import type { AvellanedaStoikovConfig, Clock, InventoryState, MarketData, Quote, QuoteModel } from './types';
+import { SystemClock } from './clock';
+
+const DEFAULT_PRICE_TICK_SIZE = 0.0001;
+
+const DEFAULT_AS_CONFIG: AvellanedaStoikovConfig = {
+  riskAversion: 0.1,
+  orderArrivalIntensity: 1500,
+  timeHorizon: 1,
+  sessionLengthMs: 0,
+  minSpread: 0.0005,
+  maxSpread: 0.02,
+};
+
+export class AvellanedaStoikovModel implements QuoteModel {
+  private config: AvellanedaStoikovConfig;
+  private sessionStart: number;
+  private clock: Clock;
+
+  constructor(config: Partial<AvellanedaStoikovConfig> = {}, clock: Clock = new SystemClock()) {
+    this.config = { ...DEFAULT_AS_CONFIG, ...config };
+    this.clock = clock;
+    this.sessionStart = clock.now();
+  }
+
+  generateQuote(
+    midPrice: number,
+    marketData: MarketData,
+    inventoryState: InventoryState,
+    orderSize: number,
+    priceTickSize: number = DEFAULT_PRICE_TICK_SIZE
+  ): Quote {
+    const { reservationPrice, halfSpread } = this.calculateReservation(
+      midPrice,
+      marketData.volatility,
+      inventoryState,
+      orderSize
+    );
+
+    const bidPrice = reservationPrice * (1 - halfSpread);
+    const askPrice = reservationPrice * (1 + halfSpread);
+
+    return {
+      bidPrice: this.roundToTickSize(bidPrice, priceTickSize),
+      bidSize: orderSize,
+      askPrice: this.roundToTickSize(askPrice, priceTickSize),
+      askSize: orderSize,
+      spread: askPrice - bidPrice,
+      midPrice,
+    };
+  }
+
+  calculateReservation(
+    midPrice: number,
+    volatility: number,
+    inventoryState: InventoryState,
+    orderSize: number
+  ): { reservationPrice: number; halfSpread: number } {
+    const gamma = this.config.riskAversion;
+    const kappa = this.config.orderArrivalIntensity;
+    const variance = volatility * volatility;
+    const timeRemaining = this.getTimeRemaining();
+
+    // Inventory is measured in lots of orderSize and prices relative to mid,
+    // so gamma and kappa are independent of the instrument's price level.
+    const lots = orderSize > 0
+      ? (inventoryState.currentInventory - inventoryState.targetInventory) / orderSize
+      : 0;
+
+    const reservationOffset = lots * gamma * variance * timeRemaining;
+    const optimalSpread = gamma * variance * timeRemaining + (2 / gamma) * Math.log(1 + gamma / kappa);
+
+    const totalSpread = Math.min(
+      Math.max(optimalSpread, this.config.minSpread),
+      this.config.maxSpread
+    );
+
+    return {
+      reservationPrice: midPrice * (1 - reservationOffset),
+      halfSpread: totalSpread / 2,
+    };
+  }
+
+  getTimeRemaining(): number {
+    if (this.config.sessionLengthMs <= 0) return this.config.timeHorizon;
+
+    const elapsed = (this.clock.now() - this.sessionStart) / this.config.sessionLengthMs;
+    return this.config.timeHorizon * Math.max(0, 1 - elapsed);
+  }
+
+  resetSession(startTime: number = this.clock.now()): void {
+    this.sessionStart = startTime;
+  }
+
+  getSessionStart(): number {
+    return this.sessionStart;
+  }
+
+  private roundToTickSize(value: number, tickSize: number): number {
+    return Math.round(value / tickSize) * tickSize;
+  }
+
+  updateConfig(config: Partial<AvellanedaStoikovConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): AvellanedaStoikovConfig {
+    return { ...this.config };
+  }
+}
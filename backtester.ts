@@ -0,0 +1,384 @@
+import type {
+  BacktestConfig,
+  BacktestEvent,
+  BacktestReport,
+  InventorySample,
+  MarketData,
+  MarketMakerConfig,
+  DeepPartial,
+  Order,
+  OrderBook,
+  Trade,
+} from './types';
+import { MarketMaker } from './marketMaker';
+import { estimateVolatility } from './spread';
+import { ManualClock } from './clock';
+import { SeededIdGenerator, createSeededRandom } from './ids';
+
+const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  fillModel: 'touch-through',
+  latencyMs: 0,
+  fillProbability: 0.5,
+  requoteIntervalMs: 1000,
+  volatility: null,
+  volatilityWindow: 100,
+  seed: 1,
+  random: null,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface OrderQueueState {
+  liveAt: number;
+  queueAhead: number;
+}
+
+export class Backtester {
+  private config: BacktestConfig;
+  private marketMakerConfig: DeepPartial<MarketMakerConfig>;
+  private marketMaker: MarketMaker;
+  private clock: ManualClock = new ManualClock(0);
+  private random: () => number;
+  private currentTime: number = 0;
+  private lastQuoteTime: number = -Infinity;
+  private marketData: MarketData | null = null;
+  private orderBook: OrderBook | null = null;
+  private queueStates: Map<string, OrderQueueState> = new Map();
+  private midHistory: number[] = [];
+  private volumeWindow: { timestamp: number; notional: number }[] = [];
+  private inventoryPath: InventorySample[] = [];
+  private fills: Trade[] = [];
+  private quoteUpdates: number = 0;
+
+  constructor(
+    marketMakerConfig: DeepPartial<MarketMakerConfig> = {},
+    config: Partial<BacktestConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_BACKTEST_CONFIG, ...config };
+    this.marketMakerConfig = marketMakerConfig;
+    this.random = this.createRandom();
+    this.marketMaker = this.createMarketMaker(0);
+  }
+
+  run(events: BacktestEvent[], symbol: string = 'BACKTEST'): BacktestReport {
+    const ordered = [...events].sort((a, b) => a.timestamp - b.timestamp);
+    if (ordered.length === 0) {
+      throw new Error('No events to replay');
+    }
+
+    this.reset(ordered[0].timestamp);
+    this.marketMaker.start();
+
+    for (const event of ordered) {
+      this.currentTime = event.timestamp;
+      this.clock.setTime(event.timestamp);
+
+      switch (event.type) {
+        case 'quote':
+          this.orderBook = {
+            bids: [{ price: event.bidPrice, size: event.bidSize, side: 'bid' }],
+            asks: [{ price: event.askPrice, size: event.askSize, side: 'ask' }],
+            timestamp: event.timestamp,
+          };
+          this.updateMarketData(symbol, event.bidPrice, event.askPrice);
+          this.fillCrossedOrders();
+          this.requoteIfDue(false);
+          break;
+        case 'book': {
+          const bestBid = event.book.bids.reduce((best, level) => Math.max(best, level.price), 0);
+          const bestAsk = event.book.asks.reduce((best, level) => Math.min(best, level.price), Infinity);
+          if (bestBid <= 0 || !isFinite(bestAsk)) break;
+
+          this.orderBook = event.book;
+          this.updateMarketData(symbol, bestBid, bestAsk);
+          this.fillCrossedOrders();
+          this.requoteIfDue(true);
+          break;
+        }
+        case 'trade':
+          this.recordVolume(event.price * event.size);
+          this.fillAgainstTrade(event.side, event.price, event.size);
+          break;
+      }
+    }
+
+    return this.buildReport(ordered[0].timestamp, ordered[ordered.length - 1].timestamp, ordered.length);
+  }
+
+  private updateMarketData(symbol: string, bidPrice: number, askPrice: number): void {
+    const midPrice = (bidPrice + askPrice) / 2;
+    this.midHistory.push(midPrice);
+    if (this.midHistory.length > this.config.volatilityWindow) {
+      this.midHistory.shift();
+    }
+
+    const previous = this.marketData;
+    this.marketData = {
+      symbol,
+      lastPrice: previous ? previous.lastPrice : midPrice,
+      bidPrice,
+      askPrice,
+      volume24h: this.volumeWindow.reduce((sum, entry) => sum + entry.notional, 0),
+      high24h: previous ? Math.max(previous.high24h, midPrice) : midPrice,
+      low24h: previous ? Math.min(previous.low24h, midPrice) : midPrice,
+      volatility: this.config.volatility ?? estimateVolatility(this.midHistory),
+    };
+  }
+
+  private recordVolume(notional: number): void {
+    this.volumeWindow.push({ timestamp: this.currentTime, notional });
+    while (this.volumeWindow.length > 0 && this.volumeWindow[0].timestamp <= this.currentTime - DAY_MS) {
+      this.volumeWindow.shift();
+    }
+  }
+
+  private requoteIfDue(useBook: boolean): void {
+    if (!this.marketData) return;
+    if (this.currentTime - this.lastQuoteTime < this.config.requoteIntervalMs) return;
+
+    const quote = this.marketMaker.generateQuotes(
+      this.marketData,
+      useBook && this.orderBook ? this.orderBook : undefined
+    );
+    if (this.marketMaker.isHalted()) return;
+
+    this.marketMaker.placeOrders(quote);
+    this.lastQuoteTime = this.currentTime;
+    this.quoteUpdates++;
+
+    const live = new Map<string, OrderQueueState>();
+    for (const order of this.marketMaker.getActiveOrders()) {
+      live.set(order.id, this.queueStates.get(order.id) ?? {
+        liveAt: this.currentTime + this.config.latencyMs,
+        queueAhead: this.getDisplayedSize(order),
+      });
+    }
+    this.queueStates = live;
+    this.recordInventory();
+  }
+
+  private getDisplayedSize(order: Order): number {
+    if (!this.orderBook) return 0;
+
+    const levels = order.side === 'buy' ? this.orderBook.bids : this.orderBook.asks;
+    return levels
+      .filter(level => level.price === order.price)
+      .reduce((sum, level) => sum + level.size, 0);
+  }
+
+  private fillCrossedOrders(): void {
+    if (!this.marketData) return;
+
+    for (const order of this.getLiveOrders()) {
+      const crossed = order.side === 'buy'
+        ? this.marketData.askPrice <= order.price
+        : this.marketData.bidPrice >= order.price;
+
+      if (crossed) {
+        this.fillOrder(order, order.size - order.filledSize);
+      }
+    }
+  }
+
+  private fillAgainstTrade(aggressorSide: 'buy' | 'sell', price: number, size: number): void {
+    const restingSide = aggressorSide === 'sell' ? 'buy' : 'sell';
+    const candidates = this.getLiveOrders()
+      .filter(order => order.side === restingSide)
+      .sort((a, b) => (restingSide === 'buy' ? b.price - a.price : a.price - b.price));
+
+    let remainingTradeSize = size;
+
+    for (const order of candidates) {
+      if (remainingTradeSize <= 0) break;
+
+      const through = restingSide === 'buy' ? order.price > price : order.price < price;
+      const atPrice = order.price === price;
+      const openSize = order.size - order.filledSize;
+      let fillSize = 0;
+
+      switch (this.config.fillModel) {
+        case 'touch-through':
+          if (through) fillSize = Math.min(openSize, remainingTradeSize);
+          break;
+        case 'queue-position': {
+          const state = this.queueStates.get(order.id);
+          if (through) {
+            fillSize = Math.min(openSize, remainingTradeSize);
+          } else if (atPrice && state) {
+            const available = remainingTradeSize - state.queueAhead;
+            state.queueAhead = Math.max(0, state.queueAhead - remainingTradeSize);
+            fillSize = Math.max(0, Math.min(openSize, available));
+          }
+          break;
+        }
+        case 'probabilistic':
+          if ((through || atPrice) && this.random() < this.config.fillProbability) {
+            fillSize = Math.min(openSize, remainingTradeSize);
+          }
+          break;
+      }
+
+      if (fillSize > 0) {
+        remainingTradeSize -= fillSize;
+        this.fillOrder(order, fillSize);
+      }
+    }
+  }
+
+  private getLiveOrders(): Order[] {
+    return this.marketMaker.getActiveOrders().filter(order => {
+      const state = this.queueStates.get(order.id);
+      return state !== undefined && state.liveAt <= this.currentTime;
+    });
+  }
+
+  private fillOrder(order: Order, size: number): void {
+    if (size <= 0) return;
+
+    const trade = this.marketMaker.processFill(order.id, size, order.price);
+    if (trade) {
+      this.fills.push(trade);
+      this.recordInventory();
+    }
+  }
+
+  private recordInventory(): void {
+    const midPrice = this.getMidPrice();
+    const stats = this.marketMaker.getStats();
+
+    this.inventoryPath.push({
+      timestamp: this.currentTime,
+      inventory: this.marketMaker.getInventoryState().currentInventory,
+      midPrice,
+      realizedPnL: stats.realizedPnL,
+      unrealizedPnL: this.marketMaker.getPosition(midPrice).unrealizedPnL,
+    });
+  }
+
+  private getMidPrice(): number {
+    return this.marketData ? (this.marketData.bidPrice + this.marketData.askPrice) / 2 : 0;
+  }
+
+  private buildReport(startTime: number, endTime: number, eventsProcessed: number): BacktestReport {
+    const finalMidPrice = this.getMidPrice();
+    const position = this.marketMaker.getPosition(finalMidPrice);
+    const stats = { ...this.marketMaker.getStats(), unrealizedPnL: position.unrealizedPnL };
+
+    const buys = this.fills.filter(trade => trade.side === 'buy');
+    const sells = this.fills.filter(trade => trade.side === 'sell');
+
+    this.marketMaker.stop();
+
+    return {
+      startTime,
+      endTime,
+      eventsProcessed,
+      quoteUpdates: this.quoteUpdates,
+      stats: { ...stats, uptime: endTime - startTime },
+      position,
+      inventoryPath: this.inventoryPath,
+      fills: {
+        count: this.fills.length,
+        buyCount: buys.length,
+        sellCount: sells.length,
+        buyVolume: buys.reduce((sum, trade) => sum + trade.size, 0),
+        sellVolume: sells.reduce((sum, trade) => sum + trade.size, 0),
+      },
+      totalFees: this.fills.reduce((sum, trade) => sum + trade.fee, 0),
+      finalMidPrice,
+      haltReason: this.marketMaker.getHaltReason(),
+    };
+  }
+
+  // A fresh simulated clock, ID sequence and random stream per run makes
+  // replays of the same events byte-identical.
+  private createMarketMaker(startTime: number): MarketMaker {
+    this.clock = new ManualClock(startTime);
+    return new MarketMaker(this.marketMakerConfig, this.clock, new SeededIdGenerator(this.config.seed));
+  }
+
+  private createRandom(): () => number {
+    return this.config.random ?? createSeededRandom(this.config.seed);
+  }
+
+  private reset(startTime: number): void {
+    this.marketMaker = this.createMarketMaker(startTime);
+    this.random = this.createRandom();
+    this.currentTime = startTime;
+    this.lastQuoteTime = -Infinity;
+    this.marketData = null;
+    this.orderBook = null;
+    this.queueStates.clear();
+    this.midHistory = [];
+    this.volumeWindow = [];
+    this.inventoryPath = [];
+    this.fills = [];
+    this.quoteUpdates = 0;
+  }
+
+  getMarketMaker(): MarketMaker {
+    return this.marketMaker;
+  }
+
+  updateConfig(config: Partial<BacktestConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): BacktestConfig {
+    return { ...this.config };
+  }
+}
+
+export function parseJsonlEvents(content: string): BacktestEvent[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as BacktestEvent;
+      } catch {
+        throw new Error(`Invalid JSON on line ${index + 1}`);
+      }
+    });
+}
+
+export function parseCsvEvents(content: string): BacktestEvent[] {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(column => column.trim());
+  const events: BacktestEvent[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const values = lines[i].split(',').map(value => value.trim());
+    const row: Record<string, string> = {};
+    header.forEach((column, index) => {
+      row[column] = values[index] ?? '';
+    });
+
+    const timestamp = Number(row.timestamp);
+    if (row.type === 'trade') {
+      events.push({
+        type: 'trade',
+        timestamp,
+        price: Number(row.price),
+        size: Number(row.size),
+        side: row.side === 'sell' ? 'sell' : 'buy',
+      });
+    } else if (row.type === 'quote') {
+      events.push({
+        type: 'quote',
+        timestamp,
+        bidPrice: Number(row.bidPrice),
+        bidSize: Number(row.bidSize),
+        askPrice: Number(row.askPrice),
+        askSize: Number(row.askSize),
+      });
+    } else {
+      throw new Error(`Unknown event type on line ${i + 1}: ${row.type}`);
+    }
+  }
+
+  return events;
+}
@@ -0,0 +1,78 @@
+import type { Clock } from './types';
+
+export class SystemClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  schedule(callback: () => void, delayMs: number): () => void {
+    const handle = setTimeout(callback, Math.max(0, delayMs));
+    return () => clearTimeout(handle);
+  }
+}
+
+interface ScheduledTimer {
+  id: number;
+  time: number;
+  callback: () => void;
+}
+
+export class ManualClock implements Clock {
+  private currentTime: number;
+  private timers: ScheduledTimer[] = [];
+  private nextTimerId: number = 0;
+
+  constructor(startTime: number = 0) {
+    this.currentTime = startTime;
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  schedule(callback: () => void, delayMs: number): () => void {
+    const id = this.nextTimerId++;
+    this.timers.push({ id, time: this.currentTime + Math.max(0, delayMs), callback });
+    return () => {
+      this.timers = this.timers.filter(timer => timer.id !== id);
+    };
+  }
+
+  // Fires due timers in time order (ties in scheduling order), moving the
+  // clock to each timer's time before its callback runs.
+  advance(ms: number): number {
+    const target = this.currentTime + ms;
+    let fired = 0;
+
+    while (true) {
+      const next = this.getNextTimer();
+      if (!next || next.time > target) break;
+
+      this.timers = this.timers.filter(timer => timer.id !== next.id);
+      this.currentTime = next.time;
+      next.callback();
+      fired++;
+    }
+
+    this.currentTime = target;
+    return fired;
+  }
+
+  setTime(timestamp: number): number {
+    if (timestamp < this.currentTime) {
+      throw new Error('Cannot move clock backwards');
+    }
+    return this.advance(timestamp - this.currentTime);
+  }
+
+  getPendingTimers(): number {
+    return this.timers.length;
+  }
+
+  private getNextTimer(): ScheduledTimer | undefined {
+    return this.timers.reduce<ScheduledTimer | undefined>(
+      (earliest, timer) => (!earliest || timer.time < earliest.time ? timer : earliest),
+      undefined
+    );
+  }
+}
@@ -0,0 +1,635 @@
+import type {
+  AmmPool,
+  Clock,
+  ConcentratedAddLiquidityResult,
+  ConcentratedPoolState,
+  ConcentratedPosition,
+  ConcentratedRemoveLiquidityResult,
+  SwapResult,
+} from './types';
+import { SystemClock } from './clock';
+import { InsufficientLiquidityError, SlippageError } from './poolErrors';
+
+const DEFAULT_POOL_FEE = 0.003;
+const DEFAULT_TICK_SPACING = 60;
+const TICK_BASE = 1.0001;
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+
+interface TickInfo {
+  liquidityGross: number;
+  liquidityNet: number;
+  feeGrowthOutsideA: number;
+  feeGrowthOutsideB: number;
+}
+
+interface PositionInfo {
+  owner: string;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: number;
+  feeGrowthInsideALast: number;
+  feeGrowthInsideBLast: number;
+  feesOwedA: number;
+  feesOwedB: number;
+}
+
+interface TickCrossing {
+  tick: number;
+  feeGrowthGlobalA: number;
+  feeGrowthGlobalB: number;
+}
+
+interface SwapComputation {
+  result: SwapResult;
+  sqrtPrice: number;
+  currentTick: number;
+  liquidity: number;
+  feeGrowthGlobalA: number;
+  feeGrowthGlobalB: number;
+  crossings: TickCrossing[];
+}
+
+export class ConcentratedLiquidityPool implements AmmPool {
+  private fee: number;
+  private tickSpacing: number;
+  private sqrtPrice: number = 0;
+  private currentTick: number = 0;
+  private liquidity: number = 0;
+  private tokenAReserve: number = 0;
+  private tokenBReserve: number = 0;
+  private feeGrowthGlobalA: number = 0;
+  private feeGrowthGlobalB: number = 0;
+  private ticks: Map<number, TickInfo> = new Map();
+  private initializedTicks: number[] = [];
+  private positions: Map<string, PositionInfo> = new Map();
+  private lastUpdate: number;
+  private clock: Clock;
+
+  constructor(
+    fee: number = DEFAULT_POOL_FEE,
+    tickSpacing: number = DEFAULT_TICK_SPACING,
+    clock: Clock = new SystemClock()
+  ) {
+    if (tickSpacing <= 0 || !Number.isInteger(tickSpacing)) {
+      throw new Error('Tick spacing must be a positive integer');
+    }
+    this.fee = fee;
+    this.tickSpacing = tickSpacing;
+    this.clock = clock;
+    this.lastUpdate = clock.now();
+  }
+
+  initialize(price: number): void {
+    if (this.sqrtPrice > 0) {
+      throw new Error('Pool already initialized');
+    }
+    if (price <= 0) {
+      throw new Error('Invalid initial price');
+    }
+
+    this.sqrtPrice = Math.sqrt(price);
+    this.currentTick = priceToTick(price);
+    this.lastUpdate = this.clock.now();
+  }
+
+  getState(): ConcentratedPoolState {
+    let lpTokenSupply = 0;
+    for (const position of this.positions.values()) {
+      lpTokenSupply += position.liquidity;
+    }
+
+    return {
+      tokenAReserve: this.tokenAReserve,
+      tokenBReserve: this.tokenBReserve,
+      totalLiquidity: this.liquidity,
+      lpTokenSupply,
+      fee: this.fee,
+      lastUpdate: this.lastUpdate,
+      sqrtPrice: this.sqrtPrice,
+      currentTick: this.currentTick,
+      tickSpacing: this.tickSpacing,
+      initializedTicks: this.initializedTicks.length,
+    };
+  }
+
+  getPrice(): number {
+    return this.sqrtPrice * this.sqrtPrice;
+  }
+
+  getSpotPrice(tokenIn: 'A' | 'B'): number {
+    const price = this.getPrice();
+    if (tokenIn === 'A') return price;
+    return price > 0 ? 1 / price : 0;
+  }
+
+  getActiveLiquidity(): number {
+    return this.liquidity;
+  }
+
+  addLiquidity(
+    tickLower: number,
+    tickUpper: number,
+    tokenAAmount: number,
+    tokenBAmount: number,
+    owner: string = 'default'
+  ): ConcentratedAddLiquidityResult {
+    if (this.sqrtPrice === 0) {
+      throw new Error('Pool not initialized');
+    }
+    this.validateTickRange(tickLower, tickUpper);
+
+    const liquidity = getLiquidityForAmounts(
+      this.sqrtPrice,
+      tickToSqrtPrice(tickLower),
+      tickToSqrtPrice(tickUpper),
+      tokenAAmount,
+      tokenBAmount
+    );
+
+    if (liquidity <= 0) {
+      throw new Error('Invalid liquidity amounts');
+    }
+
+    const positionId = getPositionId(owner, tickLower, tickUpper);
+    const { amountA, amountB } = this.modifyPosition(positionId, owner, tickLower, tickUpper, liquidity);
+
+    this.tokenAReserve += amountA;
+    this.tokenBReserve += amountB;
+    this.lastUpdate = this.clock.now();
+
+    const inRange = tickLower <= this.currentTick && this.currentTick < tickUpper;
+
+    return {
+      positionId,
+      liquidity,
+      lpTokensReceived: liquidity,
+      tokenADeposited: amountA,
+      tokenBDeposited: amountB,
+      shareOfPool: inRange && this.liquidity > 0 ? liquidity / this.liquidity : 0,
+    };
+  }
+
+  removeLiquidity(positionId: string, liquidity?: number): ConcentratedRemoveLiquidityResult {
+    const position = this.positions.get(positionId);
+    if (!position) {
+      throw new Error('Position not found');
+    }
+
+    const amount = liquidity ?? position.liquidity;
+    if (amount <= 0 || amount > position.liquidity) {
+      throw new Error('Invalid liquidity amount');
+    }
+
+    const { amountA, amountB } = this.modifyPosition(
+      positionId,
+      position.owner,
+      position.tickLower,
+      position.tickUpper,
+      -amount
+    );
+    const fees = this.collectFees(positionId);
+
+    this.tokenAReserve -= amountA;
+    this.tokenBReserve -= amountB;
+    this.lastUpdate = this.clock.now();
+
+    return {
+      positionId,
+      lpTokensBurned: amount,
+      tokenAReceived: amountA + fees.feesA,
+      tokenBReceived: amountB + fees.feesB,
+      feesA: fees.feesA,
+      feesB: fees.feesB,
+      fee: fees.feesA * this.getPrice() + fees.feesB,
+    };
+  }
+
+  collectFees(positionId: string): { feesA: number; feesB: number } {
+    const position = this.positions.get(positionId);
+    if (!position) {
+      throw new Error('Position not found');
+    }
+
+    this.accrueFees(position);
+    const feesA = position.feesOwedA;
+    const feesB = position.feesOwedB;
+
+    position.feesOwedA = 0;
+    position.feesOwedB = 0;
+    this.tokenAReserve -= feesA;
+    this.tokenBReserve -= feesB;
+
+    if (position.liquidity === 0) {
+      this.positions.delete(positionId);
+    }
+
+    return { feesA, feesB };
+  }
+
+  private modifyPosition(
+    positionId: string,
+    owner: string,
+    tickLower: number,
+    tickUpper: number,
+    liquidityDelta: number
+  ): { amountA: number; amountB: number } {
+    this.updateTick(tickLower, liquidityDelta, false);
+    this.updateTick(tickUpper, liquidityDelta, true);
+
+    let position = this.positions.get(positionId);
+    if (!position) {
+      const inside = this.getFeeGrowthInside(tickLower, tickUpper);
+      position = {
+        owner,
+        tickLower,
+        tickUpper,
+        liquidity: 0,
+        feeGrowthInsideALast: inside.feeGrowthA,
+        feeGrowthInsideBLast: inside.feeGrowthB,
+        feesOwedA: 0,
+        feesOwedB: 0,
+      };
+      this.positions.set(positionId, position);
+    }
+
+    this.accrueFees(position);
+    position.liquidity += liquidityDelta;
+
+    if (tickLower <= this.currentTick && this.currentTick < tickUpper) {
+      this.liquidity += liquidityDelta;
+    }
+
+    const amounts = getAmountsForLiquidity(
+      this.sqrtPrice,
+      tickToSqrtPrice(tickLower),
+      tickToSqrtPrice(tickUpper),
+      Math.abs(liquidityDelta)
+    );
+
+    if (liquidityDelta < 0) {
+      this.clearTickIfUnused(tickLower);
+      this.clearTickIfUnused(tickUpper);
+    }
+
+    return amounts;
+  }
+
+  private updateTick(tick: number, liquidityDelta: number, upper: boolean): void {
+    let info = this.ticks.get(tick);
+
+    if (!info) {
+      // Fee growth below a newly initialized tick is assumed to have all
+      // happened below it, so inside growth starts at zero for new positions.
+      const below = tick <= this.currentTick;
+      info = {
+        liquidityGross: 0,
+        liquidityNet: 0,
+        feeGrowthOutsideA: below ? this.feeGrowthGlobalA : 0,
+        feeGrowthOutsideB: below ? this.feeGrowthGlobalB : 0,
+      };
+      this.ticks.set(tick, info);
+      this.insertInitializedTick(tick);
+    }
+
+    info.liquidityGross += liquidityDelta;
+    info.liquidityNet += upper ? -liquidityDelta : liquidityDelta;
+  }
+
+  private clearTickIfUnused(tick: number): void {
+    const info = this.ticks.get(tick);
+    if (info && info.liquidityGross <= 0) {
+      this.ticks.delete(tick);
+      this.initializedTicks = this.initializedTicks.filter(t => t !== tick);
+    }
+  }
+
+  private insertInitializedTick(tick: number): void {
+    let index = this.initializedTicks.length;
+    while (index > 0 && this.initializedTicks[index - 1] > tick) {
+      index--;
+    }
+    this.initializedTicks.splice(index, 0, tick);
+  }
+
+  private getFeeGrowthInside(tickLower: number, tickUpper: number): { feeGrowthA: number; feeGrowthB: number } {
+    const lower = this.ticks.get(tickLower);
+    const upper = this.ticks.get(tickUpper);
+
+    const lowerOutsideA = lower ? lower.feeGrowthOutsideA : 0;
+    const lowerOutsideB = lower ? lower.feeGrowthOutsideB : 0;
+    const upperOutsideA = upper ? upper.feeGrowthOutsideA : 0;
+    const upperOutsideB = upper ? upper.feeGrowthOutsideB : 0;
+
+    const belowA = this.currentTick >= tickLower ? lowerOutsideA : this.feeGrowthGlobalA - lowerOutsideA;
+    const belowB = this.currentTick >= tickLower ? lowerOutsideB : this.feeGrowthGlobalB - lowerOutsideB;
+    const aboveA = this.currentTick < tickUpper ? upperOutsideA : this.feeGrowthGlobalA - upperOutsideA;
+    const aboveB = this.currentTick < tickUpper ? upperOutsideB : this.feeGrowthGlobalB - upperOutsideB;
+
+    return {
+      feeGrowthA: this.feeGrowthGlobalA - belowA - aboveA,
+      feeGrowthB: this.feeGrowthGlobalB - belowB - aboveB,
+    };
+  }
+
+  private accrueFees(position: PositionInfo): void {
+    const inside = this.getFeeGrowthInside(position.tickLower, position.tickUpper);
+
+    position.feesOwedA += position.liquidity * (inside.feeGrowthA - position.feeGrowthInsideALast);
+    position.feesOwedB += position.liquidity * (inside.feeGrowthB - position.feeGrowthInsideBLast);
+    position.feeGrowthInsideALast = inside.feeGrowthA;
+    position.feeGrowthInsideBLast = inside.feeGrowthB;
+  }
+
+  simulateSwap(amountIn: number, tokenIn: 'A' | 'B'): SwapResult {
+    return this.computeSwap(amountIn, tokenIn).result;
+  }
+
+  executeSwap(amountIn: number, tokenIn: 'A' | 'B', minAmountOut: number = 0): SwapResult {
+    const computation = this.computeSwap(amountIn, tokenIn);
+    const result = computation.result;
+
+    if (result.amountOut < minAmountOut) {
+      throw new SlippageError(minAmountOut, result.amountOut);
+    }
+
+    for (const crossing of computation.crossings) {
+      const info = this.ticks.get(crossing.tick);
+      if (info) {
+        info.feeGrowthOutsideA = crossing.feeGrowthGlobalA - info.feeGrowthOutsideA;
+        info.feeGrowthOutsideB = crossing.feeGrowthGlobalB - info.feeGrowthOutsideB;
+      }
+    }
+
+    this.sqrtPrice = computation.sqrtPrice;
+    this.currentTick = computation.currentTick;
+    this.liquidity = computation.liquidity;
+    this.feeGrowthGlobalA = computation.feeGrowthGlobalA;
+    this.feeGrowthGlobalB = computation.feeGrowthGlobalB;
+
+    if (tokenIn === 'A') {
+      this.tokenAReserve += amountIn;
+      this.tokenBReserve -= result.amountOut;
+    } else {
+      this.tokenBReserve += amountIn;
+      this.tokenAReserve -= result.amountOut;
+    }
+
+    this.lastUpdate = this.clock.now();
+    return result;
+  }
+
+  private computeSwap(amountIn: number, tokenIn: 'A' | 'B'): SwapComputation {
+    if (amountIn <= 0) {
+      throw new Error('Invalid swap amount');
+    }
+    if (this.sqrtPrice === 0) {
+      throw new Error('Pool not initialized');
+    }
+
+    const zeroForOne = tokenIn === 'A';
+    let sqrtPrice = this.sqrtPrice;
+    let currentTick = this.currentTick;
+    let liquidity = this.liquidity;
+    let feeGrowthGlobalA = this.feeGrowthGlobalA;
+    let feeGrowthGlobalB = this.feeGrowthGlobalB;
+    let remaining = amountIn * (1 - this.fee);
+    let amountOut = 0;
+    let totalFee = 0;
+    const crossings: TickCrossing[] = [];
+
+    while (remaining > 1e-12) {
+      const nextTick = this.getNextInitializedTick(currentTick, zeroForOne);
+      if (nextTick === null && liquidity <= 0) {
+        throw new InsufficientLiquidityError();
+      }
+
+      const boundaryTick = nextTick ?? (zeroForOne ? MIN_TICK : MAX_TICK);
+      const sqrtTarget = tickToSqrtPrice(boundaryTick);
+      let stepIn = 0;
+      let stepOut = 0;
+      let reachedTarget = false;
+
+      if (liquidity > 0) {
+        const maxIn = zeroForOne
+          ? liquidity * (1 / sqrtTarget - 1 / sqrtPrice)
+          : liquidity * (sqrtTarget - sqrtPrice);
+
+        if (remaining >= maxIn) {
+          stepIn = maxIn;
+          reachedTarget = true;
+        } else {
+          stepIn = remaining;
+        }
+
+        const nextSqrtPrice = reachedTarget
+          ? sqrtTarget
+          : zeroForOne
+            ? (liquidity * sqrtPrice) / (liquidity + stepIn * sqrtPrice)
+            : sqrtPrice + stepIn / liquidity;
+
+        stepOut = zeroForOne
+          ? liquidity * (sqrtPrice - nextSqrtPrice)
+          : liquidity * (1 / sqrtPrice - 1 / nextSqrtPrice);
+
+        const stepFee = (stepIn * this.fee) / (1 - this.fee);
+        if (zeroForOne) {
+          feeGrowthGlobalA += stepFee / liquidity;
+        } else {
+          feeGrowthGlobalB += stepFee / liquidity;
+        }
+
+        totalFee += stepFee;
+        sqrtPrice = nextSqrtPrice;
+      } else {
+        reachedTarget = true;
+        sqrtPrice = sqrtTarget;
+      }
+
+      remaining -= stepIn;
+      amountOut += stepOut;
+
+      if (!reachedTarget) break;
+
+      if (nextTick === null) {
+        throw new InsufficientLiquidityError();
+      }
+
+      const info = this.ticks.get(nextTick);
+      crossings.push({ tick: nextTick, feeGrowthGlobalA, feeGrowthGlobalB });
+      if (info) {
+        liquidity += zeroForOne ? -info.liquidityNet : info.liquidityNet;
+      }
+      currentTick = zeroForOne ? nextTick - 1 : nextTick;
+    }
+
+    if (crossings.length === 0 || sqrtPrice !== tickToSqrtPrice(crossings[crossings.length - 1].tick)) {
+      currentTick = priceToTick(sqrtPrice * sqrtPrice);
+    }
+
+    const spotPriceBefore = this.getSpotPrice(tokenIn);
+    const executionPrice = amountOut / amountIn;
+    const priceImpact = Math.abs(executionPrice - spotPriceBefore) / spotPriceBefore;
+
+    return {
+      result: {
+        amountIn,
+        amountOut,
+        priceImpact,
+        fee: totalFee,
+        newPrice: sqrtPrice * sqrtPrice,
+      },
+      sqrtPrice,
+      currentTick,
+      liquidity,
+      feeGrowthGlobalA,
+      feeGrowthGlobalB,
+      crossings,
+    };
+  }
+
+  private getNextInitializedTick(currentTick: number, zeroForOne: boolean): number | null {
+    if (zeroForOne) {
+      for (let i = this.initializedTicks.length - 1; i >= 0; i--) {
+        if (this.initializedTicks[i] <= currentTick) return this.initializedTicks[i];
+      }
+      return null;
+    }
+
+    for (const tick of this.initializedTicks) {
+      if (tick > currentTick) return tick;
+    }
+    return null;
+  }
+
+  getAmountOut(amountIn: number, tokenIn: 'A' | 'B'): number {
+    return this.simulateSwap(amountIn, tokenIn).amountOut;
+  }
+
+  getLiquidityPosition(positionId: string): ConcentratedPosition {
+    const position = this.positions.get(positionId);
+    if (!position) {
+      throw new Error('Position not found');
+    }
+
+    const inside = this.getFeeGrowthInside(position.tickLower, position.tickUpper);
+    const { amountA, amountB } = getAmountsForLiquidity(
+      this.sqrtPrice,
+      tickToSqrtPrice(position.tickLower),
+      tickToSqrtPrice(position.tickUpper),
+      position.liquidity
+    );
+
+    return {
+      positionId,
+      owner: position.owner,
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper,
+      priceLower: tickToPrice(position.tickLower),
+      priceUpper: tickToPrice(position.tickUpper),
+      liquidity: position.liquidity,
+      tokenAAmount: amountA,
+      tokenBAmount: amountB,
+      feesOwedA: position.feesOwedA + position.liquidity * (inside.feeGrowthA - position.feeGrowthInsideALast),
+      feesOwedB: position.feesOwedB + position.liquidity * (inside.feeGrowthB - position.feeGrowthInsideBLast),
+      inRange: position.tickLower <= this.currentTick && this.currentTick < position.tickUpper,
+    };
+  }
+
+  getPositions(owner?: string): ConcentratedPosition[] {
+    return Array.from(this.positions.entries())
+      .filter(([, position]) => !owner || position.owner === owner)
+      .map(([positionId]) => this.getLiquidityPosition(positionId));
+  }
+
+  private validateTickRange(tickLower: number, tickUpper: number): void {
+    if (tickLower >= tickUpper) {
+      throw new Error('Lower tick must be below upper tick');
+    }
+    if (tickLower < MIN_TICK || tickUpper > MAX_TICK) {
+      throw new Error('Tick out of range');
+    }
+    if (tickLower % this.tickSpacing !== 0 || tickUpper % this.tickSpacing !== 0) {
+      throw new Error(`Ticks must be multiples of tick spacing ${this.tickSpacing}`);
+    }
+  }
+
+  nearestUsableTick(price: number): number {
+    const tick = priceToTick(price);
+    return Math.round(tick / this.tickSpacing) * this.tickSpacing;
+  }
+
+  setFee(fee: number): void {
+    if (fee < 0 || fee >= 1) {
+      throw new Error('Fee must be between 0 and 1');
+    }
+    this.fee = fee;
+  }
+
+  reset(): void {
+    this.sqrtPrice = 0;
+    this.currentTick = 0;
+    this.liquidity = 0;
+    this.tokenAReserve = 0;
+    this.tokenBReserve = 0;
+    this.feeGrowthGlobalA = 0;
+    this.feeGrowthGlobalB = 0;
+    this.ticks.clear();
+    this.initializedTicks = [];
+    this.positions.clear();
+    this.lastUpdate = this.clock.now();
+  }
+}
+
+export function tickToPrice(tick: number): number {
+  return Math.pow(TICK_BASE, tick);
+}
+
+export function tickToSqrtPrice(tick: number): number {
+  return Math.pow(TICK_BASE, tick / 2);
+}
+
+export function priceToTick(price: number): number {
+  return Math.floor(Math.log(price) / Math.log(TICK_BASE) + 1e-9);
+}
+
+export function getLiquidityForAmounts(
+  sqrtPrice: number,
+  sqrtPriceLower: number,
+  sqrtPriceUpper: number,
+  amountA: number,
+  amountB: number
+): number {
+  if (sqrtPrice <= sqrtPriceLower) {
+    return (amountA * sqrtPriceLower * sqrtPriceUpper) / (sqrtPriceUpper - sqrtPriceLower);
+  }
+  if (sqrtPrice >= sqrtPriceUpper) {
+    return amountB / (sqrtPriceUpper - sqrtPriceLower);
+  }
+
+  const liquidityA = (amountA * sqrtPrice * sqrtPriceUpper) / (sqrtPriceUpper - sqrtPrice);
+  const liquidityB = amountB / (sqrtPrice - sqrtPriceLower);
+  return Math.min(liquidityA, liquidityB);
+}
+
+export function getAmountsForLiquidity(
+  sqrtPrice: number,
+  sqrtPriceLower: number,
+  sqrtPriceUpper: number,
+  liquidity: number
+): { amountA: number; amountB: number } {
+  if (sqrtPrice <= sqrtPriceLower) {
+    return { amountA: liquidity * (1 / sqrtPriceLower - 1 / sqrtPriceUpper), amountB: 0 };
+  }
+  if (sqrtPrice >= sqrtPriceUpper) {
+    return { amountA: 0, amountB: liquidity * (sqrtPriceUpper - sqrtPriceLower) };
+  }
+  return {
+    amountA: liquidity * (1 / sqrtPrice - 1 / sqrtPriceUpper),
+    amountB: liquidity * (sqrtPrice - sqrtPriceLower),
+  };
+}
+
+function getPositionId(owner: string, tickLower: number, tickUpper: number): string {
+  return `${owner}:${tickLower}:${tickUpper}`;
+}
@@ -0,0 +1,459 @@
+import type { ConfigFormat, DeepPartial, EnvOverrides, MarketMakerConfig } from './types';
+import { parseYaml, parseYamlScalar } from './yaml';
+
+const DEFAULT_MARKET_MAKER_CONFIG: MarketMakerConfig = {
+  spread: {
+    baseSpread: 0.002,
+    minSpread: 0.0005,
+    maxSpread: 0.02,
+    volatilityMultiplier: 2.0,
+    inventorySkewMultiplier: 0.5,
+  },
+  inventory: {
+    targetInventory: 0,
+    maxInventory: 1000,
+    minInventory: -1000,
+    rebalanceThreshold: 0.3,
+    skewSensitivity: 1.5,
+  },
+  quoteModel: 'spread',
+  avellanedaStoikov: {
+    riskAversion: 0.1,
+    orderArrivalIntensity: 1500,
+    timeHorizon: 1,
+    sessionLengthMs: 0,
+    minSpread: 0.0005,
+    maxSpread: 0.02,
+  },
+  ladder: {
+    levels: 1,
+    spacing: 'bps',
+    spacingValue: 10,
+    spacingRatio: 1.5,
+    sizeDistribution: 'flat',
+    sizeFactor: 1,
+    inventorySkewMultiplier: 0.5,
+  },
+  orderBook: {
+    fairValue: 'microprice',
+    depthLevels: 5,
+    imbalanceSkewMultiplier: 0.5,
+    improveDepthThreshold: 1000,
+    behindDepthThreshold: 0,
+  },
+  accountingMethod: 'fifo',
+  feeRate: 0.001,
+  risk: {
+    maxNotionalExposure: 1000000,
+    maxDailyLoss: 10000,
+    maxTotalLoss: 50000,
+    maxDrawdown: 20000,
+    maxOrdersPerInterval: 100,
+    orderRateIntervalMs: 1000,
+    maxVolatility: 0.5,
+    maxPriceMove: 0.1,
+    priceMoveWindowMs: 60000,
+    maxOracleDeviation: 0.05,
+  },
+  orderSize: 100,
+  maxOrderSize: 500,
+  minOrderSize: 10,
+  priceTickSize: 0.0001,
+  sizeTickSize: 0.01,
+  updateIntervalMs: 1000,
+  oracle: {
+    mode: 'off',
+    priceType: 'arithmetic',
+    windowSeconds: 300,
+  },
+  preTrade: {
+    maxPriceDeviation: 0.05,
+    selfTradePrevention: true,
+  },
+};
+
+const DEFAULT_ENV_PREFIX = 'MM_';
+
+type ConfigRule =
+  | { type: 'number'; min?: number; exclusiveMin?: boolean; max?: number; exclusiveMax?: boolean; integer?: boolean; finite?: boolean }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'boolean' }
+  | { type: 'object'; fields: Record<string, ConfigRule> };
+
+const finite: ConfigRule = { type: 'number' };
+const nonNegative: ConfigRule = { type: 'number', min: 0 };
+const positive: ConfigRule = { type: 'number', min: 0, exclusiveMin: true };
+const positiveInteger: ConfigRule = { type: 'number', min: 1, integer: true };
+// Risk limits may be Infinity in code to disable them
+const limit: ConfigRule = { type: 'number', min: 0, exclusiveMin: true, finite: false };
+
+const MARKET_MAKER_CONFIG_RULES: ConfigRule = {
+  type: 'object',
+  fields: {
+    spread: {
+      type: 'object',
+      fields: {
+        baseSpread: nonNegative,
+        minSpread: nonNegative,
+        maxSpread: nonNegative,
+        volatilityMultiplier: nonNegative,
+        inventorySkewMultiplier: nonNegative,
+      },
+    },
+    inventory: {
+      type: 'object',
+      fields: {
+        targetInventory: finite,
+        maxInventory: finite,
+        minInventory: finite,
+        rebalanceThreshold: positive,
+        skewSensitivity: nonNegative,
+      },
+    },
+    quoteModel: { type: 'enum', values: ['spread', 'avellaneda-stoikov'] },
+    avellanedaStoikov: {
+      type: 'object',
+      fields: {
+        riskAversion: positive,
+        orderArrivalIntensity: positive,
+        timeHorizon: positive,
+        sessionLengthMs: nonNegative,
+        minSpread: nonNegative,
+        maxSpread: nonNegative,
+      },
+    },
+    ladder: {
+      type: 'object',
+      fields: {
+        levels: positiveInteger,
+        spacing: { type: 'enum', values: ['ticks', 'bps', 'geometric'] },
+        spacingValue: nonNegative,
+        spacingRatio: positive,
+        sizeDistribution: { type: 'enum', values: ['flat', 'linear', 'exponential'] },
+        sizeFactor: finite,
+        inventorySkewMultiplier: nonNegative,
+      },
+    },
+    orderBook: {
+      type: 'object',
+      fields: {
+        fairValue: { type: 'enum', values: ['mid', 'microprice', 'depth-weighted'] },
+        depthLevels: positiveInteger,
+        imbalanceSkewMultiplier: nonNegative,
+        improveDepthThreshold: nonNegative,
+        behindDepthThreshold: nonNegative,
+      },
+    },
+    accountingMethod: { type: 'enum', values: ['fifo', 'lifo', 'average'] },
+    feeRate: { type: 'number', min: -1, exclusiveMin: true, max: 1, exclusiveMax: true },
+    risk: {
+      type: 'object',
+      fields: {
+        maxNotionalExposure: limit,
+        maxDailyLoss: limit,
+        maxTotalLoss: limit,
+        maxDrawdown: limit,
+        maxOrdersPerInterval: { type: 'number', min: 1, integer: true, finite: false },
+        orderRateIntervalMs: positive,
+        maxVolatility: limit,
+        maxPriceMove: limit,
+        priceMoveWindowMs: positive,
+        maxOracleDeviation: limit,
+      },
+    },
+    orderSize: positive,
+    maxOrderSize: positive,
+    minOrderSize: nonNegative,
+    priceTickSize: positive,
+    sizeTickSize: positive,
+    updateIntervalMs: positive,
+    oracle: {
+      type: 'object',
+      fields: {
+        mode: { type: 'enum', values: ['off', 'reference', 'band'] },
+        priceType: { type: 'enum', values: ['arithmetic', 'geometric'] },
+        windowSeconds: positive,
+      },
+    },
+    preTrade: {
+      type: 'object',
+      fields: {
+        maxPriceDeviation: limit,
+        selfTradePrevention: { type: 'boolean' },
+      },
+    },
+  },
+};
+
+export function getDefaultMarketMakerConfig(): MarketMakerConfig {
+  return mergeConfig(DEFAULT_MARKET_MAKER_CONFIG, {});
+}
+
+// Deep-merges `config` onto the defaults and throws on any invalid field
+export function createMarketMakerConfig(config: DeepPartial<MarketMakerConfig> = {}): MarketMakerConfig {
+  const merged = mergeConfig(DEFAULT_MARKET_MAKER_CONFIG, config);
+  assertValidConfig(validateMarketMakerConfig(merged));
+  return merged;
+}
+
+// Plain objects merge key by key; anything else in `patch`, arrays included,
+// replaces the base value. Returns a copy and leaves both inputs untouched.
+export function mergeConfig<T>(base: T, patch: DeepPartial<T>): T {
+  return mergeValue(base, patch) as T;
+}
+
+// One "path: problem" entry per invalid field, plus cross-field ordering checks
+export function validateMarketMakerConfig(config: MarketMakerConfig): string[] {
+  const issues = checkRule(config, MARKET_MAKER_CONFIG_RULES, '');
+  if (issues.length > 0) return issues;
+
+  const { spread, inventory, avellanedaStoikov, ladder } = config;
+  if (spread.minSpread > spread.maxSpread) {
+    issues.push(`spread.minSpread: must be <= spread.maxSpread (${spread.maxSpread}), got ${spread.minSpread}`);
+  } else if (spread.baseSpread < spread.minSpread || spread.baseSpread > spread.maxSpread) {
+    issues.push(
+      `spread.baseSpread: must be between spread.minSpread (${spread.minSpread}) and spread.maxSpread (${spread.maxSpread}), got ${spread.baseSpread}`
+    );
+  }
+  if (inventory.minInventory >= inventory.maxInventory) {
+    issues.push(`inventory.minInventory: must be < inventory.maxInventory (${inventory.maxInventory}), got ${inventory.minInventory}`);
+  } else if (inventory.targetInventory <= inventory.minInventory || inventory.targetInventory >= inventory.maxInventory) {
+    issues.push(
+      `inventory.targetInventory: must be strictly between inventory.minInventory (${inventory.minInventory}) and inventory.maxInventory (${inventory.maxInventory}), got ${inventory.targetInventory}`
+    );
+  }
+  if (avellanedaStoikov.minSpread > avellanedaStoikov.maxSpread) {
+    issues.push(
+      `avellanedaStoikov.minSpread: must be <= avellanedaStoikov.maxSpread (${avellanedaStoikov.maxSpread}), got ${avellanedaStoikov.minSpread}`
+    );
+  }
+  if (ladder.sizeDistribution === 'exponential' && ladder.sizeFactor <= 0) {
+    issues.push(`ladder.sizeFactor: must be > 0 for exponential sizing, got ${ladder.sizeFactor}`);
+  }
+  if (config.minOrderSize > config.maxOrderSize) {
+    issues.push(`minOrderSize: must be <= maxOrderSize (${config.maxOrderSize}), got ${config.minOrderSize}`);
+  } else if (config.orderSize < config.minOrderSize || config.orderSize > config.maxOrderSize) {
+    issues.push(
+      `orderSize: must be between minOrderSize (${config.minOrderSize}) and maxOrderSize (${config.maxOrderSize}), got ${config.orderSize}`
+    );
+  }
+
+  return issues;
+}
+
+// JSON has no Infinity, so an unbounded risk limit comes back from a
+// serialized snapshot as null. Turns those nulls back into Infinity; any
+// other value is left for validation.
+export function restoreUnboundedLimits(config: MarketMakerConfig): MarketMakerConfig {
+  return restoreLimits(config, MARKET_MAKER_CONFIG_RULES) as MarketMakerConfig;
+}
+
+export function assertValidConfig(issues: string[]): void {
+  if (issues.length > 0) {
+    throw new Error(`Invalid market maker config: ${issues.join('; ')}`);
+  }
+}
+
+// Parses the contents of a config file into a partial config. An empty file
+// is an empty config; anything but an object at the top level throws.
+export function parseConfigText(text: string, format: ConfigFormat): DeepPartial<MarketMakerConfig> {
+  const parsed = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  if (parsed !== null && !isPlainObject(parsed)) {
+    throw new Error('expected an object at the top level');
+  }
+  return (parsed ?? {}) as DeepPartial<MarketMakerConfig>;
+}
+
+export function inferConfigFormat(path: string): ConfigFormat {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'yaml' || extension === 'yml') return 'yaml';
+  throw new Error(`Unknown config format for ${path}; use .json, .yaml or .yml`);
+}
+
+// Maps PREFIX + SEGMENT__SEGMENT variables onto config paths, matching each
+// segment to a field name case-insensitively and ignoring underscores:
+// MM_SPREAD__BASE_SPREAD=0.003 sets spread.baseSpread. Values are parsed
+// like YAML scalars. The prefix is shared with unrelated variables, so one
+// that matches no field is skipped and returned in `ignored`.
+export function getEnvOverrides(
+  env: Record<string, string | undefined>,
+  prefix: string = DEFAULT_ENV_PREFIX
+): EnvOverrides {
+  const overrides: Record<string, unknown> = {};
+  const ignored: string[] = [];
+
+  for (const [name, raw] of Object.entries(env)) {
+    if (!name.startsWith(prefix) || raw === undefined) continue;
+
+    const path = findFieldPath(name.slice(prefix.length).split('__'));
+    if (!path) {
+      ignored.push(name);
+      continue;
+    }
+
+    let target = overrides;
+    for (const key of path.slice(0, -1)) {
+      target[key] = isPlainObject(target[key]) ? target[key] : {};
+      target = target[key] as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = parseYamlScalar(raw.trim());
+  }
+
+  return { overrides: overrides as DeepPartial<MarketMakerConfig>, ignored };
+}
+
+// Returns the fields of `next` that differ from `current` as a patch, plus
+// their dotted paths
+export function diffConfig(
+  current: MarketMakerConfig,
+  next: MarketMakerConfig
+): { patch: DeepPartial<MarketMakerConfig>; changes: string[] } {
+  const changes: string[] = [];
+  const patch = diffValue(current, next, '', changes) ?? {};
+  return { patch: patch as DeepPartial<MarketMakerConfig>, changes };
+}
+
+function checkRule(value: unknown, rule: ConfigRule, path: string): string[] {
+  const at = path || 'config';
+
+  switch (rule.type) {
+    case 'object': {
+      if (!isPlainObject(value)) {
+        return [`${at}: expected an object, got ${describe(value)}`];
+      }
+      const issues: string[] = [];
+      for (const [key, fieldRule] of Object.entries(rule.fields)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        if (value[key] === undefined) {
+          issues.push(`${fieldPath}: is required`);
+        } else {
+          issues.push(...checkRule(value[key], fieldRule, fieldPath));
+        }
+      }
+      for (const key of Object.keys(value)) {
+        if (getOwn(rule.fields, key) === undefined) {
+          issues.push(`${path ? `${path}.${key}` : key}: unknown field`);
+        }
+      }
+      return issues;
+    }
+
+    case 'enum':
+      if (typeof value !== 'string' || !rule.values.includes(value)) {
+        return [`${at}: must be one of ${rule.values.map(option => `'${option}'`).join(', ')}, got ${describe(value)}`];
+      }
+      return [];
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return [`${at}: expected true or false, got ${describe(value)}`];
+      }
+      return [];
+
+    case 'number': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return [`${at}: expected a number, got ${describe(value)}`];
+      }
+      if (rule.finite !== false && !isFinite(value)) {
+        return [`${at}: must be finite, got ${value}`];
+      }
+      if (rule.integer && isFinite(value) && !Number.isInteger(value)) {
+        return [`${at}: must be an integer, got ${value}`];
+      }
+      if (rule.min !== undefined && (rule.exclusiveMin ? value <= rule.min : value < rule.min)) {
+        return [`${at}: must be ${rule.exclusiveMin ? '>' : '>='} ${rule.min}, got ${value}`];
+      }
+      if (rule.max !== undefined && (rule.exclusiveMax ? value >= rule.max : value > rule.max)) {
+        return [`${at}: must be ${rule.exclusiveMax ? '<' : '<='} ${rule.max}, got ${value}`];
+      }
+      return [];
+    }
+  }
+}
+
+function restoreLimits(value: unknown, rule: ConfigRule): unknown {
+  if (rule.type === 'number') {
+    return rule.finite === false && value === null ? Infinity : value;
+  }
+  if (rule.type !== 'object' || !isPlainObject(value)) return value;
+
+  const restored: Record<string, unknown> = { ...value };
+  for (const [key, fieldRule] of Object.entries(rule.fields)) {
+    if (key in value) {
+      restored[key] = restoreLimits(value[key], fieldRule);
+    }
+  }
+  return restored;
+}
+
+function mergeValue(base: unknown, patch: unknown): unknown {
+  if (patch === undefined) return cloneValue(base);
+  if (!isPlainObject(base) || !isPlainObject(patch)) return cloneValue(patch);
+
+  // Object.fromEntries keeps a "__proto__" key as a field for validation to
+  // reject instead of setting the prototype
+  const keys = new Set([...Object.keys(base), ...Object.keys(patch)]);
+  return Object.fromEntries(Array.from(keys, key => [key, mergeValue(getOwn(base, key), getOwn(patch, key))]));
+}
+
+function cloneValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(cloneValue);
+  if (isPlainObject(value)) return mergeValue(value, {});
+  return value;
+}
+
+// Collects the paths that differ and returns a patch holding only those
+function diffValue(current: unknown, next: unknown, path: string, changes: string[]): unknown {
+  if (isPlainObject(current) && isPlainObject(next)) {
+    const patch: Record<string, unknown> = {};
+    for (const key of Object.keys(next)) {
+      const changed = diffValue(current[key], next[key], path ? `${path}.${key}` : key, changes);
+      if (changed !== undefined) {
+        patch[key] = changed;
+      }
+    }
+    return Object.keys(patch).length > 0 ? patch : undefined;
+  }
+
+  if (JSON.stringify(current) === JSON.stringify(next)) return undefined;
+  changes.push(path);
+  return cloneValue(next);
+}
+
+function findFieldPath(segments: string[]): string[] | null {
+  const path: string[] = [];
+  let shape: unknown = DEFAULT_MARKET_MAKER_CONFIG;
+  for (const segment of segments) {
+    const key = isPlainObject(shape) ? findField(shape, segment) : undefined;
+    if (!key) return null;
+    path.push(key);
+    shape = (shape as Record<string, unknown>)[key];
+  }
+  return path;
+}
+
+function findField(shape: Record<string, unknown>, segment: string): string | undefined {
+  const normalized = normalizeFieldName(segment);
+  return Object.keys(shape).find(key => normalizeFieldName(key) === normalized);
+}
+
+function normalizeFieldName(name: string): string {
+  return name.replace(/_/g, '').toLowerCase();
+}
+
+function getOwn<T>(value: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `'${value}'`;
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
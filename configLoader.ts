@@ -0,0 +1,153 @@
+import type {
+  ConfigAppliedEvent,
+  ConfigLoadOptions,
+  ConfigWatcherConfig,
+  ConfigWatcherEvents,
+  DeepPartial,
+  EventListener,
+  MarketMakerConfig,
+} from './types';
+import type { MarketMaker } from './marketMaker';
+import { readFileSync, unwatchFile, watchFile, type Stats } from 'fs';
+import { EventBus } from './events';
+import {
+  createMarketMakerConfig,
+  diffConfig,
+  getEnvOverrides,
+  inferConfigFormat,
+  mergeConfig,
+  parseConfigText,
+} from './config';
+
+// File loading and hot reload need Node's fs, so this module is imported
+// directly rather than re-exported from the package entry point
+
+const DEFAULT_LOAD_OPTIONS: ConfigLoadOptions = {
+  format: null,
+  env: null,
+  envPrefix: 'MM_',
+};
+
+const DEFAULT_WATCHER_CONFIG: ConfigWatcherConfig = {
+  ...DEFAULT_LOAD_OPTIONS,
+  intervalMs: 1000,
+};
+
+// Reads a JSON or YAML file, applies environment overrides on top and
+// deep-merges the result onto the defaults. The format follows the file
+// extension unless options.format is set. Prefixed variables that match no
+// field are skipped; getEnvOverrides lists them.
+export function loadMarketMakerConfig(path: string, options: Partial<ConfigLoadOptions> = {}): MarketMakerConfig {
+  return readConfig(path, options).config;
+}
+
+function readConfig(
+  path: string,
+  options: Partial<ConfigLoadOptions>
+): { config: MarketMakerConfig; ignoredEnv: string[] } {
+  const { format, env, envPrefix } = { ...DEFAULT_LOAD_OPTIONS, ...options };
+
+  let fileConfig: DeepPartial<MarketMakerConfig>;
+  try {
+    fileConfig = parseConfigText(readFileSync(path, 'utf8'), format ?? inferConfigFormat(path));
+  } catch (error) {
+    throw new Error(`Cannot load config ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const { overrides, ignored } = getEnvOverrides(env ?? process.env, envPrefix);
+  return { config: createMarketMakerConfig(mergeConfig(fileConfig, overrides)), ignoredEnv: ignored };
+}
+
+// Watches a config file and applies valid edits to a running maker. A file
+// that fails to parse or validate is rejected as a whole and the maker keeps
+// its current config. Only changed fields are passed to updateConfig, so
+// untouched components keep their state.
+export class ConfigWatcher {
+  private config: ConfigWatcherConfig;
+  private marketMaker: MarketMaker;
+  private path: string;
+  private events: EventBus<ConfigWatcherEvents> = new EventBus();
+  private listener: ((current: Stats, previous: Stats) => void) | null = null;
+  private reportedIgnoredEnv: string = '';
+
+  constructor(marketMaker: MarketMaker, path: string, config: Partial<ConfigWatcherConfig> = {}) {
+    this.config = { ...DEFAULT_WATCHER_CONFIG, ...config };
+    this.marketMaker = marketMaker;
+    this.path = path;
+  }
+
+  on<K extends keyof ConfigWatcherEvents>(type: K, listener: EventListener<ConfigWatcherEvents[K]>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  // Polls the file's mtime; the maker's own loop keeps the process alive
+  start(): void {
+    if (this.listener) return;
+
+    this.listener = (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) {
+        this.reload();
+      }
+    };
+    watchFile(this.path, { interval: this.config.intervalMs, persistent: false }, this.listener);
+  }
+
+  stop(): void {
+    if (!this.listener) return;
+
+    unwatchFile(this.path, this.listener);
+    this.listener = null;
+  }
+
+  isWatching(): boolean {
+    return this.listener !== null;
+  }
+
+  // Returns the applied change, or null when nothing changed or the file was
+  // rejected. Ignored environment variables are reported once per change in
+  // the set, not on every reload.
+  reload(): ConfigAppliedEvent | null {
+    const timestamp = this.marketMaker.getClock().now();
+
+    try {
+      const { config: next, ignoredEnv } = readConfig(this.path, this.config);
+      const reported = ignoredEnv.join(',');
+      if (reported !== this.reportedIgnoredEnv) {
+        this.reportedIgnoredEnv = reported;
+        if (ignoredEnv.length > 0) {
+          this.events.emit('config-env-ignored', { path: this.path, names: ignoredEnv, timestamp });
+        }
+      }
+
+      const { patch, changes } = diffConfig(this.marketMaker.getConfig(), next);
+      if (changes.length === 0) return null;
+
+      this.marketMaker.updateConfig(patch);
+      const event: ConfigAppliedEvent = { path: this.path, changes, config: this.marketMaker.getConfig(), timestamp };
+      this.events.emit('config-applied', event);
+      return event;
+    } catch (error) {
+      this.events.emit('config-rejected', {
+        path: this.path,
+        reason: error instanceof Error ? error.message : String(error),
+        timestamp,
+      });
+      return null;
+    }
+  }
+
+  getPath(): string {
+    return this.path;
+  }
+
+  updateConfig(config: Partial<ConfigWatcherConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (this.listener && config.intervalMs !== undefined) {
+      this.stop();
+      this.start();
+    }
+  }
+
+  getConfig(): ConfigWatcherConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,50 @@
+import type { EventListener } from './types';
+
+type ListenerMap<TEvents> = { [K in keyof TEvents]?: Set<EventListener<TEvents[K]>> };
+
+export class EventBus<TEvents> {
+  private listeners: ListenerMap<TEvents> = {};
+
+  on<K extends keyof TEvents>(type: K, listener: EventListener<TEvents[K]>): () => void {
+    const listeners = this.listeners[type] ?? new Set<EventListener<TEvents[K]>>();
+    listeners.add(listener);
+    this.listeners[type] = listeners;
+    return () => this.off(type, listener);
+  }
+
+  once<K extends keyof TEvents>(type: K, listener: EventListener<TEvents[K]>): () => void {
+    const unsubscribe = this.on(type, event => {
+      unsubscribe();
+      listener(event);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends keyof TEvents>(type: K, listener: EventListener<TEvents[K]>): void {
+    this.listeners[type]?.delete(listener);
+  }
+
+  // A throwing listener is logged and skipped so it cannot break trading
+  // logic. Returns whether anyone was listening.
+  emit<K extends keyof TEvents>(type: K, event: TEvents[K]): boolean {
+    const listeners = this.listeners[type];
+    if (!listeners || listeners.size === 0) return false;
+
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in ${String(type)} listener:`, error);
+      }
+    }
+    return true;
+  }
+
+  listenerCount<K extends keyof TEvents>(type: K): number {
+    return this.listeners[type]?.size ?? 0;
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
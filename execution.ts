@@ -0,0 +1,313 @@
+import type {
+  Clock,
+  EventListener,
+  ExecutionConfig,
+  ExecutionEvents,
+  IdGenerator,
+  MarketData,
+  Order,
+  ParentOrder,
+  ParentOrderStatus,
+} from './types';
+import { MarketMaker } from './marketMaker';
+import { EventBus } from './events';
+
+const DEFAULT_EXECUTION_CONFIG: ExecutionConfig = {
+  algorithm: 'twap',
+  durationMs: 60000,
+  sliceIntervalMs: 10000,
+  volumeProfile: [],
+  displaySize: 10,
+  passiveMs: 5000,
+  maxParticipation: 0,
+  limitPrice: null,
+};
+
+const FILL_TOLERANCE = 1e-9;
+
+interface ParentState {
+  parent: ParentOrder;
+  children: Map<string, number>;
+  notional: number;
+  passiveSince: number | null;
+  aggressive: boolean;
+}
+
+// Works parent orders through the market maker as child orders. Call
+// update() on every market data tick of the traded instrument; children
+// that cross the touch fill immediately when no execution venue is set.
+export class ExecutionEngine {
+  private config: ExecutionConfig;
+  private marketMaker: MarketMaker;
+  private clock: Clock;
+  private ids: IdGenerator;
+  private parents: Map<string, ParentState> = new Map();
+  private childParents: Map<string, string> = new Map();
+  private marketData: MarketData | null = null;
+  private events: EventBus<ExecutionEvents> = new EventBus();
+  private subscriptions: (() => void)[];
+
+  constructor(marketMaker: MarketMaker, config: Partial<ExecutionConfig> = {}) {
+    this.config = { ...DEFAULT_EXECUTION_CONFIG, ...config };
+    this.marketMaker = marketMaker;
+    this.clock = marketMaker.getClock();
+    this.ids = marketMaker.getIdGenerator();
+
+    this.subscriptions = [
+      marketMaker.on('fill', event => this.onChildFill(event.order, event.trade.size, event.trade.price)),
+      marketMaker.on('order-cancelled', event => this.onChildClosed(event.order.id)),
+      marketMaker.on('order-rejected', event => this.onChildClosed(event.order.id)),
+    ];
+  }
+
+  on<K extends keyof ExecutionEvents>(type: K, listener: EventListener<ExecutionEvents[K]>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  submit(side: 'buy' | 'sell', size: number, config: Partial<ExecutionConfig> = {}): ParentOrder {
+    if (size <= 0) {
+      throw new Error('Parent order size must be positive');
+    }
+
+    const parentConfig = { ...this.config, ...config };
+    if (parentConfig.durationMs <= 0 || parentConfig.sliceIntervalMs <= 0) {
+      throw new Error('Duration and slice interval must be positive');
+    }
+    if (parentConfig.algorithm === 'iceberg' && parentConfig.displaySize <= 0) {
+      throw new Error('Iceberg display size must be positive');
+    }
+    if (parentConfig.volumeProfile.some(weight => weight < 0)) {
+      throw new Error('Volume profile weights must be non-negative');
+    }
+
+    const now = this.clock.now();
+    const parent: ParentOrder = {
+      id: this.ids.next('parent'),
+      side,
+      size,
+      filledSize: 0,
+      workingSize: 0,
+      scheduledSize: 0,
+      avgFillPrice: 0,
+      marketVolume: 0,
+      childOrderIds: [],
+      status: 'working',
+      config: parentConfig,
+      startTime: now,
+      endTime: now + parentConfig.durationMs,
+      updatedAt: now,
+    };
+
+    this.parents.set(parent.id, { parent, children: new Map(), notional: 0, passiveSince: null, aggressive: false });
+    this.events.emit('parent-created', { parent: copyParent(parent), timestamp: now });
+
+    if (this.marketData) {
+      this.work(this.parents.get(parent.id)!, this.marketData);
+    }
+    return copyParent(parent);
+  }
+
+  // Works the inventory controller's rebalance amount as a parent order
+  rebalance(config: Partial<ExecutionConfig> = {}): ParentOrder | null {
+    if (!this.marketMaker.needsRebalancing()) return null;
+
+    const amount = this.marketMaker.getRebalanceAmount();
+    if (amount === 0) return null;
+    return this.submit(amount > 0 ? 'buy' : 'sell', Math.abs(amount), config);
+  }
+
+  update(marketData: MarketData, marketVolume: number = 0): void {
+    this.marketData = marketData;
+
+    for (const state of this.parents.values()) {
+      if (state.parent.status !== 'working') continue;
+      state.parent.marketVolume += marketVolume;
+      this.work(state, marketData);
+    }
+  }
+
+  private work(state: ParentState, marketData: MarketData): void {
+    const { parent } = state;
+    const { algorithm, sliceIntervalMs, passiveMs, displaySize, maxParticipation } = parent.config;
+    const now = this.clock.now();
+
+    // TWAP and VWAP get one extra slice interval to finish the last slice
+    const scheduled = algorithm === 'twap' || algorithm === 'vwap';
+    if (now >= parent.endTime + (scheduled ? sliceIntervalMs : 0)) {
+      this.finish(state, 'expired');
+      return;
+    }
+
+    if (algorithm === 'passive-aggressive' && !state.aggressive
+      && state.passiveSince !== null && now - state.passiveSince >= passiveMs) {
+      state.aggressive = true;
+      this.cancelChildren(state);
+    }
+
+    let target = this.getScheduledSize(parent, now);
+    if (maxParticipation > 0) {
+      target = Math.min(target, maxParticipation * parent.marketVolume);
+    }
+    parent.scheduledSize = target;
+
+    let childSize = target - parent.filledSize - parent.workingSize;
+    if (algorithm === 'iceberg') {
+      childSize = parent.workingSize > FILL_TOLERANCE ? 0 : Math.min(childSize, displaySize);
+    }
+
+    const { sizeTickSize } = this.marketMaker.getConfig();
+    childSize = Math.floor(childSize / sizeTickSize + FILL_TOLERANCE) * sizeTickSize;
+    if (childSize <= 0) return;
+
+    const aggressive = scheduled || state.aggressive;
+    const touch = parent.side === 'buy'
+      ? (aggressive ? marketData.askPrice : marketData.bidPrice)
+      : (aggressive ? marketData.bidPrice : marketData.askPrice);
+    const price = applyLimit(parent.side, touch, parent.config.limitPrice);
+
+    const child = this.marketMaker.placeOrder(parent.side, price, childSize, parent.id);
+    if (child.status === 'rejected') return;
+
+    state.children.set(child.id, child.size);
+    this.childParents.set(child.id, parent.id);
+    parent.childOrderIds.push(child.id);
+    parent.workingSize += child.size;
+    parent.updatedAt = now;
+    if (!aggressive && state.passiveSince === null) {
+      state.passiveSince = now;
+    }
+
+    if (aggressive && price === touch && !this.marketMaker.getExecutionVenue()) {
+      this.marketMaker.processFill(child.id, child.size, child.price);
+    }
+  }
+
+  // Cumulative size the algorithm wants done by `now`
+  private getScheduledSize(parent: ParentOrder, now: number): number {
+    const { algorithm, durationMs, sliceIntervalMs, volumeProfile } = parent.config;
+    const elapsed = Math.max(0, now - parent.startTime);
+
+    if (algorithm === 'twap' || (algorithm === 'vwap' && volumeProfile.length === 0)) {
+      const slices = Math.max(1, Math.ceil(durationMs / sliceIntervalMs));
+      const slice = Math.min(slices, Math.floor(elapsed / sliceIntervalMs) + 1);
+      return parent.size * (slice / slices);
+    }
+
+    if (algorithm === 'vwap') {
+      const total = volumeProfile.reduce((sum, weight) => sum + weight, 0);
+      if (total <= 0) return parent.size;
+
+      const bucket = Math.min(
+        volumeProfile.length - 1,
+        Math.floor(elapsed / (durationMs / volumeProfile.length))
+      );
+      const done = volumeProfile.slice(0, bucket + 1).reduce((sum, weight) => sum + weight, 0);
+      return parent.size * (done / total);
+    }
+
+    return parent.size;
+  }
+
+  private onChildFill(order: Order, size: number, price: number): void {
+    const parentId = this.childParents.get(order.id);
+    const state = parentId ? this.parents.get(parentId) : undefined;
+    if (!state) return;
+
+    const { parent } = state;
+    parent.filledSize += size;
+    state.notional += size * price;
+    parent.avgFillPrice = state.notional / parent.filledSize;
+    this.updateChild(state, order.id, order.size - order.filledSize);
+    parent.updatedAt = this.clock.now();
+    this.events.emit('parent-updated', { parent: copyParent(parent), timestamp: parent.updatedAt });
+
+    if (parent.filledSize >= parent.size - FILL_TOLERANCE) {
+      this.finish(state, 'completed');
+    }
+  }
+
+  private onChildClosed(orderId: string): void {
+    const parentId = this.childParents.get(orderId);
+    const state = parentId ? this.parents.get(parentId) : undefined;
+    if (!state) return;
+
+    this.updateChild(state, orderId, 0);
+    if (state.children.size === 0) {
+      state.passiveSince = null;
+    }
+  }
+
+  private updateChild(state: ParentState, orderId: string, remaining: number): void {
+    const previous = state.children.get(orderId) ?? 0;
+    state.parent.workingSize = Math.max(0, state.parent.workingSize - previous + Math.max(0, remaining));
+
+    if (remaining > FILL_TOLERANCE) {
+      state.children.set(orderId, remaining);
+    } else {
+      state.children.delete(orderId);
+      this.childParents.delete(orderId);
+    }
+  }
+
+  private cancelChildren(state: ParentState): void {
+    for (const orderId of Array.from(state.children.keys())) {
+      if (!this.marketMaker.cancelOrder(orderId)) {
+        this.updateChild(state, orderId, 0);
+      }
+    }
+  }
+
+  private finish(state: ParentState, status: ParentOrderStatus): void {
+    if (state.parent.status !== 'working') return;
+
+    state.parent.status = status;
+    this.cancelChildren(state);
+    state.parent.updatedAt = this.clock.now();
+    this.events.emit('parent-finished', { parent: copyParent(state.parent), timestamp: state.parent.updatedAt });
+  }
+
+  cancel(parentId: string): boolean {
+    const state = this.parents.get(parentId);
+    if (!state || state.parent.status !== 'working') return false;
+
+    this.finish(state, 'cancelled');
+    return true;
+  }
+
+  getParentOrder(parentId: string): ParentOrder | null {
+    const state = this.parents.get(parentId);
+    return state ? copyParent(state.parent) : null;
+  }
+
+  getParentOrders(status?: ParentOrderStatus): ParentOrder[] {
+    return Array.from(this.parents.values())
+      .filter(state => !status || state.parent.status === status)
+      .map(state => copyParent(state.parent));
+  }
+
+  dispose(): void {
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
+  }
+
+  updateConfig(config: Partial<ExecutionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): ExecutionConfig {
+    return { ...this.config };
+  }
+}
+
+function applyLimit(side: 'buy' | 'sell', price: number, limitPrice: number | null): number {
+  if (limitPrice === null) return price;
+  return side === 'buy' ? Math.min(price, limitPrice) : Math.max(price, limitPrice);
+}
+
+function copyParent(parent: ParentOrder): ParentOrder {
+  return {
+    ...parent,
+    childOrderIds: [...parent.childOrderIds],
+    config: { ...parent.config, volumeProfile: [...parent.config.volumeProfile] },
+  };
+}
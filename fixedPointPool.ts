@@ -0,0 +1,434 @@
+import type {
+  AddLiquidityResult,
+  Clock,
+  FixedPointPoolConfig,
+  FixedPointPoolSnapshot,
+  PoolState,
+  RemoveLiquidityResult,
+  RoutablePool,
+  SwapResult,
+} from './types';
+import { SystemClock } from './clock';
+import { InsufficientLiquidityError, SlippageError } from './poolErrors';
+import {
+  SNAPSHOT_VERSIONS,
+  assertValidSnapshot,
+  migrateSnapshot,
+  validateFixedPointPoolSnapshot,
+} from './snapshot';
+
+const DEFAULT_FIXED_POINT_CONFIG: FixedPointPoolConfig = {
+  feeNumerator: 997,
+  feeDenominator: 1000,
+  decimalsA: 18,
+  decimalsB: 18,
+};
+
+export const FIXED_POINT_MINIMUM_LIQUIDITY = 1000n;
+const LOCKED_OWNER = '0x0000000000000000000000000000000000000000';
+const DEFAULT_OWNER = 'default';
+
+// Constant-product pool in raw integer token units, reproducing the pair
+// contract's rounding: floored swap amounts, a floored sqrt for the first
+// mint and MINIMUM_LIQUIDITY locked forever. Use toRaw/fromRaw to convert
+// from and to human-readable amounts.
+export class FixedPointLiquidityPool implements RoutablePool<bigint> {
+  private config: FixedPointPoolConfig;
+  private reserveA: bigint = 0n;
+  private reserveB: bigint = 0n;
+  private totalSupply: bigint = 0n;
+  private balances: Map<string, bigint> = new Map();
+  private lastUpdate: number;
+  private clock: Clock;
+
+  constructor(config: Partial<FixedPointPoolConfig> = {}, clock: Clock = new SystemClock()) {
+    this.config = { ...DEFAULT_FIXED_POINT_CONFIG, ...config };
+    validateConfig(this.config);
+    this.clock = clock;
+    this.lastUpdate = clock.now();
+  }
+
+  initialize(amountA: bigint, amountB: bigint, owner: string = DEFAULT_OWNER): AddLiquidityResult<bigint> {
+    if (this.totalSupply > 0n) {
+      throw new Error('Pool already initialized');
+    }
+    if (amountA <= 0n || amountB <= 0n) {
+      throw new Error('Invalid initial liquidity amounts');
+    }
+
+    const liquidity = sqrtBigInt(amountA * amountB) - FIXED_POINT_MINIMUM_LIQUIDITY;
+    if (liquidity <= 0n) {
+      throw new InsufficientLiquidityError('Initial liquidity too low');
+    }
+
+    this.mint(LOCKED_OWNER, FIXED_POINT_MINIMUM_LIQUIDITY);
+    return this.deposit(amountA, amountB, liquidity, owner);
+  }
+
+  // Deposits at the current ratio like the router: the side that would be
+  // over-supplied is cut down to the floored optimal amount.
+  addLiquidity(amountADesired: bigint, amountBDesired: bigint, owner: string = DEFAULT_OWNER): AddLiquidityResult<bigint> {
+    if (this.totalSupply === 0n) {
+      return this.initialize(amountADesired, amountBDesired, owner);
+    }
+    if (amountADesired <= 0n || amountBDesired <= 0n) {
+      throw new Error('Invalid liquidity amounts');
+    }
+
+    let amountA = amountADesired;
+    let amountB = (amountADesired * this.reserveB) / this.reserveA;
+    if (amountB > amountBDesired) {
+      amountA = (amountBDesired * this.reserveA) / this.reserveB;
+      amountB = amountBDesired;
+    }
+
+    const liquidity = minBigInt(
+      (amountA * this.totalSupply) / this.reserveA,
+      (amountB * this.totalSupply) / this.reserveB
+    );
+    if (liquidity <= 0n) {
+      throw new InsufficientLiquidityError('Insufficient liquidity minted');
+    }
+
+    return this.deposit(amountA, amountB, liquidity, owner);
+  }
+
+  // Swap fees compound into the reserves, so they are paid out inside the
+  // token amounts rather than reported separately.
+  removeLiquidity(liquidity: bigint, owner: string = DEFAULT_OWNER): RemoveLiquidityResult<bigint> {
+    const balance = this.getBalance(owner);
+    if (liquidity <= 0n || liquidity > balance) {
+      throw new Error('Insufficient LP tokens');
+    }
+
+    const amountA = (liquidity * this.reserveA) / this.totalSupply;
+    const amountB = (liquidity * this.reserveB) / this.totalSupply;
+    if (amountA <= 0n || amountB <= 0n) {
+      throw new InsufficientLiquidityError('Insufficient liquidity burned');
+    }
+
+    if (balance === liquidity) {
+      this.balances.delete(owner);
+    } else {
+      this.balances.set(owner, balance - liquidity);
+    }
+    this.totalSupply -= liquidity;
+    this.reserveA -= amountA;
+    this.reserveB -= amountB;
+    this.lastUpdate = this.clock.now();
+
+    return {
+      lpTokensBurned: liquidity,
+      tokenAReceived: amountA,
+      tokenBReceived: amountB,
+      fee: 0n,
+    };
+  }
+
+  getAmountOut(amountIn: bigint, tokenIn: 'A' | 'B'): bigint {
+    const [reserveIn, reserveOut] = this.getReserves(tokenIn);
+    return calculateAmountOut(amountIn, reserveIn, reserveOut, this.config.feeNumerator, this.config.feeDenominator);
+  }
+
+  getAmountIn(amountOut: bigint, tokenOut: 'A' | 'B'): bigint {
+    const [reserveIn, reserveOut] = this.getReserves(tokenOut === 'A' ? 'B' : 'A');
+    return calculateAmountIn(amountOut, reserveIn, reserveOut, this.config.feeNumerator, this.config.feeDenominator);
+  }
+
+  simulateSwap(amountIn: bigint, tokenIn: 'A' | 'B'): SwapResult<bigint> {
+    if (amountIn <= 0n) {
+      throw new Error('Invalid swap amount');
+    }
+
+    const [reserveIn, reserveOut] = this.getReserves(tokenIn);
+    const amountOut = this.getAmountOut(amountIn, tokenIn);
+    const { feeNumerator, feeDenominator } = this.config;
+
+    const spotRate = ratio(reserveOut, reserveIn);
+    const priceImpact = Math.abs(ratio(amountOut, amountIn) - spotRate) / spotRate;
+
+    const newReserveA = tokenIn === 'A' ? reserveIn + amountIn : reserveOut - amountOut;
+    const newReserveB = tokenIn === 'A' ? reserveOut - amountOut : reserveIn + amountIn;
+
+    return {
+      amountIn,
+      amountOut,
+      priceImpact,
+      fee: (amountIn * BigInt(feeDenominator - feeNumerator)) / BigInt(feeDenominator),
+      newPrice: this.toHumanPrice(newReserveA, newReserveB),
+    };
+  }
+
+  executeSwap(amountIn: bigint, tokenIn: 'A' | 'B', minAmountOut: bigint = 0n): SwapResult<bigint> {
+    const result = this.simulateSwap(amountIn, tokenIn);
+    if (result.amountOut <= 0n) {
+      throw new Error('Insufficient output amount');
+    }
+    if (result.amountOut < minAmountOut) {
+      throw new SlippageError(minAmountOut, result.amountOut);
+    }
+
+    if (tokenIn === 'A') {
+      this.reserveA += amountIn;
+      this.reserveB -= result.amountOut;
+    } else {
+      this.reserveB += amountIn;
+      this.reserveA -= result.amountOut;
+    }
+    this.lastUpdate = this.clock.now();
+    return result;
+  }
+
+  getState(): PoolState<bigint> {
+    return {
+      tokenAReserve: this.reserveA,
+      tokenBReserve: this.reserveB,
+      totalLiquidity: sqrtBigInt(this.reserveA * this.reserveB),
+      lpTokenSupply: this.totalSupply,
+      fee: (this.config.feeDenominator - this.config.feeNumerator) / this.config.feeDenominator,
+      lastUpdate: this.lastUpdate,
+    };
+  }
+
+  // Human-readable price of one token A in token B
+  getPrice(): number {
+    return this.toHumanPrice(this.reserveA, this.reserveB);
+  }
+
+  getSpotPrice(tokenIn: 'A' | 'B'): number {
+    const price = this.getPrice();
+    if (tokenIn === 'A') return price;
+    return price > 0 ? 1 / price : 0;
+  }
+
+  getBalance(owner: string = DEFAULT_OWNER): bigint {
+    return this.balances.get(owner) ?? 0n;
+  }
+
+  getBalances(): Map<string, bigint> {
+    return new Map(this.balances);
+  }
+
+  toRaw(amount: string | number, token: 'A' | 'B'): bigint {
+    return parseUnits(amount, this.getDecimals(token));
+  }
+
+  fromRaw(raw: bigint, token: 'A' | 'B'): string {
+    return formatUnits(raw, this.getDecimals(token));
+  }
+
+  getDecimals(token: 'A' | 'B'): number {
+    return token === 'A' ? this.config.decimalsA : this.config.decimalsB;
+  }
+
+  reset(): void {
+    this.reserveA = 0n;
+    this.reserveB = 0n;
+    this.totalSupply = 0n;
+    this.balances.clear();
+    this.lastUpdate = this.clock.now();
+  }
+
+  getConfig(): FixedPointPoolConfig {
+    return { ...this.config };
+  }
+
+  // Independent copy for dry runs
+  clone(): FixedPointLiquidityPool {
+    const copy = new FixedPointLiquidityPool(this.config, this.clock);
+    copy.restoreSnapshot(this.createSnapshot());
+    return copy;
+  }
+
+  createSnapshot(): FixedPointPoolSnapshot {
+    return {
+      kind: 'fixed-point-pool',
+      version: SNAPSHOT_VERSIONS['fixed-point-pool'],
+      config: { ...this.config },
+      reserveA: this.reserveA.toString(),
+      reserveB: this.reserveB.toString(),
+      totalSupply: this.totalSupply.toString(),
+      balances: Array.from(this.balances, ([owner, balance]) => ({ owner, balance: balance.toString() })),
+      lastUpdate: this.lastUpdate,
+    };
+  }
+
+  restoreSnapshot(snapshot: FixedPointPoolSnapshot): void {
+    const migrated = migrateSnapshot<FixedPointPoolSnapshot>('fixed-point-pool', snapshot);
+    assertValidSnapshot('fixed-point-pool', validateFixedPointPoolSnapshot(migrated));
+
+    this.config = { ...migrated.config };
+    this.reserveA = BigInt(migrated.reserveA);
+    this.reserveB = BigInt(migrated.reserveB);
+    this.totalSupply = BigInt(migrated.totalSupply);
+    this.balances = new Map(migrated.balances.map(({ owner, balance }) => [owner, BigInt(balance)]));
+    this.lastUpdate = migrated.lastUpdate;
+  }
+
+  private deposit(amountA: bigint, amountB: bigint, liquidity: bigint, owner: string): AddLiquidityResult<bigint> {
+    this.mint(owner, liquidity);
+    this.reserveA += amountA;
+    this.reserveB += amountB;
+    this.lastUpdate = this.clock.now();
+
+    return {
+      lpTokensReceived: liquidity,
+      tokenADeposited: amountA,
+      tokenBDeposited: amountB,
+      shareOfPool: ratio(liquidity, this.totalSupply),
+    };
+  }
+
+  private mint(owner: string, liquidity: bigint): void {
+    this.balances.set(owner, this.getBalance(owner) + liquidity);
+    this.totalSupply += liquidity;
+  }
+
+  private getReserves(tokenIn: 'A' | 'B'): [bigint, bigint] {
+    return tokenIn === 'A' ? [this.reserveA, this.reserveB] : [this.reserveB, this.reserveA];
+  }
+
+  private toHumanPrice(reserveA: bigint, reserveB: bigint): number {
+    if (reserveA === 0n) return 0;
+    return ratio(reserveB, reserveA) * 10 ** (this.config.decimalsA - this.config.decimalsB);
+  }
+}
+
+// amountIn * fee * reserveOut / (reserveIn * denominator + amountIn * fee), floored
+export function calculateAmountOut(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeNumerator: number = DEFAULT_FIXED_POINT_CONFIG.feeNumerator,
+  feeDenominator: number = DEFAULT_FIXED_POINT_CONFIG.feeDenominator
+): bigint {
+  if (amountIn <= 0n) {
+    throw new Error('Invalid swap amount');
+  }
+  if (reserveIn <= 0n || reserveOut <= 0n) {
+    throw new InsufficientLiquidityError();
+  }
+
+  const amountInWithFee = amountIn * BigInt(feeNumerator);
+  return (amountInWithFee * reserveOut) / (reserveIn * BigInt(feeDenominator) + amountInWithFee);
+}
+
+// Floored quotient plus one, so the input always covers amountOut
+export function calculateAmountIn(
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeNumerator: number = DEFAULT_FIXED_POINT_CONFIG.feeNumerator,
+  feeDenominator: number = DEFAULT_FIXED_POINT_CONFIG.feeDenominator
+): bigint {
+  if (amountOut <= 0n) {
+    throw new Error('Invalid swap amount');
+  }
+  if (reserveIn <= 0n || amountOut >= reserveOut) {
+    throw new InsufficientLiquidityError();
+  }
+
+  const numerator = reserveIn * amountOut * BigInt(feeDenominator);
+  const denominator = (reserveOut - amountOut) * BigInt(feeNumerator);
+  return numerator / denominator + 1n;
+}
+
+// Babylonian method, floored, as in the pair contract's Math.sqrt
+export function sqrtBigInt(value: bigint): bigint {
+  if (value < 0n) {
+    throw new Error('Square root of negative value');
+  }
+  if (value <= 3n) {
+    return value === 0n ? 0n : 1n;
+  }
+
+  let z = value;
+  let x = value / 2n + 1n;
+  while (x < z) {
+    z = x;
+    x = (value / x + x) / 2n;
+  }
+  return z;
+}
+
+// Human-readable amount to raw units. Numbers go through their shortest
+// decimal string, so 0.1 parses as exactly 1 followed by decimals - 1 zeros.
+export function parseUnits(amount: string | number, decimals: number): bigint {
+  assertDecimals(decimals);
+
+  let text = typeof amount === 'number' ? numberToDecimalString(amount) : amount.trim();
+  const negative = text.startsWith('-');
+  if (negative) text = text.slice(1);
+
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (match[1] === '' && !match[2])) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  const fraction = (match[2] ?? '').replace(/0+$/, '');
+  if (fraction.length > decimals) {
+    throw new Error(`Amount ${amount} has more than ${decimals} decimals`);
+  }
+
+  const raw = BigInt((match[1] || '0') + fraction.padEnd(decimals, '0'));
+  return negative ? -raw : raw;
+}
+
+// Raw units to a human-readable amount without trailing zeros
+export function formatUnits(raw: bigint, decimals: number): string {
+  assertDecimals(decimals);
+
+  const negative = raw < 0n;
+  const digits = (negative ? -raw : raw).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+function numberToDecimalString(amount: number): string {
+  if (!isFinite(amount)) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  const text = String(amount);
+  if (!/e/i.test(text)) return text;
+
+  // Expand exponent notation such as 1e-7 or 1.5e+21
+  const [mantissa, exponentText] = text.toLowerCase().split('e');
+  const exponent = Number(exponentText);
+  const negative = mantissa.startsWith('-');
+  const [whole, fraction = ''] = (negative ? mantissa.slice(1) : mantissa).split('.');
+  const digits = whole + fraction;
+  const point = whole.length + exponent;
+
+  const expanded = point <= 0
+    ? `0.${'0'.repeat(-point)}${digits}`
+    : point >= digits.length
+      ? digits + '0'.repeat(point - digits.length)
+      : `${digits.slice(0, point)}.${digits.slice(point)}`;
+  return negative ? `-${expanded}` : expanded;
+}
+
+function assertDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new Error(`Invalid decimals: ${decimals}`);
+  }
+}
+
+function validateConfig(config: FixedPointPoolConfig): void {
+  const { feeNumerator, feeDenominator } = config;
+  if (!Number.isInteger(feeNumerator) || !Number.isInteger(feeDenominator)
+    || feeDenominator <= 0 || feeNumerator <= 0 || feeNumerator > feeDenominator) {
+    throw new Error('Fee numerator and denominator must be integers with 0 < numerator <= denominator');
+  }
+  assertDecimals(config.decimalsA);
+  assertDecimals(config.decimalsB);
+}
+
+function ratio(numerator: bigint, denominator: bigint): number {
+  return denominator === 0n ? 0 : Number(numerator) / Number(denominator);
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
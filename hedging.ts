@@ -0,0 +1,188 @@
+import type {
+  EventListener,
+  HedgeConfig,
+  HedgeEvents,
+  HedgeExposure,
+  MarketData,
+  Order,
+} from './types';
+import { MarketMaker } from './marketMaker';
+import { EventBus } from './events';
+
+const DEFAULT_HEDGE_CONFIG: HedgeConfig = {
+  instrument: 'HEDGE',
+  hedgeRatio: 1,
+  policy: 'threshold',
+  threshold: 100,
+  bandTarget: 50,
+  minHedgeSize: 1,
+};
+
+// Offsets the market maker's inventory drift with aggressive orders on a
+// separate instrument. The target hedge is -hedgeRatio * (inventory - target),
+// in hedge instrument units. Hedge orders go through a second market maker
+// that trades only the hedge instrument, so they pass its pre-trade and risk
+// checks and its ledger holds the hedge position.
+export class HedgingEngine {
+  private config: HedgeConfig;
+  private marketMaker: MarketMaker;
+  private hedgeMaker: MarketMaker;
+  private marketData: MarketData | null = null;
+  private events: EventBus<HedgeEvents> = new EventBus();
+  private subscription: (() => void) | null = null;
+
+  constructor(marketMaker: MarketMaker, hedgeMaker: MarketMaker, config: Partial<HedgeConfig> = {}) {
+    this.config = { ...DEFAULT_HEDGE_CONFIG, ...config };
+    if (this.config.hedgeRatio === 0) {
+      throw new Error('Hedge ratio must be non-zero');
+    }
+    if (hedgeMaker === marketMaker) {
+      throw new Error('Hedge orders need a separate market maker for the hedge instrument');
+    }
+
+    this.marketMaker = marketMaker;
+    this.hedgeMaker = hedgeMaker;
+    hedgeMaker.on('order-placed', event => {
+      if (event.order.purpose === 'hedge') this.events.emit('hedge-placed', event);
+    });
+    hedgeMaker.on('order-rejected', event => {
+      if (event.order.purpose === 'hedge') this.events.emit('hedge-rejected', event);
+    });
+    hedgeMaker.on('fill', event => {
+      if (event.order.purpose === 'hedge') this.events.emit('hedge-fill', event);
+    });
+  }
+
+  on<K extends keyof HedgeEvents>(type: K, listener: EventListener<HedgeEvents[K]>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  // Re-evaluates the hedge after every primary fill
+  attach(): () => void {
+    this.detach();
+    this.subscription = this.marketMaker.on('fill', () => {
+      this.hedge();
+    });
+    return () => this.detach();
+  }
+
+  detach(): void {
+    if (this.subscription) {
+      this.subscription();
+      this.subscription = null;
+    }
+  }
+
+  updateMarketData(marketData: MarketData): Order | null {
+    if (marketData.symbol !== this.config.instrument) {
+      throw new Error(`Market data for ${marketData.symbol} does not match hedge instrument ${this.config.instrument}`);
+    }
+
+    this.marketData = marketData;
+    return this.hedge();
+  }
+
+  // Sends a hedge order if the policy calls for one. Without an execution
+  // venue on the hedge maker the order fills immediately at the touch. A
+  // rejected order is returned with its reject reason.
+  hedge(): Order | null {
+    if (!this.marketData) return null;
+
+    const size = this.calculateHedgeSize();
+    if (size === 0) return null;
+
+    const side = size > 0 ? 'buy' : 'sell';
+    const touch = side === 'buy' ? this.marketData.askPrice : this.marketData.bidPrice;
+    const price = roundToTick(touch, this.hedgeMaker.getConfig().priceTickSize);
+    const order = this.hedgeMaker.placeOrder(side, price, Math.abs(size), undefined, 'hedge');
+    if (order.status !== 'rejected' && !this.hedgeMaker.getExecutionVenue()) {
+      this.hedgeMaker.processFill(order.id, order.size, order.price);
+    }
+    return order;
+  }
+
+  // Signed hedge instrument size the policy would trade now
+  calculateHedgeSize(): number {
+    const { policy, threshold, bandTarget, minHedgeSize } = this.config;
+    const { sizeTickSize } = this.hedgeMaker.getConfig();
+    const exposure = this.getExposure();
+    const unhedged = exposure.targetHedge - exposure.hedgePosition - exposure.pendingHedge;
+
+    let size = 0;
+    switch (policy) {
+      case 'continuous':
+        size = unhedged;
+        break;
+      case 'threshold':
+        size = Math.abs(unhedged) > threshold ? unhedged : 0;
+        break;
+      case 'band':
+        // Trade back to the edge of the band rather than all the way to flat
+        size = Math.abs(unhedged) > threshold
+          ? unhedged - Math.sign(unhedged) * Math.min(bandTarget, threshold)
+          : 0;
+        break;
+    }
+
+    const rounded = Math.sign(size) * Math.floor(Math.abs(size) / sizeTickSize + 1e-9) * sizeTickSize;
+    return Math.abs(rounded) >= minHedgeSize ? rounded : 0;
+  }
+
+  getExposure(): HedgeExposure {
+    const { currentInventory, targetInventory } = this.marketMaker.getInventoryState();
+    const primaryDelta = currentInventory - targetInventory;
+    const ledger = this.hedgeMaker.getLedger();
+    const hedgePosition = ledger.getNetPosition();
+    const markPrice = this.getMarkPrice();
+
+    let pendingHedge = 0;
+    for (const order of this.getActiveOrders()) {
+      const remaining = order.size - order.filledSize;
+      pendingHedge += order.side === 'buy' ? remaining : -remaining;
+    }
+
+    return {
+      primaryDelta,
+      hedgePosition,
+      pendingHedge,
+      targetHedge: -this.config.hedgeRatio * primaryDelta,
+      netDelta: primaryDelta + hedgePosition / this.config.hedgeRatio,
+      hedgeMarkPrice: markPrice,
+      hedgeRealizedPnL: ledger.getRealizedPnL(),
+      hedgeUnrealizedPnL: ledger.getUnrealizedPnL(markPrice),
+    };
+  }
+
+  // Before any hedge market data the position is marked at its entry price
+  private getMarkPrice(): number {
+    if (this.marketData) {
+      return (this.marketData.bidPrice + this.marketData.askPrice) / 2;
+    }
+    return this.hedgeMaker.getLedger().getAvgEntryPrice();
+  }
+
+  // Hedge orders still working on the hedge maker
+  getActiveOrders(): Order[] {
+    return this.hedgeMaker.getActiveOrders().filter(order => order.purpose === 'hedge');
+  }
+
+  getHedgeMaker(): MarketMaker {
+    return this.hedgeMaker;
+  }
+
+  updateConfig(config: Partial<HedgeConfig>): void {
+    if (config.hedgeRatio === 0) {
+      throw new Error('Hedge ratio must be non-zero');
+    }
+
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): HedgeConfig {
+    return { ...this.config };
+  }
+}
+
+function roundToTick(value: number, tickSize: number): number {
+  return Math.round(value / tickSize) * tickSize;
+}
@@ -0,0 +1,58 @@
+import type { IdGenerator } from './types';
+
+// Shared by every default generator so IDs never repeat within a process; the
+// session tag keeps them apart across processes.
+const SESSION_TAG = Math.random().toString(36).slice(2, 8).padEnd(6, '0');
+let sequence = 0;
+
+export class MonotonicIdGenerator implements IdGenerator {
+  next(prefix: string): string {
+    return `${prefix}-${SESSION_TAG}-${(sequence++).toString(36).padStart(8, '0')}`;
+  }
+}
+
+export class SeededIdGenerator implements IdGenerator {
+  private seed: number;
+  private random: () => number;
+  private sequence: number = 0;
+
+  constructor(seed: number) {
+    this.seed = seed;
+    this.random = createSeededRandom(seed);
+  }
+
+  next(prefix: string): string {
+    const suffix = Math.floor(this.random() * 0x100000000).toString(36).padStart(7, '0');
+    return `${prefix}-${(this.sequence++).toString(36).padStart(8, '0')}-${suffix}`;
+  }
+
+  getSequence(): number {
+    return this.sequence;
+  }
+
+  // Replays the random draws, so the next ID is the one the original
+  // generator would have issued after `sequence` IDs
+  setSequence(sequence: number): void {
+    if (!Number.isInteger(sequence) || sequence < 0) {
+      throw new Error('ID sequence must be a non-negative integer');
+    }
+
+    this.random = createSeededRandom(this.seed);
+    for (let i = 0; i < sequence; i++) {
+      this.random();
+    }
+    this.sequence = sequence;
+  }
+}
+
+// mulberry32: small, fast and good enough for simulation noise and IDs
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
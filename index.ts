@@ -1,5 +1,86 @@
 export * from './types';
 export { SpreadCalculator, calculateEffectiveSpread, calculateMidPrice, calculateWeightedMidPrice, estimateVolatility } from './spread';
+export { AvellanedaStoikovModel } from './avellanedaStoikov';
+export {
+  EwmaVolatility,
+  RangeVolatility,
+  RealizedVolatility,
+  GarchVolatility,
+  calculateBarVariance,
+  annualize,
+  garchLogLikelihood,
+} from './volatility';
+export { buildQuoteLadder, calculateLevelOffset, calculateLevelSizeWeight } from './ladder';
+export { OrderBookQuoter, getSortedLevels, calculateMicroprice, calculateDepthWeightedMid, calculateBookImbalance } from './orderBook';
 export { InventoryController, calculateOptimalInventoryTarget, calculateInventoryRisk } from './inventory';
 export { LiquidityPool, calculateK, calculatePriceFromReserves, estimateSlippage } from './liquidityPool';
+export { StaticFeePolicy, VolatilityFeePolicy, DirectionalFeePolicy } from './poolFees';
+export { PriceOracle } from './oracle';
+export { PoolError, SlippageError, InsufficientLiquidityError } from './poolErrors';
+export {
+  FixedPointLiquidityPool,
+  FIXED_POINT_MINIMUM_LIQUIDITY,
+  calculateAmountOut,
+  calculateAmountIn,
+  sqrtBigInt,
+  parseUnits,
+  formatUnits,
+} from './fixedPointPool';
+export {
+  ConcentratedLiquidityPool,
+  MIN_TICK,
+  MAX_TICK,
+  tickToPrice,
+  tickToSqrtPrice,
+  priceToTick,
+  getLiquidityForAmounts,
+  getAmountsForLiquidity,
+} from './concentratedLiquidityPool';
+export {
+  StableSwapPool,
+  calculateStableSwapD,
+  calculateStableSwapY,
+  estimateStableSwapSlippage,
+} from './stableSwapPool';
+export { PnLLedger } from './ledger';
+export {
+  SNAPSHOT_VERSIONS,
+  migrateSnapshot,
+  validateInventorySnapshot,
+  validateFixedPointPoolSnapshot,
+  validateLiquidityPoolSnapshot,
+  validateLedgerSnapshot,
+  validateMarketMakerSnapshot,
+} from './snapshot';
+export { RiskManager } from './riskManager';
+export { MatchingEngine } from './matchingEngine';
 export { MarketMaker } from './marketMaker';
+export {
+  DEFAULT_PRE_TRADE_CHECKS,
+  runPreTradeChecks,
+  checkPriceTick,
+  checkInventoryHeadroom,
+  checkMinimumSize,
+  checkPriceBand,
+  checkSelfTrade,
+} from './preTrade';
+export {
+  getDefaultMarketMakerConfig,
+  createMarketMakerConfig,
+  mergeConfig,
+  validateMarketMakerConfig,
+  parseConfigText,
+  getEnvOverrides,
+} from './config';
+export { parseYaml } from './yaml';
+export { PortfolioMarketMaker } from './portfolio';
+export { HedgingEngine } from './hedging';
+export { ExecutionEngine } from './execution';
+export { ArbitrageEngine, calculateOptimalArbitrage } from './arbitrage';
+export { PoolRegistry, SwapRouter } from './router';
+export { SystemClock, ManualClock } from './clock';
+export { MonotonicIdGenerator, SeededIdGenerator, createSeededRandom } from './ids';
+export { EventBus } from './events';
+export { MetricsRegistry, MetricsExporter } from './metrics';
+export { QuotingEngine } from './quotingEngine';
+export { Backtester, parseCsvEvents, parseJsonlEvents } from './backtester';
@@ -1,4 +1,16 @@
-import type { InventoryConfig, InventoryState, Position, Trade } from './types';
+import type {
+  Clock,
+  EventListener,
+  InventoryConfig,
+  InventoryEvents,
+  InventorySnapshot,
+  InventoryState,
+  Position,
+  Trade,
+} from './types';
+import { SNAPSHOT_VERSIONS, assertValidSnapshot, migrateSnapshot, validateInventorySnapshot } from './snapshot';
+import { SystemClock } from './clock';
+import { EventBus } from './events';
 
 const DEFAULT_INVENTORY_CONFIG: InventoryConfig = {
   targetInventory: 0,
@@ -13,9 +25,14 @@ export class InventoryController {
   private currentInventory: number = 0;
   private tradeHistory: Trade[] = [];
   private avgEntryPrice: number = 0;
+  private lastUpdate: number;
+  private clock: Clock;
+  private events: EventBus<InventoryEvents> = new EventBus();
 
-  constructor(config: Partial<InventoryConfig> = {}) {
+  constructor(config: Partial<InventoryConfig> = {}, clock: Clock = new SystemClock()) {
     this.config = { ...DEFAULT_INVENTORY_CONFIG, ...config };
+    this.clock = clock;
+    this.lastUpdate = clock.now();
   }
 
   getState(): InventoryState {
@@ -30,6 +47,7 @@ export class InventoryController {
       skewFactor: this.calculateSkewFactor(),
       maxInventory: this.config.maxInventory,
       minInventory: this.config.minInventory,
+      lastUpdate: this.lastUpdate,
     };
   }
 
@@ -51,11 +69,11 @@ export class InventoryController {
 
     if (trade.side === 'buy') {
       this.currentInventory += trade.size;
-      this.updateAvgEntryPrice(trade.price, trade.size, 'buy');
     } else {
       this.currentInventory -= trade.size;
-      this.updateAvgEntryPrice(trade.price, trade.size, 'sell');
     }
+    this.updateAvgEntryPrice(previousInventory, trade.price, trade.size);
+    this.lastUpdate = this.clock.now();
 
     this.tradeHistory.push(trade);
 
@@ -63,31 +81,51 @@ export class InventoryController {
       this.tradeHistory = this.tradeHistory.slice(-500);
     }
 
-    this.enforceInventoryLimits(previousInventory);
+    this.enforceInventoryLimits(trade);
   }
 
-  private updateAvgEntryPrice(price: number, size: number, side: 'buy' | 'sell'): void {
-    if (side === 'buy' && this.currentInventory > 0) {
-      const previousValue = this.avgEntryPrice * (this.currentInventory - size);
-      const newValue = price * size;
-      this.avgEntryPrice = (previousValue + newValue) / this.currentInventory;
-    } else if (side === 'sell' && this.currentInventory < 0) {
-      const previousValue = this.avgEntryPrice * Math.abs(this.currentInventory + size);
+  private updateAvgEntryPrice(previousInventory: number, price: number, size: number): void {
+    if (this.currentInventory === 0) {
+      this.avgEntryPrice = 0;
+    } else if (Math.sign(previousInventory) !== Math.sign(this.currentInventory)) {
+      this.avgEntryPrice = price;
+    } else if (Math.abs(this.currentInventory) > Math.abs(previousInventory)) {
+      const previousValue = this.avgEntryPrice * Math.abs(previousInventory);
       const newValue = price * size;
       this.avgEntryPrice = (previousValue + newValue) / Math.abs(this.currentInventory);
     }
   }
 
-  private enforceInventoryLimits(previousInventory: number): void {
-    if (this.currentInventory > this.config.maxInventory) {
-      console.warn(`Inventory exceeded max limit: ${this.currentInventory} > ${this.config.maxInventory}`);
+  private enforceInventoryLimits(trade: Trade): void {
+    const attemptedInventory = this.currentInventory;
+
+    if (attemptedInventory > this.config.maxInventory) {
       this.currentInventory = this.config.maxInventory;
-    } else if (this.currentInventory < this.config.minInventory) {
-      console.warn(`Inventory below min limit: ${this.currentInventory} < ${this.config.minInventory}`);
+      if (!this.emitLimitHit('max', attemptedInventory, trade)) {
+        console.warn(`Inventory exceeded max limit: ${attemptedInventory} > ${this.config.maxInventory}`);
+      }
+    } else if (attemptedInventory < this.config.minInventory) {
       this.currentInventory = this.config.minInventory;
+      if (!this.emitLimitHit('min', attemptedInventory, trade)) {
+        console.warn(`Inventory below min limit: ${attemptedInventory} < ${this.config.minInventory}`);
+      }
     }
   }
 
+  private emitLimitHit(limit: 'max' | 'min', attemptedInventory: number, trade: Trade): boolean {
+    return this.events.emit('inventory-limit', {
+      limit,
+      attemptedInventory,
+      inventory: this.currentInventory,
+      trade,
+      timestamp: this.clock.now(),
+    });
+  }
+
+  on<K extends keyof InventoryEvents>(type: K, listener: EventListener<InventoryEvents[K]>): () => void {
+    return this.events.on(type, listener);
+  }
+
   needsRebalancing(): boolean {
     const deviation = Math.abs(this.currentInventory - this.config.targetInventory);
     const range = this.config.maxInventory - this.config.minInventory;
@@ -164,6 +202,7 @@ export class InventoryController {
       this.config.minInventory,
       Math.min(this.config.maxInventory, inventory)
     );
+    this.lastUpdate = this.clock.now();
   }
 
   updateConfig(config: Partial<InventoryConfig>): void {
@@ -174,10 +213,34 @@ export class InventoryController {
     return { ...this.config };
   }
 
+  createSnapshot(): InventorySnapshot {
+    return {
+      kind: 'inventory',
+      version: SNAPSHOT_VERSIONS.inventory,
+      config: { ...this.config },
+      currentInventory: this.currentInventory,
+      avgEntryPrice: this.avgEntryPrice,
+      lastUpdate: this.lastUpdate,
+      tradeHistory: this.tradeHistory.map(trade => ({ ...trade })),
+    };
+  }
+
+  restoreSnapshot(snapshot: InventorySnapshot): void {
+    const migrated = migrateSnapshot<InventorySnapshot>('inventory', snapshot);
+    assertValidSnapshot('inventory', validateInventorySnapshot(migrated));
+
+    this.config = { ...migrated.config };
+    this.currentInventory = migrated.currentInventory;
+    this.avgEntryPrice = migrated.avgEntryPrice;
+    this.lastUpdate = migrated.lastUpdate;
+    this.tradeHistory = migrated.tradeHistory.map(trade => ({ ...trade }));
+  }
+
   reset(): void {
     this.currentInventory = this.config.targetInventory;
     this.tradeHistory = [];
     this.avgEntryPrice = 0;
+    this.lastUpdate = this.clock.now();
   }
 }
 
@@ -0,0 +1,88 @@
+import type { InventoryState, LadderConfig, Quote, QuoteLadder, QuoteLadderLevel } from './types';
+
+const DEFAULT_LADDER_CONFIG: LadderConfig = {
+  levels: 1,
+  spacing: 'bps',
+  spacingValue: 10,
+  spacingRatio: 1.5,
+  sizeDistribution: 'flat',
+  sizeFactor: 1,
+  inventorySkewMultiplier: 0.5,
+};
+
+export function buildQuoteLadder(
+  quote: Quote,
+  inventoryState: InventoryState,
+  config: Partial<LadderConfig> = {},
+  tickSize: number = 0.0001
+): QuoteLadder {
+  const ladderConfig = { ...DEFAULT_LADDER_CONFIG, ...config };
+  const levels = Math.max(1, Math.floor(ladderConfig.levels));
+  const skew = inventoryState.skewFactor * ladderConfig.inventorySkewMultiplier;
+
+  // Long inventory spreads bid levels further apart and packs ask levels
+  // closer to the touch; short inventory does the opposite.
+  const bidSpacingFactor = Math.max(0.1, 1 + skew);
+  const askSpacingFactor = Math.max(0.1, 1 - skew);
+
+  const bids: QuoteLadderLevel[] = [];
+  const asks: QuoteLadderLevel[] = [];
+
+  for (let level = 0; level < levels; level++) {
+    const offset = calculateLevelOffset(level, quote.midPrice, ladderConfig, tickSize);
+    const sizeWeight = calculateLevelSizeWeight(level, ladderConfig);
+
+    bids.push({
+      level,
+      price: roundToTickSize(quote.bidPrice - offset * bidSpacingFactor, tickSize),
+      size: quote.bidSize * sizeWeight,
+    });
+    asks.push({
+      level,
+      price: roundToTickSize(quote.askPrice + offset * askSpacingFactor, tickSize),
+      size: quote.askSize * sizeWeight,
+    });
+  }
+
+  return { bids, asks, midPrice: quote.midPrice };
+}
+
+export function calculateLevelOffset(
+  level: number,
+  referencePrice: number,
+  config: LadderConfig,
+  tickSize: number
+): number {
+  if (level <= 0) return 0;
+
+  switch (config.spacing) {
+    case 'ticks':
+      return level * config.spacingValue * tickSize;
+    case 'geometric': {
+      let offset = 0;
+      for (let i = 0; i < level; i++) {
+        offset += (config.spacingValue / 10000) * Math.pow(config.spacingRatio, i);
+      }
+      return offset * referencePrice;
+    }
+    case 'bps':
+    default:
+      return level * (config.spacingValue / 10000) * referencePrice;
+  }
+}
+
+export function calculateLevelSizeWeight(level: number, config: LadderConfig): number {
+  switch (config.sizeDistribution) {
+    case 'linear':
+      return Math.max(0, 1 + level * config.sizeFactor);
+    case 'exponential':
+      return Math.pow(config.sizeFactor, level);
+    case 'flat':
+    default:
+      return 1;
+  }
+}
+
+function roundToTickSize(value: number, tickSize: number): number {
+  return Math.round(value / tickSize) * tickSize;
+}
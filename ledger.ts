@@ -0,0 +1,169 @@
+import type { AccountingMethod, LedgerSnapshot, LedgerSummary, Lot, Position, Trade } from './types';
+
+// Sizes within this fraction of the fill size count as zero, so float error
+// from closing e.g. 0.1 + 0.2 with 0.3 does not leave dust lots open
+const SIZE_TOLERANCE = 1e-9;
+
+export class PnLLedger {
+  private method: AccountingMethod;
+  private lots: Lot[] = [];
+  private grossRealizedPnL: number = 0;
+  private totalFees: number = 0;
+  private cashFlow: number = 0;
+  private fillCount: number = 0;
+
+  constructor(method: AccountingMethod = 'fifo') {
+    this.method = method;
+  }
+
+  recordFill(trade: Trade): number {
+    const signedSize = trade.side === 'buy' ? trade.size : -trade.size;
+    let remaining = signedSize;
+    let realized = 0;
+
+    this.cashFlow -= signedSize * trade.price + trade.fee;
+    this.totalFees += trade.fee;
+    this.fillCount++;
+
+    // Close against open lots of the opposite sign first; whatever is left
+    // over flips the position and opens a new lot at the fill price.
+    while (remaining !== 0 && this.lots.length > 0 && Math.sign(this.lots[0].size) !== Math.sign(remaining)) {
+      const index = this.method === 'lifo' ? this.lots.length - 1 : 0;
+      const lot = this.lots[index];
+      const closeSize = Math.min(Math.abs(remaining), Math.abs(lot.size));
+      const direction = Math.sign(lot.size);
+
+      realized += closeSize * (trade.price - lot.price) * direction;
+      lot.size -= closeSize * direction;
+      remaining += closeSize * direction;
+
+      if (isDust(lot.size, trade.size)) {
+        this.lots.splice(index, 1);
+      }
+      if (isDust(remaining, trade.size)) {
+        remaining = 0;
+      }
+    }
+
+    if (remaining !== 0) {
+      this.openLot(trade, remaining);
+    }
+
+    this.grossRealizedPnL += realized;
+    return realized - trade.fee;
+  }
+
+  private openLot(trade: Trade, signedSize: number): void {
+    if (this.method === 'average' && this.lots.length > 0) {
+      const lot = this.lots[0];
+      const totalSize = lot.size + signedSize;
+      lot.price = (lot.price * lot.size + trade.price * signedSize) / totalSize;
+      lot.size = totalSize;
+      lot.timestamp = trade.timestamp;
+      return;
+    }
+
+    this.lots.push({
+      tradeId: trade.id,
+      size: signedSize,
+      price: trade.price,
+      timestamp: trade.timestamp,
+    });
+  }
+
+  getNetPosition(): number {
+    return this.lots.reduce((sum, lot) => sum + lot.size, 0);
+  }
+
+  getAvgEntryPrice(): number {
+    const position = this.getNetPosition();
+    if (position === 0) return 0;
+    return this.lots.reduce((sum, lot) => sum + lot.price * lot.size, 0) / position;
+  }
+
+  getRealizedPnL(): number {
+    return this.grossRealizedPnL - this.totalFees;
+  }
+
+  getUnrealizedPnL(markPrice: number): number {
+    return this.lots.reduce((sum, lot) => sum + lot.size * (markPrice - lot.price), 0);
+  }
+
+  getPosition(markPrice: number): Position {
+    const baseBalance = this.getNetPosition();
+    return {
+      baseBalance,
+      quoteBalance: this.cashFlow,
+      netExposure: baseBalance * markPrice,
+      unrealizedPnL: this.getUnrealizedPnL(markPrice),
+    };
+  }
+
+  getSummary(markPrice: number): LedgerSummary {
+    const realizedPnL = this.getRealizedPnL();
+    const unrealizedPnL = this.getUnrealizedPnL(markPrice);
+    const position = this.getNetPosition();
+
+    return {
+      method: this.method,
+      position,
+      avgEntryPrice: this.getAvgEntryPrice(),
+      grossRealizedPnL: this.grossRealizedPnL,
+      realizedPnL,
+      unrealizedPnL,
+      totalFees: this.totalFees,
+      totalPnL: realizedPnL + unrealizedPnL,
+      cashFlow: this.cashFlow,
+      markToMarket: this.cashFlow + position * markPrice,
+      fillCount: this.fillCount,
+    };
+  }
+
+  getLots(): Lot[] {
+    return this.lots.map(lot => ({ ...lot }));
+  }
+
+  getMethod(): AccountingMethod {
+    return this.method;
+  }
+
+  setMethod(method: AccountingMethod): void {
+    if (method === this.method) return;
+    if (this.lots.length > 0) {
+      throw new Error('Cannot change accounting method with open lots');
+    }
+    this.method = method;
+  }
+
+  createSnapshot(): LedgerSnapshot {
+    return {
+      method: this.method,
+      lots: this.getLots(),
+      grossRealizedPnL: this.grossRealizedPnL,
+      totalFees: this.totalFees,
+      cashFlow: this.cashFlow,
+      fillCount: this.fillCount,
+    };
+  }
+
+  restoreSnapshot(snapshot: LedgerSnapshot): void {
+    this.method = snapshot.method;
+    this.lots = snapshot.lots.map(lot => ({ ...lot }));
+    this.grossRealizedPnL = snapshot.grossRealizedPnL;
+    this.totalFees = snapshot.totalFees;
+    this.cashFlow = snapshot.cashFlow;
+    this.fillCount = snapshot.fillCount;
+  }
+
+  reset(): void {
+    this.lots = [];
+    this.grossRealizedPnL = 0;
+    this.totalFees = 0;
+    this.cashFlow = 0;
+    this.fillCount = 0;
+  }
+}
+
+function isDust(size: number, scale: number): boolean {
+  return Math.abs(size) <= SIZE_TOLERANCE * Math.max(1, Math.abs(scale));
+}
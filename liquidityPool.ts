@@ -1,26 +1,84 @@
 import type {
-  PoolState,
+  RoutablePool,
+  Clock,
+  EventListener,
+  LiquidityPoolEvents,
+  LiquidityPoolState,
   LiquidityPosition,
+  TrackedLiquidityPosition,
   SwapResult,
   AddLiquidityResult,
   RemoveLiquidityResult,
+  LiquidityPoolSnapshot,
+  PoolAmount,
+  PoolFeePolicy,
+  ProtocolFeeClaim,
+  OracleConsultation,
+  PriceOracleConfig,
 } from './types';
+import {
+  SNAPSHOT_VERSIONS,
+  assertValidSnapshot,
+  migrateSnapshot,
+  validateLiquidityPoolSnapshot,
+} from './snapshot';
+import { SystemClock } from './clock';
+import { EventBus } from './events';
+import { calculateAmountOut } from './fixedPointPool';
+import { PriceOracle } from './oracle';
+import { InsufficientLiquidityError, SlippageError } from './poolErrors';
 
 const DEFAULT_POOL_FEE = 0.003;
 const MINIMUM_LIQUIDITY = 1000;
+const DEFAULT_OWNER = 'default';
+const DEFAULT_FEE_RECIPIENT = 'protocol';
+const SLIPPAGE_FEE_SCALE = 1000000;
+const FEE_POLICY_ITERATIONS = 50;
+
+interface LpPositionRecord {
+  lpTokens: number;
+  entryPrice: number;
+  depositedA: number;
+  depositedB: number;
+  feeGrowthALast: number;
+  feeGrowthBLast: number;
+  feesEarnedA: number;
+  feesEarnedB: number;
+  openedAt: number;
+}
 
-export class LiquidityPool {
+export class LiquidityPool implements RoutablePool {
   private tokenAReserve: number = 0;
   private tokenBReserve: number = 0;
   private lpTokenSupply: number = 0;
   private fee: number;
-  private lastUpdate: number = Date.now();
-
-  constructor(fee: number = DEFAULT_POOL_FEE) {
+  private lastUpdate: number;
+  private positions: Map<string, LpPositionRecord> = new Map();
+  private feeGrowthPerLpA: number = 0;
+  private feeGrowthPerLpB: number = 0;
+  private feePolicy: PoolFeePolicy | null = null;
+  private protocolFeeShare: number = 0;
+  private feeRecipient: string = DEFAULT_FEE_RECIPIENT;
+  private feesCollectedA: number = 0;
+  private feesCollectedB: number = 0;
+  private protocolFeesA: number = 0;
+  private protocolFeesB: number = 0;
+  private oracle: PriceOracle;
+  private clock: Clock;
+  private events: EventBus<LiquidityPoolEvents> = new EventBus();
+
+  constructor(
+    fee: number = DEFAULT_POOL_FEE,
+    clock: Clock = new SystemClock(),
+    oracleConfig: Partial<PriceOracleConfig> = {}
+  ) {
     this.fee = fee;
+    this.clock = clock;
+    this.lastUpdate = clock.now();
+    this.oracle = new PriceOracle(oracleConfig);
   }
 
-  initialize(tokenAAmount: number, tokenBAmount: number): AddLiquidityResult {
+  initialize(tokenAAmount: number, tokenBAmount: number, owner: string = DEFAULT_OWNER): AddLiquidityResult {
     if (this.lpTokenSupply > 0) {
       throw new Error('Pool already initialized');
     }
@@ -32,13 +90,16 @@ export class LiquidityPool {
     const initialLiquidity = Math.sqrt(tokenAAmount * tokenBAmount);
 
     if (initialLiquidity < MINIMUM_LIQUIDITY) {
-      throw new Error('Initial liquidity too low');
+      throw new InsufficientLiquidityError('Initial liquidity too low');
     }
 
     this.tokenAReserve = tokenAAmount;
     this.tokenBReserve = tokenBAmount;
     this.lpTokenSupply = initialLiquidity - MINIMUM_LIQUIDITY;
-    this.lastUpdate = Date.now();
+    this.lastUpdate = this.clock.now();
+    this.updateOracle();
+    this.recordDeposit(owner, this.lpTokenSupply, tokenAAmount, tokenBAmount);
+    this.emitLiquidityChange('add', owner, this.lpTokenSupply, tokenAAmount, tokenBAmount);
 
     return {
       lpTokensReceived: this.lpTokenSupply,
@@ -48,7 +109,7 @@ export class LiquidityPool {
     };
   }
 
-  getState(): PoolState {
+  getState(): LiquidityPoolState {
     return {
       tokenAReserve: this.tokenAReserve,
       tokenBReserve: this.tokenBReserve,
@@ -56,6 +117,12 @@ export class LiquidityPool {
       lpTokenSupply: this.lpTokenSupply,
       fee: this.fee,
       lastUpdate: this.lastUpdate,
+      feesCollectedA: this.feesCollectedA,
+      feesCollectedB: this.feesCollectedB,
+      protocolFeesA: this.protocolFeesA,
+      protocolFeesB: this.protocolFeesB,
+      protocolFeeShare: this.protocolFeeShare,
+      feeRecipient: this.feeRecipient,
     };
   }
 
@@ -76,24 +143,15 @@ export class LiquidityPool {
       throw new Error('Invalid swap amount');
     }
 
-    const feeAmount = amountIn * this.fee;
+    const [reserveIn, reserveOut] = this.getReserves(tokenIn);
+    const k = reserveIn * reserveOut;
+    const feeRate = this.getFeeRate(tokenIn, reserveIn + amountIn, k / (reserveIn + amountIn));
+    const feeAmount = amountIn * feeRate;
     const amountInAfterFee = amountIn - feeAmount;
 
-    let amountOut: number;
-    let newReserveIn: number;
-    let newReserveOut: number;
-
-    if (tokenIn === 'A') {
-      newReserveIn = this.tokenAReserve + amountInAfterFee;
-      const k = this.tokenAReserve * this.tokenBReserve;
-      newReserveOut = k / newReserveIn;
-      amountOut = this.tokenBReserve - newReserveOut;
-    } else {
-      newReserveIn = this.tokenBReserve + amountInAfterFee;
-      const k = this.tokenAReserve * this.tokenBReserve;
-      newReserveOut = k / newReserveIn;
-      amountOut = this.tokenAReserve - newReserveOut;
-    }
+    const newReserveIn = reserveIn + amountInAfterFee;
+    const newReserveOut = k / newReserveIn;
+    const amountOut = reserveOut - newReserveOut;
 
     const spotPriceBefore = this.getSpotPrice(tokenIn);
     const executionPrice = amountOut / amountIn;
@@ -114,26 +172,44 @@ export class LiquidityPool {
     const result = this.simulateSwap(amountIn, tokenIn);
 
     if (result.amountOut < minAmountOut) {
-      throw new Error(`Slippage exceeded: expected ${minAmountOut}, got ${result.amountOut}`);
+      throw new SlippageError(minAmountOut, result.amountOut);
     }
 
-    const amountInAfterFee = amountIn - result.fee;
-
+    // The protocol's share of the fee leaves the reserves for the fee
+    // recipient's balance. The rest stays in the reserves and is attributed to
+    // LP positions pro rata through a per-LP-token fee growth accumulator.
+    const protocolFee = result.fee * this.protocolFeeShare;
+    const lpFee = result.fee - protocolFee;
     if (tokenIn === 'A') {
-      this.tokenAReserve += amountInAfterFee;
+      this.tokenAReserve += amountIn - protocolFee;
       this.tokenBReserve -= result.amountOut;
+      this.feeGrowthPerLpA += lpFee / this.lpTokenSupply;
+      this.feesCollectedA += result.fee;
+      this.protocolFeesA += protocolFee;
     } else {
-      this.tokenBReserve += amountInAfterFee;
+      this.tokenBReserve += amountIn - protocolFee;
       this.tokenAReserve -= result.amountOut;
+      this.feeGrowthPerLpB += lpFee / this.lpTokenSupply;
+      this.feesCollectedB += result.fee;
+      this.protocolFeesB += protocolFee;
     }
 
-    this.lastUpdate = Date.now();
+    this.lastUpdate = this.clock.now();
+    this.updateOracle();
+    this.events.emit('swap', {
+      tokenIn,
+      result,
+      protocolFee,
+      tokenAReserve: this.tokenAReserve,
+      tokenBReserve: this.tokenBReserve,
+      timestamp: this.lastUpdate,
+    });
     return result;
   }
 
-  addLiquidity(tokenAAmount: number, tokenBAmount: number): AddLiquidityResult {
+  addLiquidity(tokenAAmount: number, tokenBAmount: number, owner: string = DEFAULT_OWNER): AddLiquidityResult {
     if (this.lpTokenSupply === 0) {
-      return this.initialize(tokenAAmount, tokenBAmount);
+      return this.initialize(tokenAAmount, tokenBAmount, owner);
     }
 
     const currentRatio = this.tokenBReserve / this.tokenAReserve;
@@ -158,7 +234,10 @@ export class LiquidityPool {
     this.tokenAReserve += actualTokenA;
     this.tokenBReserve += actualTokenB;
     this.lpTokenSupply += lpTokensMinted;
-    this.lastUpdate = Date.now();
+    this.lastUpdate = this.clock.now();
+    this.updateOracle();
+    this.recordDeposit(owner, lpTokensMinted, actualTokenA, actualTokenB);
+    this.emitLiquidityChange('add', owner, lpTokensMinted, actualTokenA, actualTokenB);
 
     return {
       lpTokensReceived: lpTokensMinted,
@@ -168,29 +247,166 @@ export class LiquidityPool {
     };
   }
 
-  removeLiquidity(lpTokens: number): RemoveLiquidityResult {
+  removeLiquidity(lpTokens: number, owner: string = DEFAULT_OWNER): RemoveLiquidityResult {
     if (lpTokens <= 0 || lpTokens > this.lpTokenSupply) {
       throw new Error('Invalid LP token amount');
     }
 
+    // Every deposit registers a position, so an owner without one holds nothing
+    const position = this.positions.get(owner);
+    if (!position) {
+      throw new Error(`No liquidity position for ${owner}`);
+    }
+    if (lpTokens > position.lpTokens) {
+      throw new Error(`Position ${owner} holds only ${position.lpTokens} LP tokens`);
+    }
+
     const shareRatio = lpTokens / this.lpTokenSupply;
     const tokenAAmount = this.tokenAReserve * shareRatio;
     const tokenBAmount = this.tokenBReserve * shareRatio;
+    const fee = this.recordWithdrawal(owner, position, lpTokens);
 
     this.tokenAReserve -= tokenAAmount;
     this.tokenBReserve -= tokenBAmount;
     this.lpTokenSupply -= lpTokens;
-    this.lastUpdate = Date.now();
+    this.lastUpdate = this.clock.now();
+    this.updateOracle();
+    this.emitLiquidityChange('remove', owner, lpTokens, tokenAAmount, tokenBAmount);
 
     return {
       lpTokensBurned: lpTokens,
       tokenAReceived: tokenAAmount,
       tokenBReceived: tokenBAmount,
-      fee: 0,
+      fee,
     };
   }
 
-  getLiquidityPosition(lpTokens: number): LiquidityPosition {
+  private emitLiquidityChange(
+    action: 'add' | 'remove',
+    owner: string,
+    lpTokens: number,
+    tokenAAmount: number,
+    tokenBAmount: number
+  ): void {
+    this.events.emit('liquidity-changed', {
+      action,
+      owner,
+      lpTokens,
+      tokenAAmount,
+      tokenBAmount,
+      lpTokenSupply: this.lpTokenSupply,
+      timestamp: this.lastUpdate,
+    });
+  }
+
+  on<K extends keyof LiquidityPoolEvents>(type: K, listener: EventListener<LiquidityPoolEvents[K]>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  private recordDeposit(owner: string, lpTokens: number, tokenAAmount: number, tokenBAmount: number): void {
+    const price = this.getPrice();
+    const position = this.positions.get(owner);
+
+    if (!position) {
+      this.positions.set(owner, {
+        lpTokens,
+        entryPrice: price,
+        depositedA: tokenAAmount,
+        depositedB: tokenBAmount,
+        feeGrowthALast: this.feeGrowthPerLpA,
+        feeGrowthBLast: this.feeGrowthPerLpB,
+        feesEarnedA: 0,
+        feesEarnedB: 0,
+        openedAt: this.clock.now(),
+      });
+      return;
+    }
+
+    this.accrueFees(position);
+    const totalLpTokens = position.lpTokens + lpTokens;
+    position.entryPrice = (position.entryPrice * position.lpTokens + price * lpTokens) / totalLpTokens;
+    position.lpTokens = totalLpTokens;
+    position.depositedA += tokenAAmount;
+    position.depositedB += tokenBAmount;
+  }
+
+  private recordWithdrawal(owner: string, position: LpPositionRecord, lpTokens: number): number {
+    this.accrueFees(position);
+
+    const ratio = lpTokens / position.lpTokens;
+    const feesA = position.feesEarnedA * ratio;
+    const feesB = position.feesEarnedB * ratio;
+
+    position.lpTokens -= lpTokens;
+    position.depositedA -= position.depositedA * ratio;
+    position.depositedB -= position.depositedB * ratio;
+    position.feesEarnedA -= feesA;
+    position.feesEarnedB -= feesB;
+
+    if (position.lpTokens === 0) {
+      this.positions.delete(owner);
+    }
+
+    return feesA * this.getPrice() + feesB;
+  }
+
+  private accrueFees(position: LpPositionRecord): void {
+    position.feesEarnedA += position.lpTokens * (this.feeGrowthPerLpA - position.feeGrowthALast);
+    position.feesEarnedB += position.lpTokens * (this.feeGrowthPerLpB - position.feeGrowthBLast);
+    position.feeGrowthALast = this.feeGrowthPerLpA;
+    position.feeGrowthBLast = this.feeGrowthPerLpB;
+  }
+
+  getPosition(owner: string = DEFAULT_OWNER): TrackedLiquidityPosition | null {
+    const position = this.positions.get(owner);
+    if (!position || this.lpTokenSupply === 0) return null;
+
+    this.accrueFees(position);
+
+    const shareOfPool = position.lpTokens / this.lpTokenSupply;
+    const tokenAAmount = this.tokenAReserve * shareOfPool;
+    const tokenBAmount = this.tokenBReserve * shareOfPool;
+    const currentPrice = this.getPrice();
+    const currentValue = tokenAAmount * currentPrice + tokenBAmount;
+    const hodlValue = position.depositedA * currentPrice + position.depositedB;
+    const feesValue = position.feesEarnedA * currentPrice + position.feesEarnedB;
+
+    return {
+      positionId: owner,
+      lpTokens: position.lpTokens,
+      shareOfPool,
+      tokenAAmount,
+      tokenBAmount,
+      entryPrice: position.entryPrice,
+      currentValue,
+      impermanentLoss: this.calculateImpermanentLoss(position.entryPrice, currentPrice),
+      depositedA: position.depositedA,
+      depositedB: position.depositedB,
+      hodlValue,
+      feesEarnedA: position.feesEarnedA,
+      feesEarnedB: position.feesEarnedB,
+      feesValue,
+      netPnL: currentValue - hodlValue,
+      openedAt: position.openedAt,
+    };
+  }
+
+  getPositions(): TrackedLiquidityPosition[] {
+    const positions: TrackedLiquidityPosition[] = [];
+    for (const owner of this.positions.keys()) {
+      const position = this.getPosition(owner);
+      if (position) positions.push(position);
+    }
+    return positions;
+  }
+
+  getLiquidityPosition(lpTokensOrOwner: number | string): LiquidityPosition {
+    if (typeof lpTokensOrOwner === 'string') {
+      const tracked = this.getPosition(lpTokensOrOwner);
+      if (tracked) return tracked;
+    }
+
+    const lpTokens = typeof lpTokensOrOwner === 'number' ? lpTokensOrOwner : 0;
     if (lpTokens <= 0 || this.lpTokenSupply === 0) {
       return {
         lpTokens: 0,
@@ -235,25 +451,31 @@ export class LiquidityPool {
   getAmountIn(amountOut: number, tokenOut: 'A' | 'B'): number {
     if (amountOut <= 0) return 0;
 
-    let reserveIn: number;
-    let reserveOut: number;
-
-    if (tokenOut === 'A') {
-      reserveIn = this.tokenBReserve;
-      reserveOut = this.tokenAReserve;
-    } else {
-      reserveIn = this.tokenAReserve;
-      reserveOut = this.tokenBReserve;
-    }
+    const tokenIn = tokenOut === 'A' ? 'B' : 'A';
+    const [reserveIn, reserveOut] = this.getReserves(tokenIn);
 
     if (amountOut >= reserveOut) {
-      throw new Error('Insufficient liquidity');
+      throw new InsufficientLiquidityError();
     }
 
+    const newReserveOut = reserveOut - amountOut;
     const numerator = reserveIn * amountOut;
-    const denominator = (reserveOut - amountOut) * (1 - this.fee);
+    let amountIn = numerator / (newReserveOut * (1 - this.fee));
+
+    // A policy fee depends on the input it is charged on, so iterate to the
+    // input whose exact-in quote delivers amountOut
+    if (this.feePolicy) {
+      const k = reserveIn * reserveOut;
+      for (let i = 0; i < FEE_POLICY_ITERATIONS; i++) {
+        const feeRate = this.getFeeRate(tokenIn, reserveIn + amountIn, k / (reserveIn + amountIn));
+        const next = numerator / (newReserveOut * (1 - feeRate));
+        const converged = Math.abs(next - amountIn) <= amountIn * 1e-12;
+        amountIn = next;
+        if (converged) break;
+      }
+    }
 
-    return numerator / denominator;
+    return amountIn;
   }
 
   calculateOptimalSwapAmount(
@@ -285,31 +507,196 @@ export class LiquidityPool {
     this.fee = fee;
   }
 
+  // Time-weighted prices of token A in token B over the last windowSeconds,
+  // read from the cumulative price oracle
+  consult(windowSeconds: number): OracleConsultation {
+    return this.oracle.consult(windowSeconds, this.clock.now());
+  }
+
+  canConsult(windowSeconds: number): boolean {
+    return this.oracle.canConsult(windowSeconds, this.clock.now());
+  }
+
+  getOracle(): PriceOracle {
+    return this.oracle;
+  }
+
+  private updateOracle(): void {
+    this.oracle.update(this.tokenAReserve, this.tokenBReserve, this.lastUpdate);
+  }
+
+  // Replaces the static fee for swaps while set; pass null to go back to it
+  setFeePolicy(policy: PoolFeePolicy | null): void {
+    this.feePolicy = policy;
+  }
+
+  getFeePolicy(): PoolFeePolicy | null {
+    return this.feePolicy;
+  }
+
+  // Fee rate charged for a swap that would move the reserves to the given
+  // levels before fees
+  private getFeeRate(tokenIn: 'A' | 'B', newReserveIn: number, newReserveOut: number): number {
+    if (!this.feePolicy) return this.fee;
+
+    const fee = this.feePolicy.getFee({
+      tokenIn,
+      tokenAReserve: this.tokenAReserve,
+      tokenBReserve: this.tokenBReserve,
+      priceBefore: this.getPrice(),
+      priceAfter: tokenIn === 'A' ? newReserveOut / newReserveIn : newReserveIn / newReserveOut,
+      timestamp: this.clock.now(),
+    });
+    if (!(fee >= 0 && fee < 1)) {
+      throw new Error(`Fee policy returned invalid fee ${fee}`);
+    }
+    return fee;
+  }
+
+  private getReserves(tokenIn: 'A' | 'B'): [number, number] {
+    return tokenIn === 'A'
+      ? [this.tokenAReserve, this.tokenBReserve]
+      : [this.tokenBReserve, this.tokenAReserve];
+  }
+
+  setProtocolFee(share: number, recipient: string = this.feeRecipient): void {
+    if (share < 0 || share > 1) {
+      throw new Error('Protocol fee share must be between 0 and 1');
+    }
+    this.protocolFeeShare = share;
+    this.feeRecipient = recipient;
+  }
+
+  getProtocolFees(): { tokenA: number; tokenB: number } {
+    return { tokenA: this.protocolFeesA, tokenB: this.protocolFeesB };
+  }
+
+  // Pays out the accrued protocol fees to the fee recipient
+  claimProtocolFees(): ProtocolFeeClaim {
+    const claim: ProtocolFeeClaim = {
+      recipient: this.feeRecipient,
+      tokenA: this.protocolFeesA,
+      tokenB: this.protocolFeesB,
+      timestamp: this.clock.now(),
+    };
+
+    this.protocolFeesA = 0;
+    this.protocolFeesB = 0;
+    this.events.emit('protocol-fees-claimed', claim);
+    return claim;
+  }
+
+  // Independent copy for dry runs; positions, fee accounting and the fee
+  // policy included
+  clone(): LiquidityPool {
+    const copy = new LiquidityPool(this.fee, this.clock);
+    copy.restoreSnapshot(this.createSnapshot());
+    copy.setFeePolicy(this.feePolicy);
+    return copy;
+  }
+
+  createSnapshot(): LiquidityPoolSnapshot {
+    return {
+      kind: 'liquidity-pool',
+      version: SNAPSHOT_VERSIONS['liquidity-pool'],
+      fee: this.fee,
+      tokenAReserve: this.tokenAReserve,
+      tokenBReserve: this.tokenBReserve,
+      lpTokenSupply: this.lpTokenSupply,
+      feeGrowthPerLpA: this.feeGrowthPerLpA,
+      feeGrowthPerLpB: this.feeGrowthPerLpB,
+      feesCollectedA: this.feesCollectedA,
+      feesCollectedB: this.feesCollectedB,
+      protocolFeesA: this.protocolFeesA,
+      protocolFeesB: this.protocolFeesB,
+      protocolFeeShare: this.protocolFeeShare,
+      feeRecipient: this.feeRecipient,
+      oracle: this.oracle.createSnapshot(),
+      lastUpdate: this.lastUpdate,
+      positions: Array.from(this.positions, ([owner, position]) => ({ owner, ...position })),
+    };
+  }
+
+  restoreSnapshot(snapshot: LiquidityPoolSnapshot): void {
+    const migrated = migrateSnapshot<LiquidityPoolSnapshot>('liquidity-pool', snapshot);
+    assertValidSnapshot('liquidity-pool', validateLiquidityPoolSnapshot(migrated));
+
+    this.fee = migrated.fee;
+    this.tokenAReserve = migrated.tokenAReserve;
+    this.tokenBReserve = migrated.tokenBReserve;
+    this.lpTokenSupply = migrated.lpTokenSupply;
+    this.feeGrowthPerLpA = migrated.feeGrowthPerLpA;
+    this.feeGrowthPerLpB = migrated.feeGrowthPerLpB;
+    this.feesCollectedA = migrated.feesCollectedA;
+    this.feesCollectedB = migrated.feesCollectedB;
+    this.protocolFeesA = migrated.protocolFeesA;
+    this.protocolFeesB = migrated.protocolFeesB;
+    this.protocolFeeShare = migrated.protocolFeeShare;
+    this.feeRecipient = migrated.feeRecipient;
+    this.lastUpdate = migrated.lastUpdate;
+    if (migrated.oracle) {
+      this.oracle.restoreSnapshot(migrated.oracle);
+    } else {
+      // Snapshots from before the oracle start its history at the restore
+      this.oracle.reset();
+      if (this.lpTokenSupply > 0) {
+        this.updateOracle();
+      }
+    }
+    this.positions = new Map(
+      migrated.positions.map(({ owner, ...position }) => [owner, { ...position }])
+    );
+  }
+
   reset(): void {
     this.tokenAReserve = 0;
     this.tokenBReserve = 0;
     this.lpTokenSupply = 0;
-    this.lastUpdate = Date.now();
+    this.lastUpdate = this.clock.now();
+    this.positions.clear();
+    this.feeGrowthPerLpA = 0;
+    this.feeGrowthPerLpB = 0;
+    this.feesCollectedA = 0;
+    this.feesCollectedB = 0;
+    this.protocolFeesA = 0;
+    this.protocolFeesB = 0;
+    this.oracle.reset();
   }
 }
 
-export function calculateK(reserveA: number, reserveB: number): number {
-  return reserveA * reserveB;
+export function calculateK(reserveA: number, reserveB: number): number;
+export function calculateK(reserveA: bigint, reserveB: bigint): bigint;
+export function calculateK(reserveA: PoolAmount, reserveB: PoolAmount): PoolAmount {
+  if (typeof reserveA === 'bigint' && typeof reserveB === 'bigint') {
+    return reserveA * reserveB;
+  }
+  return Number(reserveA) * Number(reserveB);
 }
 
 export function calculatePriceFromReserves(reserveA: number, reserveB: number): number {
   return reserveA > 0 ? reserveB / reserveA : 0;
 }
 
+// With bigint inputs the output is the contract's floored integer amount, so
+// small swaps against shallow reserves show their rounding loss.
+export function estimateSlippage(amountIn: number, reserveIn: number, reserveOut: number, fee?: number): number;
+export function estimateSlippage(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, fee?: number): number;
 export function estimateSlippage(
-  amountIn: number,
-  reserveIn: number,
-  reserveOut: number,
+  amountIn: PoolAmount,
+  reserveIn: PoolAmount,
+  reserveOut: PoolAmount,
   fee: number = 0.003
 ): number {
-  const amountInAfterFee = amountIn * (1 - fee);
-  const amountOut = (reserveOut * amountInAfterFee) / (reserveIn + amountInAfterFee);
-  const spotPrice = reserveOut / reserveIn;
-  const executionPrice = amountOut / amountIn;
+  let amountOut: number;
+  if (typeof amountIn === 'bigint' && typeof reserveIn === 'bigint' && typeof reserveOut === 'bigint') {
+    const feeNumerator = Math.round((1 - fee) * SLIPPAGE_FEE_SCALE);
+    amountOut = Number(calculateAmountOut(amountIn, reserveIn, reserveOut, feeNumerator, SLIPPAGE_FEE_SCALE));
+  } else {
+    const amountInAfterFee = Number(amountIn) * (1 - fee);
+    amountOut = (Number(reserveOut) * amountInAfterFee) / (Number(reserveIn) + amountInAfterFee);
+  }
+
+  const spotPrice = Number(reserveOut) / Number(reserveIn);
+  const executionPrice = amountOut / Number(amountIn);
   return Math.abs(executionPrice - spotPrice) / spotPrice;
 }
@@ -1,62 +1,128 @@
 import type {
   MarketMakerConfig,
+  DeepPartial,
   MarketData,
+  OrderBook,
   Quote,
+  QuoteLadder,
   Trade,
   Order,
+  OrderPurpose,
   MMStats,
   Position,
+  QuoteModel,
+  ExecutionVenue,
+  ExecutionReport,
+  AmmPool,
+  RiskBreach,
+  RiskState,
+  OrderUpdateResult,
+  MarketMakerSnapshot,
+  InventorySnapshot,
+  LiquidityPoolSnapshot,
+  Clock,
+  IdGenerator,
+  EventListener,
+  MarketMakerEvents,
+  VolatilityEstimator,
+  SwapResult,
+  OrderRejectReason,
+  OrderHeadroomLimit,
+  PreTradeCheck,
+  PreTradeRejection,
 } from './types';
 import { SpreadCalculator } from './spread';
+import { AvellanedaStoikovModel } from './avellanedaStoikov';
+import { buildQuoteLadder } from './ladder';
+import { OrderBookQuoter } from './orderBook';
+import { PnLLedger } from './ledger';
+import { RiskManager } from './riskManager';
 import { InventoryController } from './inventory';
 import { LiquidityPool } from './liquidityPool';
-
-const DEFAULT_CONFIG: MarketMakerConfig = {
-  spread: {
-    baseSpread: 0.002,
-    minSpread: 0.0005,
-    maxSpread: 0.02,
-    volatilityMultiplier: 2.0,
-    inventorySkewMultiplier: 0.5,
-  },
-  inventory: {
-    targetInventory: 0,
-    maxInventory: 1000,
-    minInventory: -1000,
-    rebalanceThreshold: 0.3,
-    skewSensitivity: 1.5,
-  },
-  orderSize: 100,
-  maxOrderSize: 500,
-  minOrderSize: 10,
-  priceTickSize: 0.0001,
-  sizeTickSize: 0.01,
-  updateIntervalMs: 1000,
-};
+import { SystemClock } from './clock';
+import { MonotonicIdGenerator } from './ids';
+import { EventBus } from './events';
+import {
+  SNAPSHOT_VERSIONS,
+  assertValidSnapshot,
+  migrateSnapshot,
+  validateMarketMakerSnapshot,
+} from './snapshot';
+import { DEFAULT_PRE_TRADE_CHECKS, crosses, runPreTradeChecks } from './preTrade';
+import {
+  assertValidConfig,
+  createMarketMakerConfig,
+  mergeConfig,
+  restoreUnboundedLimits,
+  validateMarketMakerConfig,
+} from './config';
 
 export class MarketMaker {
   private config: MarketMakerConfig;
   private spreadCalculator: SpreadCalculator;
+  private quoteModel: QuoteModel;
+  private orderBookQuoter: OrderBookQuoter;
   private inventoryController: InventoryController;
-  private liquidityPool: LiquidityPool;
+  private liquidityPool: AmmPool;
   private activeOrders: Map<string, Order> = new Map();
+  private executionVenue: ExecutionVenue | null = null;
   private tradeHistory: Trade[] = [];
   private isRunning: boolean = false;
   private startTime: number = 0;
   private totalVolume: number = 0;
-  private realizedPnL: number = 0;
-
-  constructor(config: Partial<MarketMakerConfig> = {}) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+  private ledger: PnLLedger;
+  private riskManager: RiskManager;
+  private clock: Clock;
+  private ids: IdGenerator;
+  private events: EventBus<MarketMakerEvents> = new EventBus();
+  private poolSubscriptions: (() => void)[] = [];
+  private reportedBreach: RiskBreach | null = null;
+  private volatilityEstimator: VolatilityEstimator | null = null;
+  private preTradeChecks: PreTradeCheck[] = [...DEFAULT_PRE_TRADE_CHECKS];
+  private headroomLimit: OrderHeadroomLimit | null = null;
+  private referencePrice: number | null = null;
+
+  constructor(
+    config: DeepPartial<MarketMakerConfig> = {},
+    clock: Clock = new SystemClock(),
+    ids: IdGenerator = new MonotonicIdGenerator()
+  ) {
+    this.config = createMarketMakerConfig(config);
+    this.clock = clock;
+    this.ids = ids;
     this.spreadCalculator = new SpreadCalculator(this.config.spread);
-    this.inventoryController = new InventoryController(this.config.inventory);
-    this.liquidityPool = new LiquidityPool();
+    this.quoteModel = this.createQuoteModel();
+    this.orderBookQuoter = new OrderBookQuoter(this.config.orderBook);
+    this.inventoryController = new InventoryController(this.config.inventory, clock);
+    this.ledger = new PnLLedger(this.config.accountingMethod);
+    this.riskManager = new RiskManager(this.config.risk, clock);
+    this.liquidityPool = new LiquidityPool(undefined, clock);
+    this.inventoryController.on('inventory-limit', event => this.events.emit('inventory-limit', event));
+    this.attachPoolEvents();
+  }
+
+  on<K extends keyof MarketMakerEvents>(type: K, listener: EventListener<MarketMakerEvents[K]>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  private attachPoolEvents(): void {
+    this.poolSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.poolSubscriptions = [];
+
+    const pool = this.liquidityPool;
+    if (pool instanceof LiquidityPool) {
+      this.poolSubscriptions.push(
+        pool.on('swap', event => this.events.emit('swap', event)),
+        pool.on('liquidity-changed', event => this.events.emit('liquidity-changed', event)),
+        pool.on('protocol-fees-claimed', event => this.events.emit('protocol-fees-claimed', event))
+      );
+    }
   }
 
   start(): void {
     if (this.isRunning) return;
     this.isRunning = true;
-    this.startTime = Date.now();
+    this.startTime = this.clock.now();
   }
 
   stop(): void {
@@ -64,52 +130,432 @@ export class MarketMaker {
     this.cancelAllOrders();
   }
 
-  generateQuotes(marketData: MarketData): Quote {
+  generateQuotes(inputMarketData: MarketData, orderBook?: OrderBook): Quote {
+    const marketData = this.volatilityEstimator && this.volatilityEstimator.isReady()
+      ? { ...inputMarketData, volatility: this.volatilityEstimator.getVolatility() }
+      : inputMarketData;
     const inventoryState = this.inventoryController.getState();
-    const midPrice = (marketData.bidPrice + marketData.askPrice) / 2;
+    const oracleMode = this.config.oracle.mode;
+    const oraclePrice = oracleMode === 'off' ? null : this.getOraclePrice();
+    const marketMid = (marketData.bidPrice + marketData.askPrice) / 2;
+    this.referencePrice = marketMid;
+    const midPrice = oracleMode === 'reference' && oraclePrice !== null
+      ? oraclePrice
+      : orderBook ? this.orderBookQuoter.calculateFairValue(orderBook) : marketMid;
+
+    this.checkRisk(this.riskManager.checkMarketData(marketData));
+    if (oracleMode === 'band' && oraclePrice !== null) {
+      this.checkRisk(this.riskManager.checkReferencePrice(marketMid, oraclePrice));
+    }
+    this.evaluateRisk(midPrice);
 
-    return this.spreadCalculator.generateQuote(
+    const modelQuote = this.quoteModel.generateQuote(
       midPrice,
       marketData,
       inventoryState,
-      this.config.orderSize
+      this.config.orderSize,
+      this.config.priceTickSize
     );
+    const quote = orderBook
+      ? this.orderBookQuoter.placeQuote(modelQuote, orderBook, this.config.priceTickSize)
+      : modelQuote;
+
+    const result = {
+      ...quote,
+      ladder: buildQuoteLadder(quote, inventoryState, this.config.ladder, this.config.priceTickSize),
+    };
+
+    this.events.emit('quote-generated', {
+      quote: result,
+      marketData,
+      orderBook: orderBook ?? null,
+      inventory: inventoryState,
+      fairValue: midPrice,
+      timestamp: this.clock.now(),
+    });
+    return result;
+  }
+
+  private createQuoteModel(): QuoteModel {
+    switch (this.config.quoteModel) {
+      case 'avellaneda-stoikov':
+        return new AvellanedaStoikovModel(this.config.avellanedaStoikov, this.clock);
+      case 'spread':
+      default:
+        return this.spreadCalculator;
+    }
+  }
+
+  // Pool TWAP over the configured oracle window; null until the pool has
+  // that much history or when the pool is not constant-product
+  getOraclePrice(): number | null {
+    const pool = this.liquidityPool;
+    const { windowSeconds, priceType } = this.config.oracle;
+    if (!(pool instanceof LiquidityPool) || !pool.canConsult(windowSeconds)) return null;
+
+    const consultation = pool.consult(windowSeconds);
+    return priceType === 'geometric' ? consultation.geometricMeanPrice : consultation.twap;
+  }
+
+  // Overrides MarketData.volatility for the quote model and risk checks once
+  // the estimator is ready, so it should report daily volatility (the
+  // estimators' default horizon). The caller keeps feeding it prices.
+  setVolatilityEstimator(estimator: VolatilityEstimator | null): void {
+    this.volatilityEstimator = estimator;
+  }
+
+  getVolatilityEstimator(): VolatilityEstimator | null {
+    return this.volatilityEstimator;
+  }
+
+  setQuoteModel(model: QuoteModel): void {
+    this.quoteModel = model;
+  }
+
+  getQuoteModel(): QuoteModel {
+    return this.quoteModel;
   }
 
-  placeOrders(quote: Quote): { bidOrder: Order; askOrder: Order } {
-    const bidOrder = this.createOrder('buy', quote.bidPrice, quote.bidSize);
-    const askOrder = this.createOrder('sell', quote.askPrice, quote.askSize);
+  // Run in order on every order before submission; the first failure rejects it
+  setPreTradeChecks(checks: PreTradeCheck[]): void {
+    this.preTradeChecks = [...checks];
+  }
+
+  getPreTradeChecks(): PreTradeCheck[] {
+    return [...this.preTradeChecks];
+  }
 
-    this.activeOrders.set(bidOrder.id, bidOrder);
-    this.activeOrders.set(askOrder.id, askOrder);
+  // Clips every order, quote levels included, to the limit's headroom as well
+  // as the maker's own; pass null to remove it
+  setHeadroomLimit(limit: OrderHeadroomLimit | null): void {
+    this.headroomLimit = limit;
+  }
 
-    return { bidOrder, askOrder };
+  getHeadroomLimit(): OrderHeadroomLimit | null {
+    return this.headroomLimit;
   }
 
-  private createOrder(side: 'buy' | 'sell', price: number, size: number): Order {
+  placeOrders(quote: Quote): {
+    bidOrders: Order[];
+    askOrders: Order[];
+    rejectedOrders: Order[];
+  } {
+    const haltReason = this.riskManager.getHaltReason();
+    if (haltReason) {
+      throw new Error(`Market maker halted: ${haltReason.message}`);
+    }
+
+    this.cancelQuoteOrders();
+
+    const ladder = this.getLadder(quote);
+    const bidOrders: Order[] = [];
+    const askOrders: Order[] = [];
+    const rejectedOrders: Order[] = [];
+    const levels = Math.max(ladder.bids.length, ladder.asks.length);
+
+    for (let i = 0; i < levels; i++) {
+      const bidLevel = ladder.bids[i];
+      const askLevel = ladder.asks[i];
+
+      if (bidLevel) {
+        const order = this.createOrder('buy', bidLevel.price, bidLevel.size, bidLevel.level);
+        if (order.status === 'rejected') {
+          rejectedOrders.push(order);
+        } else if (this.submitOrder(order)) {
+          bidOrders.push(order);
+        } else {
+          rejectedOrders.push(order);
+          if (this.riskManager.isHalted()) break;
+        }
+      }
+      if (askLevel) {
+        const order = this.createOrder('sell', askLevel.price, askLevel.size, askLevel.level);
+        if (order.status === 'rejected') {
+          rejectedOrders.push(order);
+        } else if (this.submitOrder(order)) {
+          askOrders.push(order);
+        } else {
+          rejectedOrders.push(order);
+          if (this.riskManager.isHalted()) break;
+        }
+      }
+    }
+
+    return { bidOrders, askOrders, rejectedOrders };
+  }
+
+  updateQuotes(quote: Quote, priceTolerance: number = 0, sizeTolerance: number = 0): OrderUpdateResult {
+    const haltReason = this.riskManager.getHaltReason();
+    if (haltReason) {
+      throw new Error(`Market maker halted: ${haltReason.message}`);
+    }
+
+    const ladder = this.getLadder(quote);
+    const result: OrderUpdateResult = { placed: [], replaced: [], cancelled: [], unchanged: [], rejected: [] };
+
+    // Pull orders whose level is gone first so their size is free for the rest
+    const resting = new Map<string, Order>();
+    for (const order of this.getQuoteOrders()) {
+      const key = `${order.side}:${order.level ?? 0}`;
+      const levels = order.side === 'buy' ? ladder.bids : ladder.asks;
+      if (resting.has(key) || !levels.some(level => level.level === (order.level ?? 0))) {
+        this.cancelOrder(order.id);
+        result.cancelled.push(order);
+      } else {
+        resting.set(key, order);
+      }
+    }
+
+    // Move the side retreating from the new mid first so a replaced order
+    // never crosses our own stale quote on the other side.
+    const bestBid = Math.max(...this.getQuoteOrders('buy').map(order => order.price));
+    const bestAsk = Math.min(...this.getQuoteOrders('sell').map(order => order.price));
+    const asksFirst = isFinite(bestBid) && isFinite(bestAsk) && ladder.midPrice > (bestBid + bestAsk) / 2;
+    const bids = ladder.bids.map(level => ({ side: 'buy' as const, ...level }));
+    const asks = ladder.asks.map(level => ({ side: 'sell' as const, ...level }));
+    const targets = asksFirst ? [...asks, ...bids] : [...bids, ...asks];
+
+    for (const target of targets) {
+      const existing = resting.get(`${target.side}:${target.level}`);
+      const order = this.createOrder(target.side, target.price, target.size, target.level, 'quote', existing);
+
+      // A level that fails the checks is not left quoting at its old price
+      if (order.status === 'rejected') {
+        if (existing) {
+          this.cancelOrder(existing.id);
+          result.cancelled.push(existing);
+        }
+        result.rejected.push(order);
+        continue;
+      }
+
+      if (existing) {
+        const openSize = existing.size - existing.filledSize;
+        const priceWithin = Math.abs(order.price - existing.price) <= priceTolerance * existing.price;
+        const sizeWithin = Math.abs(order.size - openSize) <= sizeTolerance * openSize;
+        if (priceWithin && sizeWithin) {
+          result.unchanged.push(existing);
+          continue;
+        }
+
+        if (this.checkRisk(this.riskManager.checkOrderRate())) break;
+        if (this.replaceOrder(existing.id, order.price, existing.filledSize + order.size)) {
+          result.replaced.push(existing);
+          continue;
+        }
+
+        this.cancelOrder(existing.id);
+        result.cancelled.push(existing);
+      }
+
+      if (!this.submitOrder(order)) {
+        result.rejected.push(order);
+        if (this.riskManager.isHalted()) break;
+        continue;
+      }
+      result.placed.push(order);
+    }
+
+    return result;
+  }
+
+  // Places a single order outside the quote ladder, such as a child of an
+  // execution algorithm. Quote updates leave these orders alone. The size is
+  // clipped to the available headroom but not raised to minOrderSize; check
+  // the returned order's status for a rejection.
+  placeOrder(
+    side: 'buy' | 'sell',
+    price: number,
+    size: number,
+    parentId?: string,
+    purpose: OrderPurpose = 'manual'
+  ): Order {
+    const order = this.prepareOrder(side, price, size, 0, purpose, undefined, parentId);
+    if (order.status !== 'rejected') {
+      this.submitOrder(order);
+    }
+    return order;
+  }
+
+  // Runs placeOrder's checks without placing or emitting anything. An order
+  // the headroom would clip comes back as an inventory-headroom rejection.
+  checkOrder(
+    side: 'buy' | 'sell',
+    price: number,
+    size: number,
+    purpose: OrderPurpose = 'manual'
+  ): PreTradeRejection | null {
+    const haltReason = this.riskManager.getHaltReason();
+    if (haltReason) {
+      return { code: 'risk-limit', message: haltReason.message };
+    }
+
+    const headroom = this.getHeadroom(side, price);
+    if (size > headroom) {
+      return {
+        code: 'inventory-headroom',
+        message: `Only ${headroom} of ${size} ${side} fits within inventory and exposure limits`,
+      };
+    }
+
+    const now = this.clock.now();
+    const order: Order = {
+      id: '',
+      side,
+      price,
+      size: this.roundToTick(size, this.config.sizeTickSize),
+      filledSize: 0,
+      status: 'pending',
+      level: 0,
+      purpose,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return this.getPreTradeRejection(order, headroom);
+  }
+
+  private getLadder(quote: Quote): QuoteLadder {
+    return quote.ladder ?? {
+      bids: [{ level: 0, price: quote.bidPrice, size: quote.bidSize }],
+      asks: [{ level: 0, price: quote.askPrice, size: quote.askSize }],
+      midPrice: quote.midPrice,
+    };
+  }
+
+  private submitOrder(order: Order): boolean {
+    const breach = this.riskManager.checkOrderRate();
+    if (this.checkRisk(breach)) {
+      this.rejectOrder(order, 'risk-limit', breach ? breach.message : 'Risk halt', this.clock.now());
+      return false;
+    }
+
+    this.activeOrders.set(order.id, order);
+    this.events.emit('order-placed', { order: { ...order }, timestamp: order.createdAt });
+    if (this.executionVenue) {
+      // A venue that rejects synchronously has already reported it
+      this.executionVenue.submitOrder(order);
+      if (order.status === 'rejected') return false;
+    }
+    return true;
+  }
+
+  private createOrder(
+    side: 'buy' | 'sell',
+    price: number,
+    size: number,
+    level: number = 0,
+    purpose: OrderPurpose = 'quote',
+    replacing?: Order
+  ): Order {
     const adjustedSize = Math.max(
       this.config.minOrderSize,
       Math.min(this.config.maxOrderSize, size)
     );
+    return this.prepareOrder(side, price, adjustedSize, level, purpose, replacing);
+  }
+
+  // Clips the size to what the inventory and exposure limits leave, then runs
+  // the pre-trade checks. A failing order comes back rejected, with the
+  // rejection already emitted, and must not be submitted.
+  private prepareOrder(
+    side: 'buy' | 'sell',
+    price: number,
+    size: number,
+    level: number,
+    purpose: OrderPurpose,
+    replacing?: Order,
+    parentId?: string
+  ): Order {
+    const headroom = this.getHeadroom(side, price, replacing);
+    const order = this.createOrderObject(side, price, Math.min(size, headroom), level, purpose);
+    if (parentId) {
+      order.parentId = parentId;
+    }
+
+    const rejection = this.getPreTradeRejection(order, headroom);
+    if (rejection) {
+      this.rejectOrder(order, rejection.code, rejection.message, order.createdAt);
+      return order;
+    }
 
-    if (!this.inventoryController.shouldAcceptOrder(side, adjustedSize)) {
-      const maxSize = this.inventoryController.getMaxOrderSize(side);
-      return this.createOrderObject(side, price, Math.min(adjustedSize, maxSize));
+    // Only float noise is left at this point; off-tick prices were rejected
+    order.price = this.roundToTick(order.price, this.config.priceTickSize);
+    if (this.pullsCrossingQuotes(order)) {
+      this.getQuoteOrders(order.side === 'buy' ? 'sell' : 'buy')
+        .filter(resting => crosses(order, resting))
+        .forEach(resting => this.cancelOrder(resting.id));
     }
+    return order;
+  }
+
+  private getHeadroom(side: 'buy' | 'sell', price: number, replacing?: Order): number {
+    const openSize = this.getOpenSize(side) - (replacing ? replacing.size - replacing.filledSize : 0);
+    return Math.min(
+      Math.max(0, this.inventoryController.getMaxOrderSize(side) - openSize),
+      this.riskManager.getMaxOrderSize(side, this.ledger.getNetPosition(), openSize, price),
+      this.headroomLimit ? Math.max(0, this.headroomLimit(side, price, replacing)) : Infinity
+    );
+  }
+
+  private getPreTradeRejection(order: Order, headroom: number): PreTradeRejection | null {
+    // Quotes crossed by such an order are pulled once it passes, so they
+    // cannot count as a self-trade
+    const restingOrders = this.getActiveOrders()
+      .filter(resting => !this.pullsCrossingQuotes(order) || resting.purpose !== 'quote');
+
+    return runPreTradeChecks(order, {
+      minOrderSize: this.config.minOrderSize,
+      priceTickSize: this.config.priceTickSize,
+      headroom,
+      referencePrice: this.referencePrice,
+      config: this.config.preTrade,
+      restingOrders,
+    }, this.preTradeChecks);
+  }
 
-    return this.createOrderObject(side, price, adjustedSize);
+  // Rebalances and hedges have to trade, so they cancel our own quotes in
+  // their way instead of being rejected as self-trades
+  private pullsCrossingQuotes(order: Order): boolean {
+    return this.config.preTrade.selfTradePrevention
+      && (order.purpose === 'rebalance' || order.purpose === 'hedge');
+  }
+
+  private rejectOrder(order: Order, code: OrderRejectReason, reason: string, timestamp: number): void {
+    order.status = 'rejected';
+    order.rejectReason = code;
+    order.updatedAt = timestamp;
+    this.events.emit('order-rejected', { order: { ...order }, code, reason, timestamp });
+  }
+
+  private getOpenSize(side: 'buy' | 'sell'): number {
+    let openSize = 0;
+    for (const order of this.activeOrders.values()) {
+      if (order.side === side) {
+        openSize += order.size - order.filledSize;
+      }
+    }
+    return openSize;
   }
 
-  private createOrderObject(side: 'buy' | 'sell', price: number, size: number): Order {
+  private createOrderObject(
+    side: 'buy' | 'sell',
+    price: number,
+    size: number,
+    level: number,
+    purpose: OrderPurpose
+  ): Order {
+    const now = this.clock.now();
     return {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: this.ids.next('order'),
       side,
-      price: this.roundToTick(price, this.config.priceTickSize),
+      price,
       size: this.roundToTick(size, this.config.sizeTickSize),
       filledSize: 0,
       status: 'pending',
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
+      level,
+      purpose,
+      createdAt: now,
+      updatedAt: now,
     };
   }
 
@@ -118,7 +564,7 @@ export class MarketMaker {
     if (!order) return null;
 
     order.filledSize += filledSize;
-    order.updatedAt = Date.now();
+    order.updatedAt = this.clock.now();
 
     if (order.filledSize >= order.size) {
       order.status = 'filled';
@@ -128,51 +574,67 @@ export class MarketMaker {
     }
 
     const trade: Trade = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: this.ids.next('trade'),
       side: order.side,
       price: fillPrice,
       size: filledSize,
-      timestamp: Date.now(),
-      fee: filledSize * fillPrice * 0.001,
+      timestamp: this.clock.now(),
+      fee: filledSize * fillPrice * this.config.feeRate,
     };
 
     this.inventoryController.updateInventory(trade);
     this.tradeHistory.push(trade);
     this.totalVolume += filledSize * fillPrice;
-    this.updateRealizedPnL(trade);
+    this.ledger.recordFill(trade);
+    this.events.emit('fill', { order: { ...order }, trade: { ...trade }, timestamp: trade.timestamp });
+    this.evaluateRisk(fillPrice);
 
     return trade;
   }
 
-  private updateRealizedPnL(trade: Trade): void {
-    const position = this.inventoryController.calculatePosition(trade.price);
+  private evaluateRisk(markPrice: number): void {
+    this.checkRisk(this.riskManager.evaluate({
+      realizedPnL: this.ledger.getRealizedPnL(),
+      unrealizedPnL: this.ledger.getUnrealizedPnL(markPrice),
+      inventory: this.ledger.getNetPosition(),
+      markPrice,
+      timestamp: this.clock.now(),
+    }));
+  }
 
-    if (
-      (trade.side === 'sell' && position.baseBalance >= 0) ||
-      (trade.side === 'buy' && position.baseBalance <= 0)
-    ) {
-      const pnl = trade.side === 'sell'
-        ? (trade.price - this.getAvgEntryPrice()) * trade.size
-        : (this.getAvgEntryPrice() - trade.price) * trade.size;
+  private checkRisk(breach: RiskBreach | null): boolean {
+    if (!breach) return false;
+
+    if (breach !== this.reportedBreach) {
+      this.reportedBreach = breach;
+      this.events.emit('risk-halt', { breach: { ...breach }, timestamp: this.clock.now() });
+    }
 
-      this.realizedPnL += pnl - trade.fee;
+    if (this.activeOrders.size > 0) {
+      this.cancelAllOrders();
     }
+    return true;
   }
 
-  private getAvgEntryPrice(): number {
-    if (this.tradeHistory.length === 0) return 0;
+  isHalted(): boolean {
+    return this.riskManager.isHalted();
+  }
 
-    let totalCost = 0;
-    let totalSize = 0;
+  getHaltReason(): RiskBreach | null {
+    return this.riskManager.getHaltReason();
+  }
 
-    for (const trade of this.tradeHistory) {
-      if (trade.side === 'buy') {
-        totalCost += trade.price * trade.size;
-        totalSize += trade.size;
-      }
-    }
+  getRiskState(): RiskState {
+    return this.riskManager.getState();
+  }
 
-    return totalSize > 0 ? totalCost / totalSize : 0;
+  resetHalt(): void {
+    const breach = this.riskManager.getHaltReason();
+    this.riskManager.resetHalt();
+    this.reportedBreach = null;
+    if (breach) {
+      this.events.emit('risk-reset', { breach, timestamp: this.clock.now() });
+    }
   }
 
   cancelOrder(orderId: string): boolean {
@@ -180,8 +642,36 @@ export class MarketMaker {
     if (!order) return false;
 
     order.status = 'cancelled';
-    order.updatedAt = Date.now();
+    order.updatedAt = this.clock.now();
     this.activeOrders.delete(orderId);
+    this.events.emit('order-cancelled', { order: { ...order }, timestamp: order.updatedAt });
+    if (this.executionVenue) {
+      this.executionVenue.cancelOrder(orderId);
+    }
+    return true;
+  }
+
+  replaceOrder(orderId: string, price: number, size: number): boolean {
+    const order = this.activeOrders.get(orderId);
+    if (!order) return false;
+
+    const previousPrice = order.price;
+    const previousSize = order.size;
+    order.price = this.roundToTick(price, this.config.priceTickSize);
+    order.size = this.roundToTick(size, this.config.sizeTickSize);
+    order.updatedAt = this.clock.now();
+
+    if (this.executionVenue && !this.executionVenue.replaceOrder(orderId, order.price, order.size)) {
+      order.price = previousPrice;
+      order.size = previousSize;
+      return false;
+    }
+
+    if (order.filledSize >= order.size) {
+      order.status = 'filled';
+      this.activeOrders.delete(orderId);
+    }
+    this.events.emit('order-replaced', { order: { ...order }, timestamp: order.updatedAt });
     return true;
   }
 
@@ -191,15 +681,15 @@ export class MarketMaker {
     }
   }
 
+  private cancelQuoteOrders(): void {
+    this.getQuoteOrders().forEach(order => this.cancelOrder(order.id));
+  }
+
   getStats(): MMStats {
-    const position = this.inventoryController.calculatePosition(
-      this.tradeHistory.length > 0
-        ? this.tradeHistory[this.tradeHistory.length - 1].price
-        : 0
-    );
+    const position = this.getPosition();
 
     const tradeStats = this.inventoryController.getTradeStats();
-    const uptime = this.isRunning ? Date.now() - this.startTime : 0;
+    const uptime = this.isRunning ? this.clock.now() - this.startTime : 0;
 
     let avgSpread = 0;
     if (this.tradeHistory.length >= 2) {
@@ -217,7 +707,7 @@ export class MarketMaker {
     return {
       totalTrades: tradeStats.count,
       totalVolume: this.totalVolume,
-      realizedPnL: this.realizedPnL,
+      realizedPnL: this.ledger.getRealizedPnL(),
       unrealizedPnL: position.unrealizedPnL,
       avgSpread,
       inventoryTurnover: tradeStats.buyVolume + tradeStats.sellVolume,
@@ -225,15 +715,73 @@ export class MarketMaker {
     };
   }
 
-  getPosition(): Position {
+  getPosition(markPrice?: number): Position {
     const lastPrice = this.tradeHistory.length > 0
       ? this.tradeHistory[this.tradeHistory.length - 1].price
       : 0;
-    return this.inventoryController.calculatePosition(lastPrice);
+    return this.ledger.getPosition(markPrice ?? lastPrice);
+  }
+
+  getClock(): Clock {
+    return this.clock;
+  }
+
+  getIdGenerator(): IdGenerator {
+    return this.ids;
+  }
+
+  getLedger(): PnLLedger {
+    return this.ledger;
+  }
+
+  setExecutionVenue(venue: ExecutionVenue | null): void {
+    if (this.executionVenue) {
+      this.executionVenue.setReportListener(null);
+    }
+
+    this.executionVenue = venue;
+    if (venue) {
+      venue.setReportListener(report => this.handleExecutionReport(report));
+    }
+  }
+
+  getExecutionVenue(): ExecutionVenue | null {
+    return this.executionVenue;
+  }
+
+  private handleExecutionReport(report: ExecutionReport): void {
+    const order = this.activeOrders.get(report.orderId);
+    if (!order) return;
+
+    switch (report.type) {
+      case 'fill':
+        this.processFill(report.orderId, report.size, report.price);
+        break;
+      case 'cancel':
+        order.status = 'cancelled';
+        order.updatedAt = report.timestamp;
+        this.activeOrders.delete(report.orderId);
+        this.events.emit('order-cancelled', { order: { ...order }, timestamp: report.timestamp });
+        break;
+      case 'reject':
+        this.activeOrders.delete(report.orderId);
+        this.rejectOrder(order, 'venue-rejected', report.reason ?? 'Rejected by venue', report.timestamp);
+        break;
+      case 'ack':
+      case 'replace':
+        order.updatedAt = report.timestamp;
+        break;
+    }
   }
 
-  getActiveOrders(): Order[] {
-    return Array.from(this.activeOrders.values());
+  getActiveOrders(side?: 'buy' | 'sell'): Order[] {
+    return Array.from(this.activeOrders.values())
+      .filter(order => !side || order.side === side)
+      .sort((a, b) => (a.level ?? 0) - (b.level ?? 0));
+  }
+
+  private getQuoteOrders(side?: 'buy' | 'sell'): Order[] {
+    return this.getActiveOrders(side).filter(order => order.purpose === 'quote');
   }
 
   getInventoryState() {
@@ -244,34 +792,97 @@ export class MarketMaker {
     return this.inventoryController.needsRebalancing();
   }
 
+  getRebalanceAmount(): number {
+    return this.inventoryController.getRebalanceAmount();
+  }
+
   executeRebalance(marketData: MarketData): Trade | null {
     if (!this.needsRebalancing()) return null;
 
-    const rebalanceAmount = this.inventoryController.getRebalanceAmount();
+    const rebalanceAmount = this.getRebalanceAmount();
     const side = rebalanceAmount > 0 ? 'buy' : 'sell';
     const size = Math.abs(rebalanceAmount);
     const price = side === 'buy' ? marketData.askPrice : marketData.bidPrice;
+    this.referencePrice = (marketData.bidPrice + marketData.askPrice) / 2;
+
+    this.events.emit('rebalance-triggered', {
+      side,
+      size,
+      price,
+      inventory: this.inventoryController.getState().currentInventory,
+      targetInventory: this.inventoryController.getConfig().targetInventory,
+      timestamp: this.clock.now(),
+    });
+
+    // With a venue the fill arrives as an execution report
+    const order = this.createOrder(side, price, size, 0, 'rebalance');
+    if (order.status === 'rejected' || !this.submitOrder(order) || this.executionVenue) return null;
+    return this.processFill(order.id, order.size, order.price);
+  }
+
+  setLiquidityPool(pool: AmmPool): void {
+    this.liquidityPool = pool;
+    this.attachPoolEvents();
+  }
 
-    const order = this.createOrder(side, price, size);
-    return this.processFill(order.id, size, price);
+  getLiquidityPool(): AmmPool {
+    return this.liquidityPool;
+  }
+
+  private getConstantProductPool(): LiquidityPool {
+    if (!(this.liquidityPool instanceof LiquidityPool)) {
+      throw new Error('Liquidity pool does not support LP token operations');
+    }
+    return this.liquidityPool;
   }
 
-  initializeLiquidityPool(tokenA: number, tokenB: number) {
-    return this.liquidityPool.initialize(tokenA, tokenB);
+  initializeLiquidityPool(tokenA: number, tokenB: number, owner?: string) {
+    return this.getConstantProductPool().initialize(tokenA, tokenB, owner);
   }
 
-  addLiquidity(tokenA: number, tokenB: number) {
-    return this.liquidityPool.addLiquidity(tokenA, tokenB);
+  addLiquidity(tokenA: number, tokenB: number, owner?: string) {
+    return this.getConstantProductPool().addLiquidity(tokenA, tokenB, owner);
   }
 
-  removeLiquidity(lpTokens: number) {
-    return this.liquidityPool.removeLiquidity(lpTokens);
+  removeLiquidity(lpTokens: number, owner?: string) {
+    return this.getConstantProductPool().removeLiquidity(lpTokens, owner);
+  }
+
+  getLiquidityPositions() {
+    return this.getConstantProductPool().getPositions();
   }
 
   executeSwap(amountIn: number, tokenIn: 'A' | 'B', minAmountOut: number = 0) {
     return this.liquidityPool.executeSwap(amountIn, tokenIn, minAmountOut);
   }
 
+  // Swaps against the pool and books the token A leg as a trade, so the swap
+  // moves inventory and PnL like a venue fill. The pool fee is in the price.
+  executeInventorySwap(
+    amountIn: number,
+    tokenIn: 'A' | 'B',
+    minAmountOut: number = 0
+  ): { swap: SwapResult; trade: Trade } {
+    const swap = this.liquidityPool.executeSwap(amountIn, tokenIn, minAmountOut);
+    const size = tokenIn === 'B' ? swap.amountOut : swap.amountIn;
+    const quoteAmount = tokenIn === 'B' ? swap.amountIn : swap.amountOut;
+
+    const trade: Trade = {
+      id: this.ids.next('trade'),
+      side: tokenIn === 'B' ? 'buy' : 'sell',
+      price: quoteAmount / size,
+      size,
+      timestamp: this.clock.now(),
+      fee: 0,
+    };
+
+    this.inventoryController.updateInventory(trade);
+    this.tradeHistory.push(trade);
+    this.totalVolume += quoteAmount;
+    this.ledger.recordFill(trade);
+    return { swap, trade };
+  }
+
   getPoolState() {
     return this.liquidityPool.getState();
   }
@@ -280,14 +891,35 @@ export class MarketMaker {
     return Math.round(value / tickSize) * tickSize;
   }
 
-  updateConfig(config: Partial<MarketMakerConfig>): void {
-    this.config = { ...this.config, ...config };
+  // Deep-merges onto the current config; nothing is applied if the result is invalid
+  updateConfig(config: DeepPartial<MarketMakerConfig>): void {
+    const next = mergeConfig(this.config, config);
+    assertValidConfig(validateMarketMakerConfig(next));
+
+    if (config.accountingMethod) {
+      this.ledger.setMethod(config.accountingMethod);
+    }
+
+    const previous = this.config;
+    this.config = next;
 
     if (config.spread) {
-      this.spreadCalculator.updateConfig(config.spread);
+      this.spreadCalculator.updateConfig(next.spread);
     }
     if (config.inventory) {
-      this.inventoryController.updateConfig(config.inventory);
+      this.inventoryController.updateConfig(next.inventory);
+    }
+    if (config.risk) {
+      this.riskManager.updateConfig(next.risk);
+    }
+    if (config.orderBook) {
+      this.orderBookQuoter.updateConfig(next.orderBook);
+    }
+    if (
+      next.quoteModel !== previous.quoteModel ||
+      JSON.stringify(next.avellanedaStoikov) !== JSON.stringify(previous.avellanedaStoikov)
+    ) {
+      this.quoteModel = this.createQuoteModel();
     }
   }
 
@@ -295,6 +927,72 @@ export class MarketMaker {
     return { ...this.config };
   }
 
+  createSnapshot(): MarketMakerSnapshot {
+    return {
+      kind: 'market-maker',
+      version: SNAPSHOT_VERSIONS['market-maker'],
+      createdAt: this.clock.now(),
+      config: mergeConfig(this.config, {}),
+      running: this.isRunning,
+      startTime: this.startTime,
+      totalVolume: this.totalVolume,
+      activeOrders: Array.from(this.activeOrders.values(), order => ({ ...order })),
+      tradeHistory: this.tradeHistory.map(trade => ({ ...trade })),
+      quoteModelSessionStart: this.quoteModel instanceof AvellanedaStoikovModel
+        ? this.quoteModel.getSessionStart()
+        : null,
+      idSequence: this.ids.getSequence ? this.ids.getSequence() : null,
+      inventory: this.inventoryController.createSnapshot(),
+      ledger: this.ledger.createSnapshot(),
+      risk: this.riskManager.createSnapshot(),
+      pool: this.liquidityPool instanceof LiquidityPool ? this.liquidityPool.createSnapshot() : null,
+    };
+  }
+
+  // Resting orders are restored as they were; they are not resubmitted to the
+  // execution venue.
+  restoreSnapshot(snapshot: MarketMakerSnapshot): void {
+    const migrated = migrateSnapshot<MarketMakerSnapshot>('market-maker', snapshot);
+    const restored: MarketMakerSnapshot = {
+      ...migrated,
+      config: restoreUnboundedLimits(migrated.config),
+      inventory: migrateSnapshot<InventorySnapshot>('inventory', migrated.inventory),
+      pool: migrated.pool ? migrateSnapshot<LiquidityPoolSnapshot>('liquidity-pool', migrated.pool) : null,
+    };
+    assertValidSnapshot('market-maker', validateMarketMakerSnapshot(restored));
+
+    this.config = mergeConfig(restored.config, {});
+    this.spreadCalculator = new SpreadCalculator(this.config.spread);
+    this.quoteModel = this.createQuoteModel();
+    if (restored.quoteModelSessionStart !== null && this.quoteModel instanceof AvellanedaStoikovModel) {
+      this.quoteModel.resetSession(restored.quoteModelSessionStart);
+    }
+    this.orderBookQuoter = new OrderBookQuoter(this.config.orderBook);
+    this.inventoryController.restoreSnapshot(restored.inventory);
+    this.ledger.restoreSnapshot(restored.ledger);
+    this.riskManager = new RiskManager(this.config.risk, this.clock);
+    this.riskManager.restoreSnapshot(restored.risk);
+
+    if (restored.pool) {
+      const pool = this.liquidityPool instanceof LiquidityPool ? this.liquidityPool : new LiquidityPool(undefined, this.clock);
+      pool.restoreSnapshot(restored.pool);
+      this.liquidityPool = pool;
+      this.attachPoolEvents();
+    }
+
+    this.activeOrders = new Map(restored.activeOrders.map(order => [order.id, { ...order }]));
+    this.tradeHistory = restored.tradeHistory.map(trade => ({ ...trade }));
+    this.totalVolume = restored.totalVolume;
+    this.isRunning = restored.running;
+    this.startTime = restored.startTime;
+
+    // Never rewind: a generator shared with other makers may already be further along
+    const { ids } = this;
+    if (restored.idSequence !== null && ids.setSequence) {
+      ids.setSequence(Math.max(restored.idSequence, ids.getSequence ? ids.getSequence() : 0));
+    }
+  }
+
   isActive(): boolean {
     return this.isRunning;
   }
@@ -304,7 +1002,8 @@ export class MarketMaker {
     this.activeOrders.clear();
     this.tradeHistory = [];
     this.totalVolume = 0;
-    this.realizedPnL = 0;
+    this.ledger.reset();
+    this.riskManager.reset();
     this.startTime = 0;
     this.inventoryController.reset();
     this.liquidityPool.reset();
@@ -0,0 +1,350 @@
+import type {
+  Clock,
+  ExecutionReport,
+  ExecutionReportListener,
+  ExecutionVenue,
+  MatchingEngineFill,
+  Order,
+  OrderBook,
+  OrderBookEntry,
+} from './types';
+import { SystemClock } from './clock';
+
+interface RestingOrder {
+  id: string;
+  side: 'buy' | 'sell';
+  price: number;
+  size: number;
+  remaining: number;
+  sequence: number;
+  external: boolean;
+}
+
+export class MatchingEngine implements ExecutionVenue {
+  private bids: RestingOrder[] = [];
+  private asks: RestingOrder[] = [];
+  private orders: Map<string, RestingOrder> = new Map();
+  private fills: MatchingEngineFill[] = [];
+  private listener: ExecutionReportListener | null = null;
+  private sequence: number = 0;
+  private externalOrderCount: number = 0;
+  private clock: Clock;
+
+  constructor(clock: Clock = new SystemClock()) {
+    this.clock = clock;
+  }
+
+  setReportListener(listener: ExecutionReportListener | null): void {
+    this.listener = listener;
+  }
+
+  submitOrder(order: Order): void {
+    const size = order.size - order.filledSize;
+
+    if (this.orders.has(order.id)) {
+      this.report({
+        type: 'reject',
+        orderId: order.id,
+        side: order.side,
+        price: order.price,
+        size,
+        remainingSize: size,
+        reason: 'Duplicate order id',
+      });
+      return;
+    }
+    if (order.price <= 0 || size <= 0) {
+      this.report({
+        type: 'reject',
+        orderId: order.id,
+        side: order.side,
+        price: order.price,
+        size,
+        remainingSize: size,
+        reason: 'Invalid price or size',
+      });
+      return;
+    }
+
+    const resting = this.createRestingOrder(order.id, order.side, order.price, size, false);
+    this.report({
+      type: 'ack',
+      orderId: order.id,
+      side: order.side,
+      price: order.price,
+      size,
+      remainingSize: size,
+    });
+    this.match(resting);
+
+    if (resting.remaining > 0 && this.orders.has(resting.id)) {
+      this.insert(resting);
+    }
+  }
+
+  cancelOrder(orderId: string): boolean {
+    const resting = this.orders.get(orderId);
+    if (!resting) return false;
+
+    this.remove(resting);
+    if (!resting.external) {
+      this.report({
+        type: 'cancel',
+        orderId,
+        side: resting.side,
+        price: resting.price,
+        size: resting.size,
+        remainingSize: resting.remaining,
+      });
+    }
+    return true;
+  }
+
+  replaceOrder(orderId: string, price: number, size: number): boolean {
+    const resting = this.orders.get(orderId);
+    if (!resting || price <= 0 || size <= 0) return false;
+
+    const filled = resting.size - resting.remaining;
+    const remaining = size - filled;
+
+    if (remaining <= 0) {
+      return this.cancelOrder(orderId);
+    }
+
+    // Only a pure size reduction keeps queue priority; any price change or
+    // size increase sends the order to the back of its new level.
+    const keepsPriority = price === resting.price && remaining <= resting.remaining;
+
+    this.removeFromBook(resting);
+    resting.price = price;
+    resting.size = size;
+    resting.remaining = remaining;
+    if (!keepsPriority) {
+      resting.sequence = ++this.sequence;
+    }
+
+    if (!resting.external) {
+      this.report({
+        type: 'replace',
+        orderId,
+        side: resting.side,
+        price,
+        size,
+        remainingSize: remaining,
+      });
+    }
+
+    this.match(resting);
+    if (resting.remaining > 0 && this.orders.has(resting.id)) {
+      this.insert(resting);
+    }
+    return true;
+  }
+
+  submitExternalOrder(
+    side: 'buy' | 'sell',
+    size: number,
+    limitPrice?: number,
+    immediateOrCancel: boolean = true
+  ): MatchingEngineFill[] {
+    if (size <= 0) {
+      throw new Error('Invalid order size');
+    }
+
+    const price = limitPrice ?? (side === 'buy' ? Infinity : 0);
+    const id = `external-${++this.externalOrderCount}`;
+    const taker = this.createRestingOrder(id, side, price, size, true);
+    const fills = this.match(taker);
+
+    if (taker.remaining > 0 && !immediateOrCancel && limitPrice !== undefined) {
+      this.insert(taker);
+    } else {
+      this.orders.delete(id);
+    }
+
+    return fills;
+  }
+
+  private createRestingOrder(
+    id: string,
+    side: 'buy' | 'sell',
+    price: number,
+    size: number,
+    external: boolean
+  ): RestingOrder {
+    const resting: RestingOrder = {
+      id,
+      side,
+      price,
+      size,
+      remaining: size,
+      sequence: ++this.sequence,
+      external,
+    };
+    this.orders.set(id, resting);
+    return resting;
+  }
+
+  private match(taker: RestingOrder): MatchingEngineFill[] {
+    const book = taker.side === 'buy' ? this.asks : this.bids;
+    const fills: MatchingEngineFill[] = [];
+
+    // Report listeners may cancel the taker mid-match, e.g. when a fill trips
+    // a risk limit, so its presence is rechecked on every iteration.
+    while (taker.remaining > 0 && book.length > 0 && this.orders.has(taker.id)) {
+      const maker = book[0];
+      const crosses = taker.side === 'buy' ? maker.price <= taker.price : maker.price >= taker.price;
+      if (!crosses) break;
+
+      const size = Math.min(taker.remaining, maker.remaining);
+      taker.remaining -= size;
+      maker.remaining -= size;
+
+      const fill: MatchingEngineFill = {
+        makerOrderId: maker.id,
+        takerOrderId: taker.id,
+        takerSide: taker.side,
+        price: maker.price,
+        size,
+        timestamp: this.clock.now(),
+      };
+      fills.push(fill);
+      this.fills.push(fill);
+
+      if (maker.remaining === 0) {
+        book.shift();
+        this.orders.delete(maker.id);
+      }
+
+      if (!maker.external) {
+        this.report({
+          type: 'fill',
+          orderId: maker.id,
+          side: maker.side,
+          price: maker.price,
+          size,
+          remainingSize: maker.remaining,
+          liquidity: 'maker',
+        });
+      }
+      if (!taker.external) {
+        this.report({
+          type: 'fill',
+          orderId: taker.id,
+          side: taker.side,
+          price: maker.price,
+          size,
+          remainingSize: taker.remaining,
+          liquidity: 'taker',
+        });
+      }
+    }
+
+    if (taker.remaining === 0) {
+      this.orders.delete(taker.id);
+    }
+
+    if (this.fills.length > 1000) {
+      this.fills = this.fills.slice(-500);
+    }
+
+    return fills;
+  }
+
+  private insert(order: RestingOrder): void {
+    const book = order.side === 'buy' ? this.bids : this.asks;
+    const better = (a: RestingOrder, b: RestingOrder): boolean => {
+      if (a.price !== b.price) {
+        return order.side === 'buy' ? a.price > b.price : a.price < b.price;
+      }
+      return a.sequence < b.sequence;
+    };
+
+    let index = book.length;
+    while (index > 0 && better(order, book[index - 1])) {
+      index--;
+    }
+    book.splice(index, 0, order);
+    this.orders.set(order.id, order);
+  }
+
+  private remove(order: RestingOrder): void {
+    this.removeFromBook(order);
+    this.orders.delete(order.id);
+  }
+
+  private removeFromBook(order: RestingOrder): void {
+    const book = order.side === 'buy' ? this.bids : this.asks;
+    const index = book.indexOf(order);
+    if (index >= 0) {
+      book.splice(index, 1);
+    }
+  }
+
+  private report(report: Omit<ExecutionReport, 'timestamp'>): void {
+    if (this.listener) {
+      this.listener({ ...report, timestamp: this.clock.now() });
+    }
+  }
+
+  getOrderBook(depth: number = 10): OrderBook {
+    return {
+      bids: this.aggregate(this.bids, 'bid', depth),
+      asks: this.aggregate(this.asks, 'ask', depth),
+      timestamp: this.clock.now(),
+    };
+  }
+
+  private aggregate(orders: RestingOrder[], side: 'bid' | 'ask', depth: number): OrderBookEntry[] {
+    const levels: OrderBookEntry[] = [];
+
+    for (const order of orders) {
+      const last = levels[levels.length - 1];
+      if (last && last.price === order.price) {
+        last.size += order.remaining;
+      } else if (levels.length < depth) {
+        levels.push({ price: order.price, size: order.remaining, side });
+      } else {
+        break;
+      }
+    }
+
+    return levels;
+  }
+
+  getBestBid(): number | null {
+    return this.bids.length > 0 ? this.bids[0].price : null;
+  }
+
+  getBestAsk(): number | null {
+    return this.asks.length > 0 ? this.asks[0].price : null;
+  }
+
+  getQueuePosition(orderId: string): number | null {
+    const order = this.orders.get(orderId);
+    if (!order) return null;
+
+    const book = order.side === 'buy' ? this.bids : this.asks;
+    let ahead = 0;
+    for (const resting of book) {
+      if (resting === order) return ahead;
+      if (resting.price === order.price) {
+        ahead += resting.remaining;
+      }
+    }
+    return null;
+  }
+
+  getRecentFills(limit: number = 100): MatchingEngineFill[] {
+    return this.fills.slice(-limit);
+  }
+
+  reset(): void {
+    this.bids = [];
+    this.asks = [];
+    this.orders.clear();
+    this.fills = [];
+    this.sequence = 0;
+    this.externalOrderCount = 0;
+  }
+}
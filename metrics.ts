@@ -0,0 +1,318 @@
+import type { MetricLabels, MetricType } from './types';
+import { MarketMaker } from './marketMaker';
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface HistogramSeries {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+interface MetricDefinition {
+  type: MetricType;
+  help: string;
+  buckets: number[];
+  values: Map<string, number>;
+  histograms: Map<string, HistogramSeries>;
+  labels: Map<string, MetricLabels>;
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, MetricDefinition> = new Map();
+
+  registerCounter(name: string, help: string): void {
+    this.register(name, 'counter', help, []);
+  }
+
+  registerGauge(name: string, help: string): void {
+    this.register(name, 'gauge', help, []);
+  }
+
+  registerHistogram(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS): void {
+    this.register(name, 'histogram', help, [...buckets].sort((a, b) => a - b));
+  }
+
+  private register(name: string, type: MetricType, help: string, buckets: number[]): void {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} already registered as ${existing.type}`);
+      }
+      return;
+    }
+
+    this.metrics.set(name, {
+      type,
+      help,
+      buckets,
+      values: new Map(),
+      histograms: new Map(),
+      labels: new Map(),
+    });
+  }
+
+  increment(name: string, labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${name} cannot decrease`);
+    }
+
+    const metric = this.getMetric(name, 'counter');
+    const key = this.track(metric, labels);
+    metric.values.set(key, (metric.values.get(key) ?? 0) + value);
+  }
+
+  setGauge(name: string, value: number, labels: MetricLabels = {}): void {
+    const metric = this.getMetric(name, 'gauge');
+    metric.values.set(this.track(metric, labels), value);
+  }
+
+  observe(name: string, value: number, labels: MetricLabels = {}): void {
+    const metric = this.getMetric(name, 'histogram');
+    const key = this.track(metric, labels);
+    const series = metric.histograms.get(key) ?? {
+      buckets: new Array(metric.buckets.length).fill(0),
+      sum: 0,
+      count: 0,
+    };
+
+    metric.buckets.forEach((bound, index) => {
+      if (value <= bound) series.buckets[index]++;
+    });
+    series.sum += value;
+    series.count++;
+    metric.histograms.set(key, series);
+  }
+
+  getValue(name: string, labels: MetricLabels = {}): number {
+    const metric = this.metrics.get(name);
+    if (!metric) return 0;
+
+    const key = labelKey(labels);
+    return metric.type === 'histogram'
+      ? metric.histograms.get(key)?.count ?? 0
+      : metric.values.get(key) ?? 0;
+  }
+
+  // Prometheus text exposition format (version 0.0.4)
+  render(): string {
+    const lines: string[] = [];
+
+    for (const [name, metric] of this.metrics) {
+      lines.push(`# HELP ${name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${name} ${metric.type}`);
+
+      if (metric.type !== 'histogram') {
+        for (const [key, value] of metric.values) {
+          lines.push(`${name}${formatLabels(metric.labels.get(key) ?? {})} ${formatValue(value)}`);
+        }
+        continue;
+      }
+
+      for (const [key, series] of metric.histograms) {
+        const labels = metric.labels.get(key) ?? {};
+        metric.buckets.forEach((bound, index) => {
+          lines.push(`${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${series.buckets[index]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`);
+        lines.push(`${name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${series.count}`);
+      }
+    }
+
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.values.clear();
+      metric.histograms.clear();
+      metric.labels.clear();
+    }
+  }
+
+  private getMetric(name: string, type: MetricType): MetricDefinition {
+    const metric = this.metrics.get(name);
+    if (!metric) {
+      throw new Error(`Unknown metric: ${name}`);
+    }
+    if (metric.type !== type) {
+      throw new Error(`Metric ${name} is a ${metric.type}, not a ${type}`);
+    }
+    return metric;
+  }
+
+  private track(metric: MetricDefinition, labels: MetricLabels): string {
+    const key = labelKey(labels);
+    if (!metric.labels.has(key)) {
+      metric.labels.set(key, { ...labels });
+    }
+    return key;
+  }
+}
+
+export class MetricsExporter {
+  private registry: MetricsRegistry;
+  private prefix: string;
+
+  constructor(prefix: string = 'mm', registry: MetricsRegistry = new MetricsRegistry()) {
+    this.prefix = prefix;
+    this.registry = registry;
+    this.registerMetrics();
+  }
+
+  private registerMetrics(): void {
+    const counters: [string, string][] = [
+      ['quotes_total', 'Quotes generated'],
+      ['orders_placed_total', 'Orders placed'],
+      ['orders_replaced_total', 'Orders replaced'],
+      ['orders_cancelled_total', 'Orders cancelled'],
+      ['orders_rejected_total', 'Orders rejected'],
+      ['fills_total', 'Fills received'],
+      ['fill_volume_total', 'Filled base volume'],
+      ['fill_notional_total', 'Filled quote notional'],
+      ['fees_total', 'Trading fees paid'],
+      ['inventory_limit_hits_total', 'Trades clamped at an inventory limit'],
+      ['rebalances_total', 'Rebalances triggered'],
+      ['risk_halts_total', 'Risk halts'],
+      ['swaps_total', 'AMM swaps executed'],
+      ['swap_volume_total', 'AMM swap input volume'],
+      ['swap_fees_total', 'AMM swap fees collected, in input token'],
+      ['protocol_fees_total', 'AMM swap fees accrued to the protocol, in input token'],
+      ['liquidity_changes_total', 'AMM liquidity adds and removes'],
+    ];
+    const gauges: [string, string][] = [
+      ['inventory', 'Current inventory'],
+      ['fair_value', 'Fair value used for the last quote'],
+      ['quote_spread', 'Spread of the last quote'],
+      ['active_orders', 'Resting orders'],
+      ['realized_pnl', 'Realized PnL net of fees'],
+      ['halted', '1 while quoting is halted by the risk manager'],
+      ['pool_reserve', 'AMM pool reserves'],
+      ['pool_lp_supply', 'AMM LP token supply'],
+    ];
+
+    counters.forEach(([name, help]) => this.registry.registerCounter(this.name(name), help));
+    gauges.forEach(([name, help]) => this.registry.registerGauge(this.name(name), help));
+    this.registry.registerHistogram(this.name('fill_size'), 'Fill size', [1, 5, 10, 25, 50, 100, 250, 500, 1000]);
+    this.registry.registerHistogram(this.name('swap_price_impact'), 'AMM swap price impact', [
+      0.0001, 0.0005, 0.001, 0.005, 0.01, 0.05, 0.1,
+    ]);
+  }
+
+  attach(marketMaker: MarketMaker): () => void {
+    const subscriptions = [
+      marketMaker.on('quote-generated', event => {
+        this.registry.increment(this.name('quotes_total'));
+        this.registry.setGauge(this.name('fair_value'), event.fairValue);
+        this.registry.setGauge(this.name('quote_spread'), event.quote.spread);
+        this.registry.setGauge(this.name('inventory'), event.inventory.currentInventory);
+      }),
+      marketMaker.on('order-placed', event => {
+        this.registry.increment(this.name('orders_placed_total'), { side: event.order.side });
+        this.updateOrderGauges(marketMaker);
+      }),
+      marketMaker.on('order-replaced', event => {
+        this.registry.increment(this.name('orders_replaced_total'), { side: event.order.side });
+      }),
+      marketMaker.on('order-cancelled', event => {
+        this.registry.increment(this.name('orders_cancelled_total'), { side: event.order.side });
+        this.updateOrderGauges(marketMaker);
+      }),
+      marketMaker.on('order-rejected', event => {
+        this.registry.increment(this.name('orders_rejected_total'), { side: event.order.side, reason: event.code });
+        this.updateOrderGauges(marketMaker);
+      }),
+      marketMaker.on('fill', event => {
+        const { trade } = event;
+        this.registry.increment(this.name('fills_total'), { side: trade.side });
+        this.registry.increment(this.name('fill_volume_total'), { side: trade.side }, trade.size);
+        this.registry.increment(this.name('fill_notional_total'), { side: trade.side }, trade.size * trade.price);
+        if (trade.fee > 0) {
+          this.registry.increment(this.name('fees_total'), {}, trade.fee);
+        }
+        this.registry.observe(this.name('fill_size'), trade.size, { side: trade.side });
+        this.registry.setGauge(this.name('inventory'), marketMaker.getInventoryState().currentInventory);
+        this.registry.setGauge(this.name('realized_pnl'), marketMaker.getLedger().getRealizedPnL());
+        this.updateOrderGauges(marketMaker);
+      }),
+      marketMaker.on('inventory-limit', event => {
+        this.registry.increment(this.name('inventory_limit_hits_total'), { limit: event.limit });
+      }),
+      marketMaker.on('rebalance-triggered', event => {
+        this.registry.increment(this.name('rebalances_total'), { side: event.side });
+      }),
+      marketMaker.on('risk-halt', event => {
+        this.registry.increment(this.name('risk_halts_total'), { type: event.breach.type });
+        this.registry.setGauge(this.name('halted'), 1);
+      }),
+      marketMaker.on('risk-reset', () => {
+        this.registry.setGauge(this.name('halted'), 0);
+      }),
+      marketMaker.on('swap', event => {
+        this.registry.increment(this.name('swaps_total'), { token_in: event.tokenIn });
+        this.registry.increment(this.name('swap_volume_total'), { token_in: event.tokenIn }, event.result.amountIn);
+        this.registry.increment(this.name('swap_fees_total'), { token_in: event.tokenIn }, event.result.fee);
+        this.registry.increment(this.name('protocol_fees_total'), { token_in: event.tokenIn }, event.protocolFee);
+        this.registry.observe(this.name('swap_price_impact'), event.result.priceImpact, { token_in: event.tokenIn });
+        this.updatePoolGauges(event.tokenAReserve, event.tokenBReserve);
+      }),
+      marketMaker.on('liquidity-changed', event => {
+        this.registry.increment(this.name('liquidity_changes_total'), { action: event.action });
+        this.registry.setGauge(this.name('pool_lp_supply'), event.lpTokenSupply);
+        const state = marketMaker.getPoolState();
+        this.updatePoolGauges(state.tokenAReserve, state.tokenBReserve);
+      }),
+    ];
+
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }
+
+  private updateOrderGauges(marketMaker: MarketMaker): void {
+    this.registry.setGauge(this.name('active_orders'), marketMaker.getActiveOrders().length);
+    this.registry.setGauge(this.name('halted'), marketMaker.isHalted() ? 1 : 0);
+  }
+
+  private updatePoolGauges(tokenAReserve: number, tokenBReserve: number): void {
+    this.registry.setGauge(this.name('pool_reserve'), tokenAReserve, { token: 'A' });
+    this.registry.setGauge(this.name('pool_reserve'), tokenBReserve, { token: 'B' });
+  }
+
+  private name(metric: string): string {
+    return `${this.prefix}_${metric}`;
+  }
+
+  getRegistry(): MetricsRegistry {
+    return this.registry;
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+}
+
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(key => [key, labels[key]]));
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const keys = Object.keys(labels);
+  if (keys.length === 0) return '';
+
+  const pairs = keys.map(key => {
+    const value = labels[key].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    return `${key}="${value}"`;
+  });
+  return `{${pairs.join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  if (Number.isNaN(value)) return 'NaN';
+  return String(value);
+}
@@ -0,0 +1,207 @@
+import type {
+  OracleConsultation,
+  OracleObservation,
+  PriceOracleConfig,
+  PriceOracleSnapshot,
+} from './types';
+
+const DEFAULT_ORACLE_CONFIG: PriceOracleConfig = {
+  cardinality: 100,
+};
+
+// Accumulates price * seconds for the reserves that held between updates,
+// like the pair contract's price0CumulativeLast, plus the time integral of
+// the log price for geometric means. Observations go into a fixed-size ring
+// buffer, one per timestamp, so the cumulatives can be read back at any time
+// inside the buffered history.
+export class PriceOracle {
+  private config: PriceOracleConfig;
+  private observations: OracleObservation[] = [];
+  private index: number = -1;
+  private reserveA: number = 0;
+  private reserveB: number = 0;
+  private priceACumulative: number = 0;
+  private priceBCumulative: number = 0;
+  private logPriceCumulative: number = 0;
+  private lastTimestamp: number | null = null;
+
+  constructor(config: Partial<PriceOracleConfig> = {}) {
+    this.config = { ...DEFAULT_ORACLE_CONFIG, ...config };
+    assertCardinality(this.config.cardinality);
+  }
+
+  // Call after every reserve change with the new reserves
+  update(reserveA: number, reserveB: number, timestamp: number): void {
+    if (this.lastTimestamp !== null && timestamp < this.lastTimestamp) {
+      throw new Error(`Oracle update at ${timestamp} is before the last update at ${this.lastTimestamp}`);
+    }
+
+    const observation = this.accumulate(timestamp);
+    this.priceACumulative = observation.priceACumulative;
+    this.priceBCumulative = observation.priceBCumulative;
+    this.logPriceCumulative = observation.logPriceCumulative;
+    this.lastTimestamp = timestamp;
+    this.reserveA = reserveA;
+    this.reserveB = reserveB;
+    this.write(observation);
+  }
+
+  // Cumulatives as of `secondsAgo` before `now`, interpolated between
+  // observations. The reserves are constant between two observations, so the
+  // interpolation is exact.
+  observe(secondsAgo: number, now: number): OracleObservation {
+    if (this.lastTimestamp === null) {
+      throw new Error('Oracle has no observations');
+    }
+
+    const target = now - secondsAgo * 1000;
+    if (target >= this.lastTimestamp) {
+      return this.accumulate(target);
+    }
+
+    const observations = this.getObservations();
+    if (target < observations[0].timestamp) {
+      throw new Error(`Oracle history starts at ${observations[0].timestamp}, after ${target}`);
+    }
+
+    const after = observations.findIndex(observation => observation.timestamp >= target);
+    if (observations[after].timestamp === target) {
+      return { ...observations[after] };
+    }
+
+    const before = observations[after - 1];
+    const next = observations[after];
+    const weight = (target - before.timestamp) / (next.timestamp - before.timestamp);
+    return {
+      timestamp: target,
+      priceACumulative: interpolate(before.priceACumulative, next.priceACumulative, weight),
+      priceBCumulative: interpolate(before.priceBCumulative, next.priceBCumulative, weight),
+      logPriceCumulative: interpolate(before.logPriceCumulative, next.logPriceCumulative, weight),
+    };
+  }
+
+  consult(windowSeconds: number, now: number): OracleConsultation {
+    if (windowSeconds <= 0) {
+      throw new Error('Oracle window must be positive');
+    }
+
+    const start = this.observe(windowSeconds, now);
+    const end = this.observe(0, now);
+    return {
+      windowSeconds,
+      startTime: start.timestamp,
+      endTime: end.timestamp,
+      twap: (end.priceACumulative - start.priceACumulative) / windowSeconds,
+      inverseTwap: (end.priceBCumulative - start.priceBCumulative) / windowSeconds,
+      geometricMeanPrice: Math.exp((end.logPriceCumulative - start.logPriceCumulative) / windowSeconds),
+    };
+  }
+
+  canConsult(windowSeconds: number, now: number): boolean {
+    const oldest = this.getObservations()[0];
+    return oldest !== undefined && now - windowSeconds * 1000 >= oldest.timestamp;
+  }
+
+  // Oldest first
+  getObservations(): OracleObservation[] {
+    const ordered = this.observations.length < this.config.cardinality
+      ? this.observations
+      : [...this.observations.slice(this.index + 1), ...this.observations.slice(0, this.index + 1)];
+    return ordered.map(observation => ({ ...observation }));
+  }
+
+  createSnapshot(): PriceOracleSnapshot {
+    return {
+      cardinality: this.config.cardinality,
+      reserveA: this.reserveA,
+      reserveB: this.reserveB,
+      priceACumulative: this.priceACumulative,
+      priceBCumulative: this.priceBCumulative,
+      logPriceCumulative: this.logPriceCumulative,
+      lastTimestamp: this.lastTimestamp,
+      observations: this.getObservations(),
+    };
+  }
+
+  restoreSnapshot(snapshot: PriceOracleSnapshot): void {
+    assertCardinality(snapshot.cardinality);
+
+    this.config = { ...this.config, cardinality: snapshot.cardinality };
+    this.reserveA = snapshot.reserveA;
+    this.reserveB = snapshot.reserveB;
+    this.priceACumulative = snapshot.priceACumulative;
+    this.priceBCumulative = snapshot.priceBCumulative;
+    this.logPriceCumulative = snapshot.logPriceCumulative;
+    this.lastTimestamp = snapshot.lastTimestamp;
+    this.observations = snapshot.observations.slice(-snapshot.cardinality).map(observation => ({ ...observation }));
+    this.index = this.observations.length - 1;
+  }
+
+  reset(): void {
+    this.observations = [];
+    this.index = -1;
+    this.reserveA = 0;
+    this.reserveB = 0;
+    this.priceACumulative = 0;
+    this.priceBCumulative = 0;
+    this.logPriceCumulative = 0;
+    this.lastTimestamp = null;
+  }
+
+  // Resizing keeps the newest observations
+  updateConfig(config: Partial<PriceOracleConfig>): void {
+    const next = { ...this.config, ...config };
+    assertCardinality(next.cardinality);
+
+    const observations = this.getObservations().slice(-next.cardinality);
+    this.config = next;
+    this.observations = observations;
+    this.index = observations.length - 1;
+  }
+
+  getConfig(): PriceOracleConfig {
+    return { ...this.config };
+  }
+
+  // Cumulatives at `timestamp`, carrying the current reserves forward from
+  // the last update
+  private accumulate(timestamp: number): OracleObservation {
+    const observation: OracleObservation = {
+      timestamp,
+      priceACumulative: this.priceACumulative,
+      priceBCumulative: this.priceBCumulative,
+      logPriceCumulative: this.logPriceCumulative,
+    };
+    if (this.lastTimestamp === null || this.reserveA <= 0 || this.reserveB <= 0) {
+      return observation;
+    }
+
+    const elapsed = (timestamp - this.lastTimestamp) / 1000;
+    const price = this.reserveB / this.reserveA;
+    observation.priceACumulative += price * elapsed;
+    observation.priceBCumulative += elapsed / price;
+    observation.logPriceCumulative += Math.log(price) * elapsed;
+    return observation;
+  }
+
+  private write(observation: OracleObservation): void {
+    const latest = this.observations[this.index];
+    if (latest && latest.timestamp === observation.timestamp) {
+      this.observations[this.index] = observation;
+      return;
+    }
+
+    this.index = (this.index + 1) % this.config.cardinality;
+    this.observations[this.index] = observation;
+  }
+}
+
+function assertCardinality(cardinality: number): void {
+  if (!Number.isInteger(cardinality) || cardinality < 1) {
+    throw new Error('Oracle cardinality must be a positive integer');
+  }
+}
+
+function interpolate(from: number, to: number, weight: number): number {
+  return from + (to - from) * weight;
+}
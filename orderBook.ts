@@ -0,0 +1,152 @@
+import type { OrderBook, OrderBookEntry, OrderBookQuotingConfig, QueuePlacement, Quote } from './types';
+
+const DEFAULT_ORDER_BOOK_CONFIG: OrderBookQuotingConfig = {
+  fairValue: 'microprice',
+  depthLevels: 5,
+  imbalanceSkewMultiplier: 0.5,
+  improveDepthThreshold: 1000,
+  behindDepthThreshold: 0,
+};
+
+export class OrderBookQuoter {
+  private config: OrderBookQuotingConfig;
+
+  constructor(config: Partial<OrderBookQuotingConfig> = {}) {
+    this.config = { ...DEFAULT_ORDER_BOOK_CONFIG, ...config };
+  }
+
+  calculateFairValue(book: OrderBook): number {
+    const bids = getSortedLevels(book, 'bid');
+    const asks = getSortedLevels(book, 'ask');
+
+    if (bids.length === 0 || asks.length === 0) {
+      throw new Error('Order book must have both bids and asks');
+    }
+
+    let fairValue: number;
+    switch (this.config.fairValue) {
+      case 'mid':
+        fairValue = (bids[0].price + asks[0].price) / 2;
+        break;
+      case 'depth-weighted':
+        fairValue = calculateDepthWeightedMid(book, this.config.depthLevels);
+        break;
+      case 'microprice':
+      default:
+        fairValue = calculateMicroprice(book);
+        break;
+    }
+
+    const imbalance = calculateBookImbalance(book, this.config.depthLevels);
+    const halfTouchSpread = (asks[0].price - bids[0].price) / 2;
+    return fairValue + imbalance * this.config.imbalanceSkewMultiplier * halfTouchSpread;
+  }
+
+  placeQuote(quote: Quote, book: OrderBook, tickSize: number): Quote {
+    const bidPrice = this.placeSide('bid', quote.bidPrice, book, tickSize).price;
+    const askPrice = this.placeSide('ask', quote.askPrice, book, tickSize).price;
+
+    return {
+      ...quote,
+      bidPrice,
+      askPrice,
+      spread: askPrice - bidPrice,
+    };
+  }
+
+  placeSide(
+    side: 'bid' | 'ask',
+    modelPrice: number,
+    book: OrderBook,
+    tickSize: number
+  ): { price: number; placement: QueuePlacement } {
+    const sameSide = getSortedLevels(book, side);
+    const opposite = getSortedLevels(book, side === 'bid' ? 'ask' : 'bid');
+    const direction = side === 'bid' ? 1 : -1;
+
+    // A price at or beyond the opposite touch would take liquidity, so the
+    // most aggressive price we may rest at is one tick inside it.
+    let price = modelPrice;
+    if (opposite.length > 0) {
+      const limit = roundToTickSize(opposite[0].price - direction * tickSize, tickSize);
+      price = side === 'bid' ? Math.min(price, limit) : Math.max(price, limit);
+    }
+
+    if (sameSide.length === 0) {
+      return { price: roundToTickSize(price, tickSize), placement: 'model' };
+    }
+
+    const touch = sameSide[0];
+    if ((price - touch.price) * direction < 0) {
+      return { price: roundToTickSize(price, tickSize), placement: 'model' };
+    }
+
+    if (touch.size >= this.config.improveDepthThreshold) {
+      const improved = touch.price + direction * tickSize;
+      const crosses = opposite.length > 0 && (opposite[0].price - improved) * direction <= 0;
+      if (!crosses && (price - improved) * direction >= 0) {
+        return { price: roundToTickSize(improved, tickSize), placement: 'improve' };
+      }
+    }
+
+    if (touch.size < this.config.behindDepthThreshold) {
+      return { price: roundToTickSize(touch.price - direction * tickSize, tickSize), placement: 'behind' };
+    }
+
+    return { price: touch.price, placement: 'join' };
+  }
+
+  updateConfig(config: Partial<OrderBookQuotingConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): OrderBookQuotingConfig {
+    return { ...this.config };
+  }
+}
+
+export function getSortedLevels(book: OrderBook, side: 'bid' | 'ask'): OrderBookEntry[] {
+  const levels = side === 'bid' ? book.bids : book.asks;
+  return levels
+    .filter(level => level.size > 0)
+    .sort((a, b) => (side === 'bid' ? b.price - a.price : a.price - b.price));
+}
+
+export function calculateMicroprice(book: OrderBook): number {
+  const bids = getSortedLevels(book, 'bid');
+  const asks = getSortedLevels(book, 'ask');
+  if (bids.length === 0 || asks.length === 0) return 0;
+
+  const totalSize = bids[0].size + asks[0].size;
+  if (totalSize === 0) return (bids[0].price + asks[0].price) / 2;
+  return (bids[0].price * asks[0].size + asks[0].price * bids[0].size) / totalSize;
+}
+
+export function calculateDepthWeightedMid(book: OrderBook, levels: number = 5): number {
+  const bids = getSortedLevels(book, 'bid').slice(0, levels);
+  const asks = getSortedLevels(book, 'ask').slice(0, levels);
+  if (bids.length === 0 || asks.length === 0) return 0;
+
+  const bidDepth = bids.reduce((sum, level) => sum + level.size, 0);
+  const askDepth = asks.reduce((sum, level) => sum + level.size, 0);
+  const bidVwap = bids.reduce((sum, level) => sum + level.price * level.size, 0) / bidDepth;
+  const askVwap = asks.reduce((sum, level) => sum + level.price * level.size, 0) / askDepth;
+
+  return (bidVwap * askDepth + askVwap * bidDepth) / (bidDepth + askDepth);
+}
+
+export function calculateBookImbalance(book: OrderBook, levels: number = 5): number {
+  const bidDepth = getSortedLevels(book, 'bid')
+    .slice(0, levels)
+    .reduce((sum, level) => sum + level.size, 0);
+  const askDepth = getSortedLevels(book, 'ask')
+    .slice(0, levels)
+    .reduce((sum, level) => sum + level.size, 0);
+
+  const totalDepth = bidDepth + askDepth;
+  return totalDepth > 0 ? (bidDepth - askDepth) / totalDepth : 0;
+}
+
+function roundToTickSize(value: number, tickSize: number): number {
+  return Math.round(value / tickSize) * tickSize;
+}
@@ -0,0 +1,42 @@
+import type { PoolAmount, PoolErrorCode, SlippageBound } from './types';
+
+// Failures a caller can act on, e.g. by re-quoting with a looser limit or a
+// smaller size. Catch with instanceof or switch on `code`; invalid arguments
+// still throw plain errors.
+export class PoolError extends Error {
+  readonly code: PoolErrorCode;
+
+  constructor(code: PoolErrorCode, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+// `limit` is the caller's minimum output or maximum input; `actual` is what
+// the swap would have given or needed
+export class SlippageError extends PoolError {
+  readonly bound: SlippageBound;
+  readonly limit: PoolAmount;
+  readonly actual: PoolAmount;
+
+  constructor(limit: PoolAmount, actual: PoolAmount, bound: SlippageBound = 'min-out') {
+    super(
+      'slippage-exceeded',
+      bound === 'min-out'
+        ? `Slippage exceeded: expected ${limit}, got ${actual}`
+        : `Slippage exceeded: max input ${limit}, need ${actual}`
+    );
+    this.bound = bound;
+    this.limit = limit;
+    this.actual = actual;
+  }
+}
+
+// The reserves cannot supply the requested output, or a deposit or
+// withdrawal is too small to move any liquidity
+export class InsufficientLiquidityError extends PoolError {
+  constructor(message: string = 'Insufficient liquidity') {
+    super('insufficient-liquidity', message);
+  }
+}
@@ -0,0 +1,137 @@
+import type {
+  DirectionalFeeConfig,
+  PoolFeeContext,
+  PoolFeePolicy,
+  VolatilityEstimator,
+  VolatilityFeeConfig,
+} from './types';
+
+const DEFAULT_VOLATILITY_FEE_CONFIG: VolatilityFeeConfig = {
+  baseFee: 0.003,
+  volatilityMultiplier: 0.2,
+  minFee: 0.0005,
+  maxFee: 0.01,
+};
+
+const DEFAULT_DIRECTIONAL_FEE_CONFIG: DirectionalFeeConfig = {
+  baseFee: 0.003,
+  imbalanceMultiplier: 0.1,
+  minFee: 0.0005,
+  maxFee: 0.01,
+  referencePrice: null,
+};
+
+export class StaticFeePolicy implements PoolFeePolicy {
+  private fee: number;
+
+  constructor(fee: number) {
+    assertFee(fee);
+    this.fee = fee;
+  }
+
+  getFee(): number {
+    return this.fee;
+  }
+
+  setFee(fee: number): void {
+    assertFee(fee);
+    this.fee = fee;
+  }
+}
+
+// baseFee + volatilityMultiplier * volatility, where volatility is the
+// estimator's figure over its horizon. The caller keeps the estimator fed;
+// until it is ready the base fee applies.
+export class VolatilityFeePolicy implements PoolFeePolicy {
+  private config: VolatilityFeeConfig;
+  private estimator: VolatilityEstimator;
+
+  constructor(estimator: VolatilityEstimator, config: Partial<VolatilityFeeConfig> = {}) {
+    this.config = { ...DEFAULT_VOLATILITY_FEE_CONFIG, ...config };
+    assertFeeBounds(this.config);
+    this.estimator = estimator;
+  }
+
+  getFee(): number {
+    const { baseFee, volatilityMultiplier, minFee, maxFee } = this.config;
+    if (!this.estimator.isReady()) {
+      return clamp(baseFee, minFee, maxFee);
+    }
+    return clamp(baseFee + volatilityMultiplier * this.estimator.getVolatility(), minFee, maxFee);
+  }
+
+  getEstimator(): VolatilityEstimator {
+    return this.estimator;
+  }
+
+  updateConfig(config: Partial<VolatilityFeeConfig>): void {
+    const next = { ...this.config, ...config };
+    assertFeeBounds(next);
+    this.config = next;
+  }
+
+  getConfig(): VolatilityFeeConfig {
+    return { ...this.config };
+  }
+}
+
+// Charges swaps that leave the pool further from the reference price
+// baseFee + imbalanceMultiplier * |deviation after|, and discounts swaps that
+// close the gap by imbalanceMultiplier * |deviation before|. Without a
+// reference price every swap pays the base fee.
+export class DirectionalFeePolicy implements PoolFeePolicy {
+  private config: DirectionalFeeConfig;
+
+  constructor(config: Partial<DirectionalFeeConfig> = {}) {
+    this.config = { ...DEFAULT_DIRECTIONAL_FEE_CONFIG, ...config };
+    assertFeeBounds(this.config);
+  }
+
+  getFee(context: PoolFeeContext): number {
+    const { baseFee, imbalanceMultiplier, minFee, maxFee, referencePrice } = this.config;
+    if (referencePrice === null || referencePrice <= 0 || context.priceBefore <= 0) {
+      return clamp(baseFee, minFee, maxFee);
+    }
+
+    const deviationBefore = Math.abs(context.priceBefore / referencePrice - 1);
+    const deviationAfter = Math.abs(context.priceAfter / referencePrice - 1);
+    const fee = deviationAfter > deviationBefore
+      ? baseFee + imbalanceMultiplier * deviationAfter
+      : baseFee - imbalanceMultiplier * deviationBefore;
+    return clamp(fee, minFee, maxFee);
+  }
+
+  setReferencePrice(price: number | null): void {
+    if (price !== null && price <= 0) {
+      throw new Error('Reference price must be positive');
+    }
+    this.config.referencePrice = price;
+  }
+
+  updateConfig(config: Partial<DirectionalFeeConfig>): void {
+    const next = { ...this.config, ...config };
+    assertFeeBounds(next);
+    this.config = next;
+  }
+
+  getConfig(): DirectionalFeeConfig {
+    return { ...this.config };
+  }
+}
+
+function assertFee(fee: number): void {
+  if (!(fee >= 0 && fee < 1)) {
+    throw new Error('Fee must be between 0 and 1');
+  }
+}
+
+function assertFeeBounds(config: { baseFee: number; minFee: number; maxFee: number }): void {
+  [config.baseFee, config.minFee, config.maxFee].forEach(assertFee);
+  if (config.minFee > config.maxFee) {
+    throw new Error('Minimum fee exceeds maximum fee');
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
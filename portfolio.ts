@@ -0,0 +1,400 @@
+import type {
+  Clock,
+  IdGenerator,
+  MarketData,
+  Order,
+  OrderBook,
+  OrderUpdateResult,
+  PortfolioConfig,
+  PortfolioState,
+  PortfolioSymbolConfig,
+  Quote,
+  QuoteLadderLevel,
+  SymbolExposure,
+  Trade,
+} from './types';
+import { MarketMaker } from './marketMaker';
+import { SystemClock } from './clock';
+import { MonotonicIdGenerator } from './ids';
+
+const DEFAULT_PORTFOLIO_CONFIG: PortfolioConfig = {
+  quoteBudget: 100000,
+  maxGrossNotional: 1000000,
+  assetLimits: {},
+  correlations: {},
+  maxCorrelationSkew: 0.001,
+  correlationSkewNotional: 100000,
+};
+
+interface PortfolioMember {
+  symbol: string;
+  config: PortfolioSymbolConfig;
+  marketMaker: MarketMaker;
+  markPrice: number;
+}
+
+interface OpenOrderTotals {
+  buySize: number;
+  sellSize: number;
+  buyNotional: number;
+  sellNotional: number;
+}
+
+// Whether an open order is left out of the headroom, because it is about to
+// be replaced
+type OrderFilter = (member: PortfolioMember, order: Order) => boolean;
+
+// Hosts one MarketMaker per symbol and routes MarketData by its symbol.
+// Notionals are in each pair's quote asset; the budget and gross limit
+// assume the pairs share one quote currency.
+export class PortfolioMarketMaker {
+  private config: PortfolioConfig;
+  private members: Map<string, PortfolioMember> = new Map();
+  private clock: Clock;
+  private ids: IdGenerator;
+
+  constructor(
+    config: Partial<PortfolioConfig> = {},
+    clock: Clock = new SystemClock(),
+    ids: IdGenerator = new MonotonicIdGenerator()
+  ) {
+    this.config = { ...DEFAULT_PORTFOLIO_CONFIG, ...config };
+    this.clock = clock;
+    this.ids = ids;
+  }
+
+  addSymbol(symbol: string, config: Partial<PortfolioSymbolConfig> = {}): MarketMaker {
+    if (this.members.has(symbol)) {
+      throw new Error(`Symbol ${symbol} already in portfolio`);
+    }
+
+    const [base, quote] = symbol.split(/[/\-_]/);
+    const symbolConfig: PortfolioSymbolConfig = {
+      baseAsset: config.baseAsset ?? base,
+      quoteAsset: config.quoteAsset ?? quote ?? '',
+      weight: config.weight ?? 1,
+      marketMaker: config.marketMaker ?? {},
+    };
+    if (!symbolConfig.baseAsset || !symbolConfig.quoteAsset) {
+      throw new Error(`Cannot infer base and quote assets for ${symbol}`);
+    }
+    if (symbolConfig.weight < 0) {
+      throw new Error('Budget weight must be non-negative');
+    }
+
+    // Shared ID generator keeps order and trade IDs unique across symbols
+    const marketMaker = new MarketMaker(symbolConfig.marketMaker, this.clock, this.ids);
+    const member: PortfolioMember = { symbol, config: symbolConfig, marketMaker, markPrice: 0 };
+    this.members.set(symbol, member);
+
+    // Every order the maker places, however it is placed, has to fit the
+    // portfolio limits left by positions and open orders on all symbols
+    marketMaker.setHeadroomLimit((side, price, replacing) => {
+      const limits = this.getSideLimits(member, price, (_, order) => order.id === replacing?.id);
+      return side === 'buy' ? Math.min(limits.buySize, limits.buyNotional / price) : limits.sellSize;
+    });
+    return marketMaker;
+  }
+
+  removeSymbol(symbol: string): boolean {
+    const member = this.members.get(symbol);
+    if (!member) return false;
+
+    member.marketMaker.stop();
+    member.marketMaker.setHeadroomLimit(null);
+    return this.members.delete(symbol);
+  }
+
+  getMarketMaker(symbol: string): MarketMaker {
+    return this.getMember(symbol).marketMaker;
+  }
+
+  getSymbols(): string[] {
+    return Array.from(this.members.keys());
+  }
+
+  start(): void {
+    this.members.forEach(member => member.marketMaker.start());
+  }
+
+  stop(): void {
+    this.members.forEach(member => member.marketMaker.stop());
+  }
+
+  // Quotes the symbol's maker, then skews for correlated exposure held in
+  // the other symbols and trims each side to the portfolio limits. The
+  // symbol's own quote orders are left out of the limits since the new quote
+  // replaces them.
+  generateQuotes(marketData: MarketData, orderBook?: OrderBook): Quote {
+    const member = this.getMember(marketData.symbol);
+    const quote = member.marketMaker.generateQuotes(marketData, orderBook);
+    member.markPrice = quote.midPrice;
+
+    const { priceTickSize, sizeTickSize, minOrderSize } = member.marketMaker.getConfig();
+    const skew = this.getCorrelationSkew(member.symbol);
+    const shift = (price: number) => roundToTick(price * (1 + skew), priceTickSize);
+
+    const ladder = quote.ladder ?? {
+      bids: [{ level: 0, price: quote.bidPrice, size: quote.bidSize }],
+      asks: [{ level: 0, price: quote.askPrice, size: quote.askSize }],
+      midPrice: quote.midPrice,
+    };
+    const limits = this.getSideLimits(
+      member,
+      member.markPrice,
+      (other, order) => other === member && order.purpose === 'quote'
+    );
+    const bids = capLevels(
+      ladder.bids.map(level => ({ ...level, price: shift(level.price) })),
+      limits.buySize,
+      limits.buyNotional,
+      minOrderSize,
+      sizeTickSize
+    );
+    const asks = capLevels(
+      ladder.asks.map(level => ({ ...level, price: shift(level.price) })),
+      limits.sellSize,
+      Infinity,
+      minOrderSize,
+      sizeTickSize
+    );
+
+    return {
+      ...quote,
+      bidPrice: shift(quote.bidPrice),
+      bidSize: bids.length > 0 ? bids[0].size : 0,
+      askPrice: shift(quote.askPrice),
+      askSize: asks.length > 0 ? asks[0].size : 0,
+      ladder: { bids, asks, midPrice: ladder.midPrice },
+    };
+  }
+
+  updateQuotes(
+    symbol: string,
+    quote: Quote,
+    priceTolerance: number = 0,
+    sizeTolerance: number = 0
+  ): OrderUpdateResult {
+    return this.getMember(symbol).marketMaker.updateQuotes(quote, priceTolerance, sizeTolerance);
+  }
+
+  processFill(symbol: string, orderId: string, filledSize: number, fillPrice: number): Trade | null {
+    return this.getMember(symbol).marketMaker.processFill(orderId, filledSize, fillPrice);
+  }
+
+  // Size each side may still add at `price`, counting every open order in
+  // the portfolio as if it filled
+  private getSideLimits(member: PortfolioMember, price: number, exclude: OrderFilter): {
+    buySize: number;
+    sellSize: number;
+    buyNotional: number;
+  } {
+    const { baseAsset, quoteAsset } = member.config;
+    const position = member.marketMaker.getPosition(price);
+    const openOrders = new Map<PortfolioMember, OpenOrderTotals>();
+    for (const other of this.members.values()) {
+      openOrders.set(other, getOpenOrderTotals(other, exclude));
+    }
+    const own = openOrders.get(member)!;
+
+    // Budget is spent by net quote paid out, so selling inventory frees it up
+    const buyNotional = Math.max(
+      0,
+      this.getAllocation(member.symbol) - Math.max(0, -position.quoteBalance) - own.buyNotional
+    );
+
+    let buySize = Infinity;
+    let sellSize = Infinity;
+    if (price > 0) {
+      let otherGross = 0;
+      for (const [other, open] of openOrders) {
+        if (other === member) continue;
+        const net = other.marketMaker.getLedger().getNetPosition();
+        otherGross += Math.max(Math.abs(net + open.buySize), Math.abs(net - open.sellSize)) * other.markPrice;
+      }
+      const maxPosition = Math.max(0, this.config.maxGrossNotional - otherGross) / price;
+      buySize = Math.max(0, maxPosition - position.baseBalance - own.buySize);
+      sellSize = Math.max(0, maxPosition + position.baseBalance - own.sellSize);
+    }
+
+    // Worst-case increase and decrease of each asset if every open order filled
+    const pendingLong: Record<string, number> = {};
+    const pendingShort: Record<string, number> = {};
+    for (const [other, open] of openOrders) {
+      const { baseAsset: base, quoteAsset: quote } = other.config;
+      pendingLong[base] = (pendingLong[base] ?? 0) + open.buySize;
+      pendingShort[base] = (pendingShort[base] ?? 0) + open.sellSize;
+      pendingLong[quote] = (pendingLong[quote] ?? 0) + open.sellNotional;
+      pendingShort[quote] = (pendingShort[quote] ?? 0) + open.buyNotional;
+    }
+
+    const assetExposures = this.getAssetExposures();
+    const baseLimit = this.config.assetLimits[baseAsset];
+    if (baseLimit !== undefined) {
+      const exposure = assetExposures[baseAsset] ?? 0;
+      buySize = Math.min(buySize, Math.max(0, baseLimit - exposure - pendingLong[baseAsset]));
+      sellSize = Math.min(sellSize, Math.max(0, baseLimit + exposure - pendingShort[baseAsset]));
+    }
+
+    // Buying base pays out quote asset, selling base receives it
+    const quoteLimit = this.config.assetLimits[quoteAsset];
+    if (quoteLimit !== undefined && price > 0) {
+      const exposure = assetExposures[quoteAsset] ?? 0;
+      buySize = Math.min(buySize, Math.max(0, quoteLimit + exposure - pendingShort[quoteAsset]) / price);
+      sellSize = Math.min(sellSize, Math.max(0, quoteLimit - exposure - pendingLong[quoteAsset]) / price);
+    }
+
+    return { buySize, sellSize, buyNotional };
+  }
+
+  // Fraction of mid to shift quotes by. Long correlated exposure elsewhere
+  // lowers our quotes, so offsetting positions across symbols net out.
+  getCorrelationSkew(symbol: string): number {
+    const { maxCorrelationSkew, correlationSkewNotional } = this.config;
+    if (maxCorrelationSkew === 0 || correlationSkewNotional <= 0) return 0;
+
+    const normalized = this.getCorrelatedNotional(symbol) / correlationSkewNotional;
+    return -maxCorrelationSkew * Math.max(-1, Math.min(1, normalized));
+  }
+
+  getCorrelatedNotional(symbol: string): number {
+    const member = this.getMember(symbol);
+    let correlated = 0;
+
+    for (const other of this.members.values()) {
+      if (other.symbol === symbol) continue;
+
+      const notional = other.marketMaker.getLedger().getNetPosition() * other.markPrice;
+      correlated += this.getCorrelation(member.config.baseAsset, other.config.baseAsset) * notional;
+    }
+    return correlated;
+  }
+
+  getCorrelation(assetA: string, assetB: string): number {
+    if (assetA === assetB) return 1;
+    return this.config.correlations[assetA]?.[assetB] ?? this.config.correlations[assetB]?.[assetA] ?? 0;
+  }
+
+  getAllocation(symbol: string): number {
+    const member = this.getMember(symbol);
+    const totalWeight = Array.from(this.members.values()).reduce((sum, m) => sum + m.config.weight, 0);
+    if (totalWeight === 0) return 0;
+    return this.config.quoteBudget * (member.config.weight / totalWeight);
+  }
+
+  getExposures(): SymbolExposure[] {
+    return Array.from(this.members.values()).map(member => {
+      const position = member.marketMaker.getLedger().getNetPosition();
+      return {
+        symbol: member.symbol,
+        baseAsset: member.config.baseAsset,
+        quoteAsset: member.config.quoteAsset,
+        position,
+        markPrice: member.markPrice,
+        notional: position * member.markPrice,
+        allocation: this.getAllocation(member.symbol),
+        correlatedNotional: this.getCorrelatedNotional(member.symbol),
+      };
+    });
+  }
+
+  // Net holdings per asset across all pairs, in units of that asset
+  getAssetExposures(): Record<string, number> {
+    const exposures: Record<string, number> = {};
+
+    for (const member of this.members.values()) {
+      const position = member.marketMaker.getPosition(member.markPrice);
+      const { baseAsset, quoteAsset } = member.config;
+      exposures[baseAsset] = (exposures[baseAsset] ?? 0) + position.baseBalance;
+      exposures[quoteAsset] = (exposures[quoteAsset] ?? 0) + position.quoteBalance;
+    }
+    return exposures;
+  }
+
+  getState(): PortfolioState {
+    const symbols = this.getExposures();
+    let realizedPnL = 0;
+    let unrealizedPnL = 0;
+
+    for (const member of this.members.values()) {
+      const ledger = member.marketMaker.getLedger();
+      realizedPnL += ledger.getRealizedPnL();
+      unrealizedPnL += ledger.getUnrealizedPnL(member.markPrice);
+    }
+
+    return {
+      symbols,
+      assetExposures: this.getAssetExposures(),
+      grossNotional: symbols.reduce((sum, exposure) => sum + Math.abs(exposure.notional), 0),
+      netNotional: symbols.reduce((sum, exposure) => sum + exposure.notional, 0),
+      realizedPnL,
+      unrealizedPnL,
+    };
+  }
+
+  private getMember(symbol: string): PortfolioMember {
+    const member = this.members.get(symbol);
+    if (!member) {
+      throw new Error(`Unknown symbol: ${symbol}`);
+    }
+    return member;
+  }
+
+  updateConfig(config: Partial<PortfolioConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): PortfolioConfig {
+    return { ...this.config };
+  }
+}
+
+function getOpenOrderTotals(member: PortfolioMember, exclude: OrderFilter): OpenOrderTotals {
+  const totals: OpenOrderTotals = { buySize: 0, sellSize: 0, buyNotional: 0, sellNotional: 0 };
+  for (const order of member.marketMaker.getActiveOrders()) {
+    if (exclude(member, order)) continue;
+
+    const open = order.size - order.filledSize;
+    if (order.side === 'buy') {
+      totals.buySize += open;
+      totals.buyNotional += open * order.price;
+    } else {
+      totals.sellSize += open;
+      totals.sellNotional += open * order.price;
+    }
+  }
+  return totals;
+}
+
+// Keeps levels nearest the touch first and drops any that would fall below
+// the minimum order size once the side's size and notional caps are spent.
+function capLevels(
+  levels: QuoteLadderLevel[],
+  maxSize: number,
+  maxNotional: number,
+  minOrderSize: number,
+  sizeTickSize: number
+): QuoteLadderLevel[] {
+  const capped: QuoteLadderLevel[] = [];
+  let remainingSize = maxSize;
+  let remainingNotional = maxNotional;
+
+  for (const level of levels) {
+    const size = floorToTick(Math.min(level.size, remainingSize, remainingNotional / level.price), sizeTickSize);
+    if (size <= 0 || size < minOrderSize) break;
+
+    capped.push({ ...level, size });
+    remainingSize -= size;
+    remainingNotional -= size * level.price;
+  }
+  return capped;
+}
+
+function roundToTick(value: number, tickSize: number): number {
+  return Math.round(value / tickSize) * tickSize;
+}
+
+function floorToTick(value: number, tickSize: number): number {
+  if (!isFinite(value)) return value;
+  return Math.floor(value / tickSize + 1e-9) * tickSize;
+}
@@ -0,0 +1,82 @@
+import type { Order, PreTradeCheck, PreTradeContext, PreTradeRejection } from './types';
+
+// Relative distance from the tick grid still treated as on-tick float noise
+const TICK_TOLERANCE = 1e-6;
+
+export function checkInventoryHeadroom(order: Order, context: PreTradeContext): PreTradeRejection | null {
+  if (context.headroom > 0) return null;
+  return {
+    code: 'inventory-headroom',
+    message: `No ${order.side} headroom left within inventory and exposure limits`,
+  };
+}
+
+// Runs on the size left after clipping to the headroom
+export function checkMinimumSize(order: Order, context: PreTradeContext): PreTradeRejection | null {
+  if (order.size >= context.minOrderSize) return null;
+  return {
+    code: 'size-below-minimum',
+    message: `Size ${order.size} is below the minimum order size ${context.minOrderSize}`,
+  };
+}
+
+export function checkPriceTick(order: Order, context: PreTradeContext): PreTradeRejection | null {
+  const ticks = order.price / context.priceTickSize;
+  if (order.price > 0 && Math.abs(ticks - Math.round(ticks)) <= TICK_TOLERANCE) return null;
+  return {
+    code: 'price-off-tick',
+    message: `Price ${order.price} is not a positive multiple of the tick size ${context.priceTickSize}`,
+  };
+}
+
+// Skipped until there is a reference price
+export function checkPriceBand(order: Order, context: PreTradeContext): PreTradeRejection | null {
+  const { referencePrice } = context;
+  const { maxPriceDeviation } = context.config;
+  if (referencePrice === null || referencePrice <= 0) return null;
+
+  const deviation = Math.abs(order.price / referencePrice - 1);
+  if (deviation <= maxPriceDeviation) return null;
+  return {
+    code: 'price-band',
+    message: `Price ${order.price} is ${(deviation * 100).toFixed(2)}% from mid ${referencePrice}, limit ${(maxPriceDeviation * 100).toFixed(2)}%`,
+  };
+}
+
+// Whether `order` would trade against `resting` if both were on the book
+export function crosses(order: Order, resting: Order): boolean {
+  return resting.side !== order.side &&
+    (order.side === 'buy' ? order.price >= resting.price : order.price <= resting.price);
+}
+
+export function checkSelfTrade(order: Order, context: PreTradeContext): PreTradeRejection | null {
+  if (!context.config.selfTradePrevention) return null;
+
+  const crossed = context.restingOrders.find(resting => crosses(order, resting));
+  if (!crossed) return null;
+  return {
+    code: 'self-trade',
+    message: `${order.side === 'buy' ? 'Buy' : 'Sell'} at ${order.price} would cross our own ${crossed.side} order ${crossed.id} at ${crossed.price}`,
+  };
+}
+
+export const DEFAULT_PRE_TRADE_CHECKS: readonly PreTradeCheck[] = [
+  checkPriceTick,
+  checkInventoryHeadroom,
+  checkMinimumSize,
+  checkPriceBand,
+  checkSelfTrade,
+];
+
+// First failing check wins, so the order of `checks` sets which reason is reported
+export function runPreTradeChecks(
+  order: Order,
+  context: PreTradeContext,
+  checks: readonly PreTradeCheck[] = DEFAULT_PRE_TRADE_CHECKS
+): PreTradeRejection | null {
+  for (const check of checks) {
+    const rejection = check(order, context);
+    if (rejection) return rejection;
+  }
+  return null;
+}
@@ -0,0 +1,220 @@
+import type {
+  Clock,
+  MarketData,
+  MarketDataSource,
+  OrderBook,
+  QuoteCycleResult,
+  QuoteCycleStatus,
+  QuotingEngineConfig,
+  QuotingEngineState,
+} from './types';
+import { MarketMaker } from './marketMaker';
+
+const DEFAULT_QUOTING_ENGINE_CONFIG: QuotingEngineConfig = {
+  mode: 'interval',
+  priceTolerance: 0.0005,
+  sizeTolerance: 0.1,
+  initialBackoffMs: 1000,
+  maxBackoffMs: 30000,
+  backoffMultiplier: 2,
+};
+
+export class QuotingEngine {
+  private config: QuotingEngineConfig;
+  private marketMaker: MarketMaker;
+  private source: MarketDataSource;
+  private clock: Clock;
+  private running: boolean = false;
+  private inFlight: Promise<QuoteCycleResult> | null = null;
+  private pendingEvent: { marketData: MarketData; orderBook?: OrderBook } | null = null;
+  private cancelTimer: (() => void) | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private cycles: number = 0;
+  private consecutiveErrors: number = 0;
+  private lastError: Error | null = null;
+  private lastCycleTime: number | null = null;
+  private nextCycleTime: number | null = null;
+  private backoffUntil: number = 0;
+
+  constructor(
+    marketMaker: MarketMaker,
+    source: MarketDataSource,
+    config: Partial<QuotingEngineConfig> = {},
+    clock: Clock = marketMaker.getClock()
+  ) {
+    this.config = { ...DEFAULT_QUOTING_ENGINE_CONFIG, ...config };
+    this.marketMaker = marketMaker;
+    this.source = source;
+    this.clock = clock;
+  }
+
+  start(): void {
+    if (this.running) return;
+    if (this.config.mode === 'event' && !this.source.subscribe) {
+      throw new Error('Market data source does not support subscriptions');
+    }
+
+    this.running = true;
+    this.backoffUntil = 0;
+    this.marketMaker.start();
+
+    if (this.config.mode === 'event' && this.source.subscribe) {
+      this.unsubscribe = this.source.subscribe((marketData, orderBook) => this.onMarketData(marketData, orderBook));
+    } else {
+      this.scheduleNext(0);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+
+    this.running = false;
+    this.pendingEvent = null;
+    this.nextCycleTime = null;
+    if (this.cancelTimer) {
+      this.cancelTimer();
+      this.cancelTimer = null;
+    }
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+
+    await this.whenIdle();
+    this.marketMaker.stop();
+  }
+
+  // Runs one quote cycle, after any cycle already in flight. Passing market
+  // data skips the pull from the source.
+  step(marketData?: MarketData, orderBook?: OrderBook): Promise<QuoteCycleResult> {
+    const previous = this.inFlight ?? Promise.resolve();
+    const cycle = previous.then(() => this.runCycle(marketData, orderBook));
+
+    this.inFlight = cycle;
+    void cycle.then(() => {
+      if (this.inFlight === cycle) this.inFlight = null;
+    });
+    return cycle;
+  }
+
+  async whenIdle(): Promise<void> {
+    while (this.inFlight) {
+      await this.inFlight;
+    }
+  }
+
+  private async runCycle(marketData?: MarketData, orderBook?: OrderBook): Promise<QuoteCycleResult> {
+    const timestamp = this.clock.now();
+    this.cycles++;
+    this.lastCycleTime = timestamp;
+
+    try {
+      let data = marketData ?? null;
+      let book = orderBook ?? null;
+      if (!data) {
+        data = await this.source.getMarketData();
+        book = this.source.getOrderBook ? await this.source.getOrderBook() : null;
+      }
+
+      if (!data) return this.complete('skipped', timestamp);
+      if (this.marketMaker.isHalted()) return this.complete('halted', timestamp);
+
+      const quote = this.marketMaker.generateQuotes(data, book ?? undefined);
+      if (this.marketMaker.isHalted()) return this.complete('halted', timestamp);
+
+      const orders = this.marketMaker.updateQuotes(
+        quote,
+        this.config.priceTolerance,
+        this.config.sizeTolerance
+      );
+      return { ...this.complete('quoted', timestamp), quote, orders };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.consecutiveErrors++;
+      this.lastError = err;
+      return { status: 'error', timestamp, quote: null, orders: null, error: err };
+    }
+  }
+
+  private complete(status: QuoteCycleStatus, timestamp: number): QuoteCycleResult {
+    this.consecutiveErrors = 0;
+    return { status, timestamp, quote: null, orders: null, error: null };
+  }
+
+  private scheduleNext(delayMs: number): void {
+    this.nextCycleTime = this.clock.now() + delayMs;
+    this.cancelTimer = this.clock.schedule(() => {
+      this.cancelTimer = null;
+      this.nextCycleTime = null;
+
+      void this.step().then(result => {
+        if (!this.running) return;
+
+        const delay = result.status === 'error'
+          ? this.getBackoffMs()
+          : result.timestamp + this.marketMaker.getConfig().updateIntervalMs - this.clock.now();
+        this.scheduleNext(Math.max(0, delay));
+      });
+    }, delayMs);
+  }
+
+  private onMarketData(marketData: MarketData, orderBook?: OrderBook): void {
+    if (!this.running || this.clock.now() < this.backoffUntil) return;
+
+    // Coalesce bursts: only the latest update received mid-cycle is quoted
+    if (this.inFlight) {
+      this.pendingEvent = { marketData, orderBook };
+      return;
+    }
+
+    void this.step(marketData, orderBook).then(result => {
+      if (result.status === 'error') {
+        this.backoffUntil = this.clock.now() + this.getBackoffMs();
+      }
+
+      const pending = this.pendingEvent;
+      this.pendingEvent = null;
+      if (pending) {
+        this.onMarketData(pending.marketData, pending.orderBook);
+      }
+    });
+  }
+
+  getBackoffMs(): number {
+    if (this.consecutiveErrors === 0) return 0;
+
+    const backoff = this.config.initialBackoffMs
+      * Math.pow(this.config.backoffMultiplier, this.consecutiveErrors - 1);
+    return Math.min(this.config.maxBackoffMs, backoff);
+  }
+
+  getState(): QuotingEngineState {
+    return {
+      running: this.running,
+      cycles: this.cycles,
+      consecutiveErrors: this.consecutiveErrors,
+      lastError: this.lastError ? this.lastError.message : null,
+      lastCycleTime: this.lastCycleTime,
+      nextCycleTime: this.nextCycleTime,
+    };
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getMarketMaker(): MarketMaker {
+    return this.marketMaker;
+  }
+
+  updateConfig(config: Partial<QuotingEngineConfig>): void {
+    if (this.running && config.mode && config.mode !== this.config.mode) {
+      throw new Error('Cannot change quoting mode while running');
+    }
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): QuotingEngineConfig {
+    return { ...this.config };
+  }
+}
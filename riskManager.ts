@@ -0,0 +1,251 @@
+import type {
+  Clock,
+  MarketData,
+  RiskBreach,
+  RiskBreachType,
+  RiskConfig,
+  RiskManagerSnapshot,
+  RiskSnapshot,
+  RiskState,
+} from './types';
+import { SystemClock } from './clock';
+
+const DEFAULT_RISK_CONFIG: RiskConfig = {
+  maxNotionalExposure: 1000000,
+  maxDailyLoss: 10000,
+  maxTotalLoss: 50000,
+  maxDrawdown: 20000,
+  maxOrdersPerInterval: 100,
+  orderRateIntervalMs: 1000,
+  maxVolatility: 0.5,
+  maxPriceMove: 0.1,
+  priceMoveWindowMs: 60000,
+  maxOracleDeviation: 0.05,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RiskManager {
+  private config: RiskConfig;
+  private haltReason: RiskBreach | null = null;
+  private orderTimestamps: number[] = [];
+  private priceHistory: { timestamp: number; price: number }[] = [];
+  private peakEquity: number = 0;
+  private currentEquity: number = 0;
+  private currentDay: number = -1;
+  private dayStartEquity: number = 0;
+  private clock: Clock;
+
+  constructor(config: Partial<RiskConfig> = {}, clock: Clock = new SystemClock()) {
+    this.config = { ...DEFAULT_RISK_CONFIG, ...config };
+    this.clock = clock;
+  }
+
+  isHalted(): boolean {
+    return this.haltReason !== null;
+  }
+
+  getHaltReason(): RiskBreach | null {
+    return this.haltReason ? { ...this.haltReason } : null;
+  }
+
+  checkOrderRate(timestamp: number = this.clock.now()): RiskBreach | null {
+    if (this.haltReason) return this.haltReason;
+
+    const windowStart = timestamp - this.config.orderRateIntervalMs;
+    this.orderTimestamps = this.orderTimestamps.filter(t => t > windowStart);
+
+    if (this.orderTimestamps.length >= this.config.maxOrdersPerInterval) {
+      return this.breach(
+        'order-rate',
+        `Order rate limit exceeded: ${this.orderTimestamps.length + 1} orders in ${this.config.orderRateIntervalMs}ms`,
+        this.orderTimestamps.length + 1,
+        this.config.maxOrdersPerInterval,
+        timestamp
+      );
+    }
+
+    this.orderTimestamps.push(timestamp);
+    return null;
+  }
+
+  getMaxOrderSize(side: 'buy' | 'sell', inventory: number, openSize: number, price: number): number {
+    if (price <= 0) return 0;
+
+    const maxPosition = this.config.maxNotionalExposure / price;
+    const worstCase = side === 'buy' ? inventory + openSize : inventory - openSize;
+    const headroom = side === 'buy' ? maxPosition - worstCase : maxPosition + worstCase;
+    return Math.max(0, headroom);
+  }
+
+  checkMarketData(marketData: MarketData, timestamp: number = this.clock.now()): RiskBreach | null {
+    if (this.haltReason) return this.haltReason;
+
+    if (marketData.volatility > this.config.maxVolatility) {
+      return this.breach(
+        'volatility',
+        `Volatility circuit breaker: ${marketData.volatility} > ${this.config.maxVolatility}`,
+        marketData.volatility,
+        this.config.maxVolatility,
+        timestamp
+      );
+    }
+
+    const price = (marketData.bidPrice + marketData.askPrice) / 2;
+    const windowStart = timestamp - this.config.priceMoveWindowMs;
+    this.priceHistory = this.priceHistory.filter(entry => entry.timestamp > windowStart);
+    this.priceHistory.push({ timestamp, price });
+
+    const reference = this.priceHistory[0].price;
+    const move = reference > 0 ? Math.abs(price - reference) / reference : 0;
+    if (move > this.config.maxPriceMove) {
+      return this.breach(
+        'price-move',
+        `Price circuit breaker: ${(move * 100).toFixed(2)}% move in ${this.config.priceMoveWindowMs}ms`,
+        move,
+        this.config.maxPriceMove,
+        timestamp
+      );
+    }
+
+    return null;
+  }
+
+  // Sanity band between a market price and a reference such as a pool TWAP
+  checkReferencePrice(price: number, referencePrice: number, timestamp: number = this.clock.now()): RiskBreach | null {
+    if (this.haltReason) return this.haltReason;
+    if (referencePrice <= 0) return null;
+
+    const deviation = Math.abs(price - referencePrice) / referencePrice;
+    if (deviation > this.config.maxOracleDeviation) {
+      return this.breach(
+        'oracle-deviation',
+        `Oracle deviation: price ${price} is ${(deviation * 100).toFixed(2)}% from reference ${referencePrice}`,
+        deviation,
+        this.config.maxOracleDeviation,
+        timestamp
+      );
+    }
+    return null;
+  }
+
+  evaluate(snapshot: RiskSnapshot): RiskBreach | null {
+    if (this.haltReason) return this.haltReason;
+
+    const equity = snapshot.realizedPnL + snapshot.unrealizedPnL;
+    const day = Math.floor(snapshot.timestamp / DAY_MS);
+    if (day !== this.currentDay) {
+      this.currentDay = day;
+      this.dayStartEquity = this.currentEquity;
+    }
+
+    this.currentEquity = equity;
+    this.peakEquity = Math.max(this.peakEquity, equity);
+
+    const exposure = Math.abs(snapshot.inventory * snapshot.markPrice);
+    if (exposure > this.config.maxNotionalExposure) {
+      return this.breach(
+        'notional-exposure',
+        `Notional exposure ${exposure.toFixed(2)} exceeds ${this.config.maxNotionalExposure}`,
+        exposure,
+        this.config.maxNotionalExposure,
+        snapshot.timestamp
+      );
+    }
+
+    const dailyLoss = this.dayStartEquity - equity;
+    if (dailyLoss > this.config.maxDailyLoss) {
+      return this.breach(
+        'daily-loss',
+        `Daily loss ${dailyLoss.toFixed(2)} exceeds ${this.config.maxDailyLoss}`,
+        dailyLoss,
+        this.config.maxDailyLoss,
+        snapshot.timestamp
+      );
+    }
+
+    if (-equity > this.config.maxTotalLoss) {
+      return this.breach(
+        'total-loss',
+        `Total loss ${(-equity).toFixed(2)} exceeds ${this.config.maxTotalLoss}`,
+        -equity,
+        this.config.maxTotalLoss,
+        snapshot.timestamp
+      );
+    }
+
+    const drawdown = this.peakEquity - equity;
+    if (drawdown > this.config.maxDrawdown) {
+      return this.breach(
+        'drawdown',
+        `Drawdown ${drawdown.toFixed(2)} from peak exceeds ${this.config.maxDrawdown}`,
+        drawdown,
+        this.config.maxDrawdown,
+        snapshot.timestamp
+      );
+    }
+
+    return null;
+  }
+
+  private breach(type: RiskBreachType, message: string, value: number, limit: number, timestamp: number): RiskBreach {
+    this.haltReason = { type, message, value, limit, timestamp };
+    return this.haltReason;
+  }
+
+  getState(): RiskState {
+    return {
+      halted: this.isHalted(),
+      haltReason: this.getHaltReason(),
+      peakEquity: this.peakEquity,
+      currentEquity: this.currentEquity,
+      drawdown: this.peakEquity - this.currentEquity,
+      dailyPnL: this.currentEquity - this.dayStartEquity,
+      ordersInInterval: this.orderTimestamps.length,
+    };
+  }
+
+  createSnapshot(): RiskManagerSnapshot {
+    return {
+      haltReason: this.getHaltReason(),
+      orderTimestamps: [...this.orderTimestamps],
+      priceHistory: this.priceHistory.map(entry => ({ ...entry })),
+      peakEquity: this.peakEquity,
+      currentEquity: this.currentEquity,
+      currentDay: this.currentDay,
+      dayStartEquity: this.dayStartEquity,
+    };
+  }
+
+  restoreSnapshot(snapshot: RiskManagerSnapshot): void {
+    this.haltReason = snapshot.haltReason ? { ...snapshot.haltReason } : null;
+    this.orderTimestamps = [...snapshot.orderTimestamps];
+    this.priceHistory = snapshot.priceHistory.map(entry => ({ ...entry }));
+    this.peakEquity = snapshot.peakEquity;
+    this.currentEquity = snapshot.currentEquity;
+    this.currentDay = snapshot.currentDay;
+    this.dayStartEquity = snapshot.dayStartEquity;
+  }
+
+  resetHalt(): void {
+    this.haltReason = null;
+    this.orderTimestamps = [];
+    this.priceHistory = [];
+  }
+
+  updateConfig(config: Partial<RiskConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): RiskConfig {
+    return { ...this.config };
+  }
+
+  reset(): void {
+    this.resetHalt();
+    this.peakEquity = 0;
+    this.currentEquity = 0;
+    this.currentDay = -1;
+    this.dayStartEquity = 0;
+  }
+}
@@ -0,0 +1,362 @@
+import type {
+  RegisteredPool,
+  RoutablePool,
+  RouteHop,
+  RouteLeg,
+  RouteQuote,
+  RoutePath,
+  RouterConfig,
+  SwapType,
+} from './types';
+import { InsufficientLiquidityError, SlippageError } from './poolErrors';
+
+const DEFAULT_ROUTER_CONFIG: RouterConfig = {
+  maxHops: 3,
+  maxSplits: 3,
+  splitSteps: 20,
+};
+
+type ScratchPools = Map<string, RoutablePool>;
+
+export class PoolRegistry {
+  private pools: Map<string, RegisteredPool> = new Map();
+
+  register(id: string, pool: RoutablePool, tokenA: string, tokenB: string): RegisteredPool {
+    if (this.pools.has(id)) {
+      throw new Error(`Pool ${id} already registered`);
+    }
+    if (tokenA === tokenB) {
+      throw new Error('Pool tokens must differ');
+    }
+
+    const registered: RegisteredPool = { id, tokenA, tokenB, pool };
+    this.pools.set(id, registered);
+    return registered;
+  }
+
+  unregister(id: string): boolean {
+    return this.pools.delete(id);
+  }
+
+  get(id: string): RegisteredPool | null {
+    return this.pools.get(id) ?? null;
+  }
+
+  getPools(token?: string): RegisteredPool[] {
+    return Array.from(this.pools.values())
+      .filter(entry => !token || entry.tokenA === token || entry.tokenB === token);
+  }
+
+  getPoolsForPair(tokenX: string, tokenY: string): RegisteredPool[] {
+    return this.getPools(tokenX).filter(entry => entry.tokenA === tokenY || entry.tokenB === tokenY);
+  }
+
+  getTokens(): string[] {
+    const tokens = new Set<string>();
+    this.pools.forEach(entry => tokens.add(entry.tokenA).add(entry.tokenB));
+    return Array.from(tokens);
+  }
+
+  // Price of one tokenX in tokenY on a registered pool
+  getPrice(poolId: string, tokenX: string): number {
+    const entry = this.pools.get(poolId);
+    if (!entry) {
+      throw new Error(`Unknown pool: ${poolId}`);
+    }
+    return entry.pool.getSpotPrice(getSide(entry, tokenX));
+  }
+}
+
+// Routes swaps between named tokens across a PoolRegistry. Quotes simulate
+// every hop on scratch copies of the pools, so legs that share a pool see
+// each other's price impact.
+export class SwapRouter {
+  private config: RouterConfig;
+  private registry: PoolRegistry;
+
+  constructor(registry: PoolRegistry, config: Partial<RouterConfig> = {}) {
+    this.config = { ...DEFAULT_ROUTER_CONFIG, ...config };
+    this.registry = registry;
+  }
+
+  findPaths(tokenIn: string, tokenOut: string, maxHops: number = this.config.maxHops): RoutePath[] {
+    const paths: RoutePath[] = [];
+
+    const visit = (token: string, path: RoutePath) => {
+      if (path.pools.length >= maxHops) return;
+
+      for (const entry of this.registry.getPools(token)) {
+        const next = entry.tokenA === token ? entry.tokenB : entry.tokenA;
+        if (path.tokens.includes(next)) continue;
+
+        const extended = { tokens: [...path.tokens, next], pools: [...path.pools, entry] };
+        if (next === tokenOut) {
+          paths.push(extended);
+        } else {
+          visit(next, extended);
+        }
+      }
+    };
+
+    if (tokenIn !== tokenOut) {
+      visit(tokenIn, { tokens: [tokenIn], pools: [] });
+    }
+    return paths;
+  }
+
+  quoteExactIn(tokenIn: string, tokenOut: string, amountIn: number): RouteQuote {
+    if (amountIn <= 0) {
+      throw new Error('Invalid swap amount');
+    }
+    return this.quote('exact-in', tokenIn, tokenOut, amountIn);
+  }
+
+  quoteExactOut(tokenIn: string, tokenOut: string, amountOut: number): RouteQuote {
+    if (amountOut <= 0) {
+      throw new Error('Invalid swap amount');
+    }
+    return this.quote('exact-out', tokenIn, tokenOut, amountOut);
+  }
+
+  // Splits the order into splitSteps chunks and gives each chunk to the path
+  // with the best marginal price, then re-quotes the chosen split as a whole.
+  private quote(type: SwapType, tokenIn: string, tokenOut: string, amount: number): RouteQuote {
+    const paths = this.rankPaths(type, tokenIn, tokenOut, amount);
+    if (paths.length === 0) {
+      throw new Error(`No route from ${tokenIn} to ${tokenOut}`);
+    }
+
+    const steps = paths.length > 1 ? Math.max(1, Math.floor(this.config.splitSteps)) : 1;
+    const chunk = amount / steps;
+    const allocations = new Array<number>(paths.length).fill(0);
+    const scratch: ScratchPools = new Map();
+
+    for (let step = 0; step < steps; step++) {
+      let best = -1;
+      let bestValue = type === 'exact-in' ? 0 : Infinity;
+
+      paths.forEach((path, index) => {
+        const value = type === 'exact-in'
+          ? simulateExactIn(path, chunk, scratch)
+          : simulateExactOut(path, chunk, scratch);
+        if (type === 'exact-in' ? value > bestValue : value < bestValue) {
+          best = index;
+          bestValue = value;
+        }
+      });
+
+      if (best < 0) {
+        throw new InsufficientLiquidityError(`Insufficient liquidity from ${tokenIn} to ${tokenOut}`);
+      }
+      allocations[best] += chunk;
+      applyPath(paths[best], type === 'exact-in' ? chunk : bestValue, scratch);
+    }
+
+    return this.buildQuote(type, tokenIn, tokenOut, paths, allocations);
+  }
+
+  // Best single paths for the full amount, limited to maxSplits candidates
+  private rankPaths(type: SwapType, tokenIn: string, tokenOut: string, amount: number): RoutePath[] {
+    const scored = this.findPaths(tokenIn, tokenOut)
+      .map(path => ({
+        path,
+        value: type === 'exact-in'
+          ? simulateExactIn(path, amount, new Map())
+          : simulateExactOut(path, amount, new Map()),
+      }))
+      .filter(({ value }) => isFinite(value) && value > 0);
+
+    scored.sort((a, b) => (type === 'exact-in' ? b.value - a.value : a.value - b.value));
+    return scored.slice(0, Math.max(1, this.config.maxSplits)).map(({ path }) => path);
+  }
+
+  private buildQuote(
+    type: SwapType,
+    tokenIn: string,
+    tokenOut: string,
+    paths: RoutePath[],
+    allocations: number[]
+  ): RouteQuote {
+    const scratch: ScratchPools = new Map();
+    const legs: RouteLeg[] = [];
+    let spotOut = 0;
+
+    paths.forEach((path, index) => {
+      const allocation = allocations[index];
+      if (allocation <= 0) return;
+
+      const spotRate = path.pools.reduce(
+        (rate, entry, hop) => rate * entry.pool.getSpotPrice(getSide(entry, path.tokens[hop])),
+        1
+      );
+      const legIn = type === 'exact-in' ? allocation : simulateExactOut(path, allocation, scratch);
+      if (!isFinite(legIn)) {
+        throw new InsufficientLiquidityError(`Insufficient liquidity from ${tokenIn} to ${tokenOut}`);
+      }
+
+      const hops = applyPath(path, legIn, scratch);
+      legs.push({
+        tokens: [...path.tokens],
+        poolIds: path.pools.map(entry => entry.id),
+        amountIn: legIn,
+        amountOut: hops[hops.length - 1].amountOut,
+        hops,
+      });
+      spotOut += legIn * spotRate;
+    });
+
+    const amountIn = legs.reduce((sum, leg) => sum + leg.amountIn, 0);
+    const amountOut = legs.reduce((sum, leg) => sum + leg.amountOut, 0);
+    return {
+      type,
+      tokenIn,
+      tokenOut,
+      amountIn,
+      amountOut,
+      legs,
+      priceImpact: spotOut > 0 ? Math.max(0, 1 - amountOut / spotOut) : 0,
+    };
+  }
+
+  // Replays the quote on scratch copies first and only touches the real
+  // pools once every hop has cleared its minimum output, so a breach leaves
+  // all pools unchanged. Each hop swaps the actual output of the one before.
+  execute(quote: RouteQuote, slippageTolerance: number = 0): RouteQuote {
+    const scratch: ScratchPools = new Map();
+    this.executeLegs(quote, slippageTolerance, entry => getScratch(entry, scratch));
+
+    const legs = this.executeLegs(quote, slippageTolerance, entry => entry.pool);
+    return { ...quote, legs, amountOut: legs.reduce((sum, leg) => sum + leg.amountOut, 0) };
+  }
+
+  private executeLegs(
+    quote: RouteQuote,
+    slippageTolerance: number,
+    resolve: (entry: RegisteredPool) => RoutablePool
+  ): RouteLeg[] {
+    return quote.legs.map(leg => {
+      let amount = leg.amountIn;
+      const hops = leg.hops.map(hop => {
+        const entry = this.getEntry(hop.poolId);
+        const minAmountOut = hop.amountOut * (1 - slippageTolerance);
+        const result = resolve(entry).executeSwap(amount, getSide(entry, hop.tokenIn), minAmountOut);
+        const executed = { ...hop, amountIn: amount, amountOut: result.amountOut };
+        amount = result.amountOut;
+        return executed;
+      });
+      return { ...leg, hops, amountOut: amount };
+    });
+  }
+
+  swapExactIn(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: number,
+    minAmountOut: number = 0
+  ): RouteQuote {
+    const quote = this.quoteExactIn(tokenIn, tokenOut, amountIn);
+    if (quote.amountOut < minAmountOut) {
+      throw new SlippageError(minAmountOut, quote.amountOut);
+    }
+    return this.execute(quote);
+  }
+
+  swapExactOut(
+    tokenIn: string,
+    tokenOut: string,
+    amountOut: number,
+    maxAmountIn: number = Infinity
+  ): RouteQuote {
+    const quote = this.quoteExactOut(tokenIn, tokenOut, amountOut);
+    if (quote.amountIn > maxAmountIn) {
+      throw new SlippageError(maxAmountIn, quote.amountIn, 'max-in');
+    }
+    return this.execute(quote);
+  }
+
+  private getEntry(poolId: string): RegisteredPool {
+    const entry = this.registry.get(poolId);
+    if (!entry) {
+      throw new Error(`Unknown pool: ${poolId}`);
+    }
+    return entry;
+  }
+
+  getRegistry(): PoolRegistry {
+    return this.registry;
+  }
+
+  updateConfig(config: Partial<RouterConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): RouterConfig {
+    return { ...this.config };
+  }
+}
+
+function getSide(entry: RegisteredPool, tokenIn: string): 'A' | 'B' {
+  if (tokenIn === entry.tokenA) return 'A';
+  if (tokenIn === entry.tokenB) return 'B';
+  throw new Error(`Pool ${entry.id} does not trade ${tokenIn}`);
+}
+
+function getScratch(entry: RegisteredPool, scratch: ScratchPools): RoutablePool {
+  let pool = scratch.get(entry.id);
+  if (!pool) {
+    pool = entry.pool.clone();
+    scratch.set(entry.id, pool);
+  }
+  return pool;
+}
+
+function currentPool(entry: RegisteredPool, scratch: ScratchPools): RoutablePool {
+  return scratch.get(entry.id) ?? entry.pool;
+}
+
+function simulateExactIn(path: RoutePath, amountIn: number, scratch: ScratchPools): number {
+  let amount = amountIn;
+  for (let hop = 0; hop < path.pools.length; hop++) {
+    const entry = path.pools[hop];
+    try {
+      amount = currentPool(entry, scratch).simulateSwap(amount, getSide(entry, path.tokens[hop])).amountOut;
+    } catch {
+      return 0;
+    }
+  }
+  return amount;
+}
+
+// Input needed for `amountOut`, walking the path backwards; Infinity when a
+// pool cannot supply it.
+function simulateExactOut(path: RoutePath, amountOut: number, scratch: ScratchPools): number {
+  let amount = amountOut;
+  for (let hop = path.pools.length - 1; hop >= 0; hop--) {
+    const entry = path.pools[hop];
+    try {
+      amount = currentPool(entry, scratch).getAmountIn(amount, getSide(entry, path.tokens[hop + 1]));
+    } catch {
+      return Infinity;
+    }
+    if (!isFinite(amount) || amount <= 0) return Infinity;
+  }
+  return amount;
+}
+
+function applyPath(path: RoutePath, amountIn: number, scratch: ScratchPools): RouteHop[] {
+  const hops: RouteHop[] = [];
+  let amount = amountIn;
+
+  path.pools.forEach((entry, hop) => {
+    const result = getScratch(entry, scratch).executeSwap(amount, getSide(entry, path.tokens[hop]));
+    hops.push({
+      poolId: entry.id,
+      tokenIn: path.tokens[hop],
+      tokenOut: path.tokens[hop + 1],
+      amountIn: amount,
+      amountOut: result.amountOut,
+    });
+    amount = result.amountOut;
+  });
+  return hops;
+}
@@ -0,0 +1,312 @@
+import type {
+  FixedPointPoolSnapshot,
+  InventorySnapshot,
+  LedgerSnapshot,
+  LiquidityPoolSnapshot,
+  MarketMakerSnapshot,
+  Order,
+  PriceOracleSnapshot,
+  SnapshotKind,
+} from './types';
+import { restoreUnboundedLimits, validateMarketMakerConfig } from './config';
+
+export const SNAPSHOT_VERSIONS: Record<SnapshotKind, number> = {
+  'market-maker': 5,
+  inventory: 2,
+  'liquidity-pool': 3,
+  'fixed-point-pool': 1,
+};
+
+type SnapshotMigration = (snapshot: Record<string, unknown>) => Record<string, unknown>;
+
+// Keyed by the version each migration upgrades from
+const SNAPSHOT_MIGRATIONS: Record<SnapshotKind, Record<number, SnapshotMigration>> = {
+  'market-maker': {
+    1: snapshot => {
+      const config = snapshot.config as Record<string, unknown>;
+      const risk = config.risk as Record<string, unknown>;
+      return {
+        ...snapshot,
+        config: {
+          ...config,
+          risk: { ...risk, maxOracleDeviation: 0.05 },
+          oracle: { mode: 'off', priceType: 'arithmetic', windowSeconds: 300 },
+        },
+      };
+    },
+    2: snapshot => ({
+      ...snapshot,
+      config: {
+        ...(snapshot.config as Record<string, unknown>),
+        preTrade: { maxPriceDeviation: 0.05, selfTradePrevention: true },
+      },
+    }),
+    3: snapshot => ({ ...snapshot, idSequence: null }),
+    // Untagged orders were told apart from quotes only by a parent
+    4: snapshot => ({
+      ...snapshot,
+      activeOrders: (snapshot.activeOrders as Order[]).map(order => ({
+        ...order,
+        purpose: order.parentId ? 'manual' : 'quote',
+      })),
+    }),
+  },
+  inventory: {
+    1: snapshot => ({ ...snapshot, lastUpdate: 0 }),
+  },
+  'liquidity-pool': {
+    1: snapshot => ({
+      ...snapshot,
+      feesCollectedA: 0,
+      feesCollectedB: 0,
+      protocolFeesA: 0,
+      protocolFeesB: 0,
+      protocolFeeShare: 0,
+      feeRecipient: 'protocol',
+    }),
+    2: snapshot => ({ ...snapshot, oracle: null }),
+  },
+  'fixed-point-pool': {},
+};
+
+const TOLERANCE = 1e-9;
+
+export function migrateSnapshot<T>(kind: SnapshotKind, snapshot: unknown): T {
+  if (!snapshot || typeof snapshot !== 'object') {
+    throw new Error(`Invalid ${kind} snapshot: expected an object`);
+  }
+
+  let current = { ...(snapshot as Record<string, unknown>) };
+  if (current.kind !== kind) {
+    throw new Error(`Invalid ${kind} snapshot: got kind ${String(current.kind)}`);
+  }
+
+  let version = current.version;
+  const latest = SNAPSHOT_VERSIONS[kind];
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid ${kind} snapshot version: ${String(version)}`);
+  }
+  if (version > latest) {
+    throw new Error(`Unsupported ${kind} snapshot version ${version}; latest is ${latest}`);
+  }
+
+  while (version < latest) {
+    const migration: SnapshotMigration | undefined = SNAPSHOT_MIGRATIONS[kind][version];
+    if (!migration) {
+      throw new Error(`No migration for ${kind} snapshot version ${version}`);
+    }
+    version++;
+    current = { ...migration(current), kind, version };
+  }
+
+  return current as T;
+}
+
+export function validateInventorySnapshot(snapshot: InventorySnapshot): string[] {
+  const issues: string[] = [];
+  const { config } = snapshot;
+
+  if (!isFiniteNumber(snapshot.currentInventory)) {
+    issues.push('currentInventory is not a finite number');
+  }
+  if (!isFiniteNumber(snapshot.avgEntryPrice) || snapshot.avgEntryPrice < 0) {
+    issues.push('avgEntryPrice must be a non-negative number');
+  }
+  if (config.minInventory > config.maxInventory) {
+    issues.push('minInventory exceeds maxInventory');
+  }
+  if (!Array.isArray(snapshot.tradeHistory)) {
+    issues.push('tradeHistory is not an array');
+  }
+
+  return issues;
+}
+
+export function validateLiquidityPoolSnapshot(snapshot: LiquidityPoolSnapshot): string[] {
+  const issues: string[] = [];
+  const { tokenAReserve, tokenBReserve, lpTokenSupply } = snapshot;
+
+  if (!isFiniteNumber(snapshot.fee) || snapshot.fee < 0 || snapshot.fee >= 1) {
+    issues.push('fee must be between 0 and 1');
+  }
+  if (!isFiniteNumber(snapshot.protocolFeeShare) || snapshot.protocolFeeShare < 0 || snapshot.protocolFeeShare > 1) {
+    issues.push('protocolFeeShare must be between 0 and 1');
+  }
+  const { feesCollectedA, feesCollectedB, protocolFeesA, protocolFeesB } = snapshot;
+  if (![feesCollectedA, feesCollectedB, protocolFeesA, protocolFeesB].every(value => isFiniteNumber(value) && value >= 0)) {
+    issues.push('collected and protocol fees must be non-negative numbers');
+  }
+  if (![tokenAReserve, tokenBReserve, lpTokenSupply].every(value => isFiniteNumber(value) && value >= 0)) {
+    issues.push('reserves and LP supply must be non-negative numbers');
+    return issues;
+  }
+
+  const funded = tokenAReserve > 0 && tokenBReserve > 0;
+  if (funded !== lpTokenSupply > 0) {
+    issues.push(`reserves ${tokenAReserve}/${tokenBReserve} do not match LP supply ${lpTokenSupply}`);
+  }
+  // sqrt(k) never falls below the LP supply: it starts above it by the locked
+  // minimum liquidity and only grows with fees.
+  if (Math.sqrt(tokenAReserve * tokenBReserve) < lpTokenSupply * (1 - TOLERANCE)) {
+    issues.push(`reserves imply ${Math.sqrt(tokenAReserve * tokenBReserve)} liquidity, below LP supply ${lpTokenSupply}`);
+  }
+
+  if (snapshot.oracle) {
+    issues.push(...validateOracleSnapshot(snapshot.oracle).map(issue => `oracle: ${issue}`));
+  }
+
+  const owners = new Set<string>();
+  let positionTokens = 0;
+  for (const position of snapshot.positions) {
+    if (owners.has(position.owner)) {
+      issues.push(`duplicate position for ${position.owner}`);
+    }
+    owners.add(position.owner);
+
+    if (!isFiniteNumber(position.lpTokens) || position.lpTokens <= 0) {
+      issues.push(`position ${position.owner} has invalid LP tokens`);
+    }
+    if (position.feeGrowthALast > snapshot.feeGrowthPerLpA + TOLERANCE
+      || position.feeGrowthBLast > snapshot.feeGrowthPerLpB + TOLERANCE) {
+      issues.push(`position ${position.owner} fee growth is ahead of the pool`);
+    }
+    positionTokens += position.lpTokens;
+  }
+  if (positionTokens > lpTokenSupply * (1 + TOLERANCE)) {
+    issues.push(`positions hold ${positionTokens} LP tokens, more than supply ${lpTokenSupply}`);
+  }
+
+  return issues;
+}
+
+export function validateFixedPointPoolSnapshot(snapshot: FixedPointPoolSnapshot): string[] {
+  const issues: string[] = [];
+  const { feeNumerator, feeDenominator, decimalsA, decimalsB } = snapshot.config;
+
+  if (![feeNumerator, feeDenominator].every(Number.isInteger) || feeNumerator <= 0 || feeNumerator > feeDenominator) {
+    issues.push('fee must be integers with 0 < feeNumerator <= feeDenominator');
+  }
+  if (![decimalsA, decimalsB].every(decimals => Number.isInteger(decimals) && decimals >= 0)) {
+    issues.push('decimals must be non-negative integers');
+  }
+  const amounts = [snapshot.reserveA, snapshot.reserveB, snapshot.totalSupply, ...snapshot.balances.map(entry => entry.balance)];
+  if (!amounts.every(isRawAmount)) {
+    issues.push('reserves, LP supply and balances must be non-negative integer strings');
+    return issues;
+  }
+
+  const reserveA = BigInt(snapshot.reserveA);
+  const reserveB = BigInt(snapshot.reserveB);
+  const totalSupply = BigInt(snapshot.totalSupply);
+  const funded = reserveA > 0n && reserveB > 0n;
+  if (funded !== totalSupply > 0n) {
+    issues.push(`reserves ${reserveA}/${reserveB} do not match LP supply ${totalSupply}`);
+  }
+
+  const owners = new Set<string>();
+  let balanceTotal = 0n;
+  for (const { owner, balance } of snapshot.balances) {
+    if (owners.has(owner)) {
+      issues.push(`duplicate balance for ${owner}`);
+    }
+    owners.add(owner);
+    balanceTotal += BigInt(balance);
+  }
+  // The locked minimum liquidity is a balance too, so nothing is unaccounted
+  if (balanceTotal !== totalSupply) {
+    issues.push(`balances hold ${balanceTotal} LP tokens, but supply is ${totalSupply}`);
+  }
+
+  return issues;
+}
+
+function validateOracleSnapshot(oracle: PriceOracleSnapshot): string[] {
+  const issues: string[] = [];
+  const { observations } = oracle;
+
+  if (!Number.isInteger(oracle.cardinality) || oracle.cardinality < 1) {
+    issues.push('cardinality must be a positive integer');
+  } else if (observations.length > oracle.cardinality) {
+    issues.push(`${observations.length} observations exceed cardinality ${oracle.cardinality}`);
+  }
+  if (![oracle.priceACumulative, oracle.priceBCumulative, oracle.logPriceCumulative].every(isFiniteNumber)) {
+    issues.push('cumulatives must be finite numbers');
+  }
+  for (let i = 1; i < observations.length; i++) {
+    if (observations[i].timestamp <= observations[i - 1].timestamp) {
+      issues.push('observations are not in increasing timestamp order');
+      break;
+    }
+  }
+  const latest = observations[observations.length - 1];
+  if (latest && (oracle.lastTimestamp === null || latest.timestamp > oracle.lastTimestamp)) {
+    issues.push('observations are newer than the last update');
+  }
+
+  return issues;
+}
+
+export function validateLedgerSnapshot(snapshot: LedgerSnapshot): string[] {
+  const issues: string[] = [];
+
+  if (snapshot.lots.some(lot => !isFiniteNumber(lot.size) || lot.size === 0 || !isFiniteNumber(lot.price))) {
+    issues.push('ledger has empty or invalid lots');
+  }
+  const signs = new Set(snapshot.lots.map(lot => Math.sign(lot.size)));
+  if (signs.size > 1) {
+    issues.push('ledger has both long and short lots open');
+  }
+  if (snapshot.method === 'average' && snapshot.lots.length > 1) {
+    issues.push('average-cost ledger has more than one lot');
+  }
+
+  return issues;
+}
+
+export function validateMarketMakerSnapshot(snapshot: MarketMakerSnapshot): string[] {
+  const issues: string[] = [
+    ...validateInventorySnapshot(snapshot.inventory).map(issue => `inventory: ${issue}`),
+    ...validateLedgerSnapshot(snapshot.ledger).map(issue => `ledger: ${issue}`),
+    ...(snapshot.pool ? validateLiquidityPoolSnapshot(snapshot.pool).map(issue => `pool: ${issue}`) : []),
+    ...validateMarketMakerConfig(restoreUnboundedLimits(snapshot.config)).map(issue => `config: ${issue}`),
+  ];
+
+  if (snapshot.ledger.method !== snapshot.config.accountingMethod) {
+    issues.push(`ledger method ${snapshot.ledger.method} does not match config ${snapshot.config.accountingMethod}`);
+  }
+
+  if (snapshot.idSequence !== null && (!Number.isInteger(snapshot.idSequence) || snapshot.idSequence < 0)) {
+    issues.push(`idSequence ${snapshot.idSequence} is not a non-negative integer`);
+  }
+
+  const ids = new Set<string>();
+  for (const order of snapshot.activeOrders) {
+    if (ids.has(order.id)) {
+      issues.push(`duplicate order ${order.id}`);
+    }
+    ids.add(order.id);
+
+    if (order.status !== 'pending' && order.status !== 'partial') {
+      issues.push(`active order ${order.id} has status ${order.status}`);
+    }
+    if (order.filledSize < 0 || order.filledSize >= order.size) {
+      issues.push(`active order ${order.id} has filled ${order.filledSize} of ${order.size}`);
+    }
+  }
+
+  return issues;
+}
+
+export function assertValidSnapshot(kind: SnapshotKind, issues: string[]): void {
+  if (issues.length > 0) {
+    throw new Error(`Invalid ${kind} snapshot: ${issues.join('; ')}`);
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+function isRawAmount(value: unknown): value is string {
+  return typeof value === 'string' && /^\d+$/.test(value);
+}
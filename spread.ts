@@ -1,4 +1,6 @@
-import type { SpreadConfig, InventoryState, MarketData, Quote } from './types';
+import type { SpreadConfig, InventoryState, MarketData, Quote, QuoteModel } from './types';
+
+const DEFAULT_PRICE_TICK_SIZE = 0.0001;
 
 const DEFAULT_SPREAD_CONFIG: SpreadConfig = {
   baseSpread: 0.002,
@@ -8,7 +10,7 @@ const DEFAULT_SPREAD_CONFIG: SpreadConfig = {
   inventorySkewMultiplier: 0.5,
 };
 
-export class SpreadCalculator {
+export class SpreadCalculator implements QuoteModel {
   private config: SpreadConfig;
 
   constructor(config: Partial<SpreadConfig> = {}) {
@@ -57,7 +59,8 @@ export class SpreadCalculator {
     midPrice: number,
     marketData: MarketData,
     inventoryState: InventoryState,
-    orderSize: number
+    orderSize: number,
+    priceTickSize: number = DEFAULT_PRICE_TICK_SIZE
   ): Quote {
     const { bidSpread, askSpread } = this.calculateOptimalSpread(marketData, inventoryState);
 
@@ -68,9 +71,9 @@ export class SpreadCalculator {
     const adjustedAskSize = this.adjustOrderSize(orderSize, inventoryState, 'ask');
 
     return {
-      bidPrice: this.roundToTickSize(bidPrice, 0.0001),
+      bidPrice: this.roundToTickSize(bidPrice, priceTickSize),
       bidSize: adjustedBidSize,
-      askPrice: this.roundToTickSize(askPrice, 0.0001),
+      askPrice: this.roundToTickSize(askPrice, priceTickSize),
       askSize: adjustedAskSize,
       spread: askPrice - bidPrice,
       midPrice,
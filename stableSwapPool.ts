@@ -0,0 +1,392 @@
+import type {
+  AmmPool,
+  Clock,
+  StableSwapAddLiquidityResult,
+  StableSwapPoolState,
+  StableSwapRemoveLiquidityResult,
+  SwapResult,
+} from './types';
+import { SystemClock } from './clock';
+import { InsufficientLiquidityError, SlippageError } from './poolErrors';
+
+const DEFAULT_POOL_FEE = 0.0004;
+const DEFAULT_AMPLIFICATION = 100;
+const MAX_ITERATIONS = 255;
+const CONVERGENCE_TOLERANCE = 1e-10;
+const MAX_A_CHANGE = 10;
+
+export class StableSwapPool implements AmmPool {
+  private balances: number[];
+  private lpTokenSupply: number = 0;
+  private fee: number;
+  private initialA: number;
+  private futureA: number;
+  private rampStart: number = 0;
+  private rampEnd: number = 0;
+  private lastUpdate: number;
+  private clock: Clock;
+
+  constructor(
+    tokenCount: number = 2,
+    amplification: number = DEFAULT_AMPLIFICATION,
+    fee: number = DEFAULT_POOL_FEE,
+    clock: Clock = new SystemClock()
+  ) {
+    if (tokenCount < 2 || !Number.isInteger(tokenCount)) {
+      throw new Error('StableSwap pool needs at least two tokens');
+    }
+    if (amplification <= 0) {
+      throw new Error('Amplification must be positive');
+    }
+
+    this.balances = new Array(tokenCount).fill(0);
+    this.initialA = amplification;
+    this.futureA = amplification;
+    this.fee = fee;
+    this.clock = clock;
+    this.lastUpdate = clock.now();
+  }
+
+  getTokenCount(): number {
+    return this.balances.length;
+  }
+
+  getA(): number {
+    const now = this.clock.now();
+    if (now >= this.rampEnd) return this.futureA;
+
+    const progress = (now - this.rampStart) / (this.rampEnd - this.rampStart);
+    return this.initialA + (this.futureA - this.initialA) * progress;
+  }
+
+  rampA(futureA: number, durationMs: number): void {
+    if (futureA <= 0) {
+      throw new Error('Amplification must be positive');
+    }
+    if (durationMs <= 0) {
+      throw new Error('Ramp duration must be positive');
+    }
+
+    const currentA = this.getA();
+    if (futureA > currentA * MAX_A_CHANGE || futureA < currentA / MAX_A_CHANGE) {
+      throw new Error(`Amplification can change by at most ${MAX_A_CHANGE}x per ramp`);
+    }
+
+    this.initialA = currentA;
+    this.futureA = futureA;
+    this.rampStart = this.clock.now();
+    this.rampEnd = this.rampStart + durationMs;
+  }
+
+  stopRampA(): void {
+    const currentA = this.getA();
+    this.initialA = currentA;
+    this.futureA = currentA;
+    this.rampStart = this.clock.now();
+    this.rampEnd = this.rampStart;
+  }
+
+  getState(): StableSwapPoolState {
+    const amplification = this.getA();
+    const invariant = this.lpTokenSupply > 0 ? calculateStableSwapD(this.balances, amplification) : 0;
+
+    return {
+      tokenAReserve: this.balances[0],
+      tokenBReserve: this.balances[1],
+      totalLiquidity: invariant,
+      lpTokenSupply: this.lpTokenSupply,
+      fee: this.fee,
+      lastUpdate: this.lastUpdate,
+      balances: [...this.balances],
+      amplification,
+      virtualPrice: this.lpTokenSupply > 0 ? invariant / this.lpTokenSupply : 0,
+    };
+  }
+
+  getPrice(): number {
+    return this.getSpotPrice(0, 1);
+  }
+
+  getSpotPrice(tokenIn: number, tokenOut: number): number {
+    this.validateTokenPair(tokenIn, tokenOut);
+    if (this.lpTokenSupply === 0) return 0;
+    return this.calculateSpotPrice(this.balances, tokenIn, tokenOut, this.getA());
+  }
+
+  simulateSwap(amountIn: number, tokenIn: 'A' | 'B' | number, tokenOut?: number): SwapResult {
+    if (amountIn <= 0) {
+      throw new Error('Invalid swap amount');
+    }
+    if (this.lpTokenSupply === 0) {
+      throw new Error('Pool not initialized');
+    }
+
+    const { i, j } = this.resolveTokens(tokenIn, tokenOut);
+    const amplification = this.getA();
+    const invariant = calculateStableSwapD(this.balances, amplification);
+
+    const feeAmount = amountIn * this.fee;
+    const amountInAfterFee = amountIn - feeAmount;
+    const newIn = this.balances[i] + amountInAfterFee;
+    const newOut = calculateStableSwapY(i, j, newIn, this.balances, amplification, invariant);
+    const amountOut = this.balances[j] - newOut;
+
+    const spotPriceBefore = this.getSpotPrice(i, j);
+    const executionPrice = amountOut / amountIn;
+    const priceImpact = Math.abs(executionPrice - spotPriceBefore) / spotPriceBefore;
+
+    const newBalances = [...this.balances];
+    newBalances[i] = newIn;
+    newBalances[j] = newOut;
+
+    return {
+      amountIn,
+      amountOut,
+      priceImpact,
+      fee: feeAmount,
+      newPrice: this.calculateSpotPrice(newBalances, 0, 1, amplification),
+    };
+  }
+
+  executeSwap(
+    amountIn: number,
+    tokenIn: 'A' | 'B' | number,
+    minAmountOut: number = 0,
+    tokenOut?: number
+  ): SwapResult {
+    const result = this.simulateSwap(amountIn, tokenIn, tokenOut);
+
+    if (result.amountOut < minAmountOut) {
+      throw new SlippageError(minAmountOut, result.amountOut);
+    }
+
+    const { i, j } = this.resolveTokens(tokenIn, tokenOut);
+    this.balances[i] += amountIn;
+    this.balances[j] -= result.amountOut;
+    this.lastUpdate = this.clock.now();
+
+    return result;
+  }
+
+  getAmountOut(amountIn: number, tokenIn: 'A' | 'B' | number, tokenOut?: number): number {
+    return this.simulateSwap(amountIn, tokenIn, tokenOut).amountOut;
+  }
+
+  getAmountIn(amountOut: number, tokenOut: 'A' | 'B' | number, tokenIn?: number): number {
+    if (amountOut <= 0) return 0;
+
+    const out = tokenOut === 'A' ? 0 : tokenOut === 'B' ? 1 : tokenOut;
+    const input = tokenIn ?? (out === 0 ? 1 : 0);
+    this.validateTokenPair(input, out);
+
+    if (amountOut >= this.balances[out]) {
+      throw new InsufficientLiquidityError();
+    }
+
+    const amplification = this.getA();
+    const invariant = calculateStableSwapD(this.balances, amplification);
+    const newIn = calculateStableSwapY(out, input, this.balances[out] - amountOut, this.balances, amplification, invariant);
+
+    return (newIn - this.balances[input]) / (1 - this.fee);
+  }
+
+  addLiquidity(amounts: number[]): StableSwapAddLiquidityResult {
+    if (amounts.length !== this.balances.length) {
+      throw new Error(`Expected ${this.balances.length} token amounts`);
+    }
+    if (amounts.some(amount => amount < 0)) {
+      throw new Error('Invalid liquidity amounts');
+    }
+
+    const n = this.balances.length;
+    const amplification = this.getA();
+    const fees = new Array(n).fill(0);
+
+    if (this.lpTokenSupply === 0) {
+      if (amounts.some(amount => amount <= 0)) {
+        throw new Error('Initial deposit must include every token');
+      }
+
+      const invariant = calculateStableSwapD(amounts, amplification);
+      this.balances = [...amounts];
+      this.lpTokenSupply = invariant;
+      this.lastUpdate = this.clock.now();
+
+      return this.buildAddResult(amounts, invariant, fees);
+    }
+
+    const oldInvariant = calculateStableSwapD(this.balances, amplification);
+    const newBalances = this.balances.map((balance, index) => balance + amounts[index]);
+    const newInvariant = calculateStableSwapD(newBalances, amplification);
+
+    if (newInvariant <= oldInvariant) {
+      throw new Error('Deposit does not increase liquidity');
+    }
+
+    // Imbalanced deposits pay the swap fee on the portion that deviates from
+    // a proportional deposit, as an equivalent swap would.
+    const imbalanceFee = (this.fee * n) / (4 * (n - 1));
+    const adjustedBalances = newBalances.map((balance, index) => {
+      const ideal = (newInvariant * this.balances[index]) / oldInvariant;
+      fees[index] = imbalanceFee * Math.abs(ideal - balance);
+      return balance - fees[index];
+    });
+    const adjustedInvariant = calculateStableSwapD(adjustedBalances, amplification);
+
+    const lpTokensMinted = (this.lpTokenSupply * (adjustedInvariant - oldInvariant)) / oldInvariant;
+
+    this.balances = newBalances;
+    this.lpTokenSupply += lpTokensMinted;
+    this.lastUpdate = this.clock.now();
+
+    return this.buildAddResult(amounts, lpTokensMinted, fees);
+  }
+
+  private buildAddResult(amounts: number[], lpTokensMinted: number, fees: number[]): StableSwapAddLiquidityResult {
+    return {
+      lpTokensReceived: lpTokensMinted,
+      tokenADeposited: amounts[0],
+      tokenBDeposited: amounts[1],
+      shareOfPool: lpTokensMinted / this.lpTokenSupply,
+      amounts: [...amounts],
+      fees,
+    };
+  }
+
+  removeLiquidity(lpTokens: number): StableSwapRemoveLiquidityResult {
+    if (lpTokens <= 0 || lpTokens > this.lpTokenSupply) {
+      throw new Error('Invalid LP token amount');
+    }
+
+    const shareRatio = lpTokens / this.lpTokenSupply;
+    const amounts = this.balances.map(balance => balance * shareRatio);
+
+    this.balances = this.balances.map((balance, index) => balance - amounts[index]);
+    this.lpTokenSupply -= lpTokens;
+    this.lastUpdate = this.clock.now();
+
+    return {
+      lpTokensBurned: lpTokens,
+      tokenAReceived: amounts[0],
+      tokenBReceived: amounts[1],
+      fee: 0,
+      amounts,
+    };
+  }
+
+  private calculateSpotPrice(balances: number[], tokenIn: number, tokenOut: number, amplification: number): number {
+    const dx = balances[tokenIn] * 1e-6;
+    const invariant = calculateStableSwapD(balances, amplification);
+    const newOut = calculateStableSwapY(tokenIn, tokenOut, balances[tokenIn] + dx, balances, amplification, invariant);
+    return (balances[tokenOut] - newOut) / dx;
+  }
+
+  private resolveTokens(tokenIn: 'A' | 'B' | number, tokenOut?: number): { i: number; j: number } {
+    const i = tokenIn === 'A' ? 0 : tokenIn === 'B' ? 1 : tokenIn;
+    const j = tokenOut ?? (i === 0 ? 1 : 0);
+    this.validateTokenPair(i, j);
+    return { i, j };
+  }
+
+  private validateTokenPair(i: number, j: number): void {
+    const n = this.balances.length;
+    if (i === j || i < 0 || j < 0 || i >= n || j >= n || !Number.isInteger(i) || !Number.isInteger(j)) {
+      throw new Error('Invalid token index');
+    }
+  }
+
+  setFee(fee: number): void {
+    if (fee < 0 || fee >= 1) {
+      throw new Error('Fee must be between 0 and 1');
+    }
+    this.fee = fee;
+  }
+
+  reset(): void {
+    this.balances = this.balances.map(() => 0);
+    this.lpTokenSupply = 0;
+    this.lastUpdate = this.clock.now();
+  }
+}
+
+export function calculateStableSwapD(balances: number[], amplification: number): number {
+  const n = balances.length;
+  const sum = balances.reduce((a, b) => a + b, 0);
+  if (sum === 0) return 0;
+
+  const ann = amplification * n;
+  let invariant = sum;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let productTerm = invariant;
+    for (const balance of balances) {
+      productTerm = (productTerm * invariant) / (balance * n);
+    }
+
+    const previous = invariant;
+    invariant = ((ann * sum + productTerm * n) * invariant) / ((ann - 1) * invariant + (n + 1) * productTerm);
+
+    if (Math.abs(invariant - previous) <= CONVERGENCE_TOLERANCE * invariant) {
+      return invariant;
+    }
+  }
+
+  throw new Error('StableSwap invariant did not converge');
+}
+
+export function calculateStableSwapY(
+  tokenIn: number,
+  tokenOut: number,
+  newBalanceIn: number,
+  balances: number[],
+  amplification: number,
+  invariant: number
+): number {
+  const n = balances.length;
+  const ann = amplification * n;
+  let c = invariant;
+  let sum = 0;
+
+  for (let k = 0; k < n; k++) {
+    if (k === tokenOut) continue;
+    const balance = k === tokenIn ? newBalanceIn : balances[k];
+    sum += balance;
+    c = (c * invariant) / (balance * n);
+  }
+
+  c = (c * invariant) / (ann * n);
+  const b = sum + invariant / ann;
+  let y = invariant;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const previous = y;
+    y = (y * y + c) / (2 * y + b - invariant);
+
+    if (Math.abs(y - previous) <= CONVERGENCE_TOLERANCE * y) {
+      return y;
+    }
+  }
+
+  throw new Error('StableSwap invariant did not converge');
+}
+
+export function estimateStableSwapSlippage(
+  amountIn: number,
+  balances: number[],
+  amplification: number,
+  fee: number = DEFAULT_POOL_FEE,
+  tokenIn: number = 0,
+  tokenOut: number = 1
+): number {
+  const invariant = calculateStableSwapD(balances, amplification);
+
+  const dx = balances[tokenIn] * 1e-6;
+  const spotOut = calculateStableSwapY(tokenIn, tokenOut, balances[tokenIn] + dx, balances, amplification, invariant);
+  const spotPrice = (balances[tokenOut] - spotOut) / dx;
+
+  const amountInAfterFee = amountIn * (1 - fee);
+  const newOut = calculateStableSwapY(tokenIn, tokenOut, balances[tokenIn] + amountInAfterFee, balances, amplification, invariant);
+  const executionPrice = (balances[tokenOut] - newOut) / amountIn;
+
+  return Math.abs(executionPrice - spotPrice) / spotPrice;
+}
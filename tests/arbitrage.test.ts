@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MarketMaker } from '../marketMaker';
+import { ArbitrageEngine } from '../arbitrage';
+import { LiquidityPool } from '../liquidityPool';
+import { DirectionalFeePolicy } from '../poolFees';
+import { ManualClock } from '../clock';
+import type { ArbitrageUnhedgedEvent, DeepPartial, MarketData, MarketMakerConfig } from '../types';
+
+// Pool at 100 against a venue bid of 105: buy A in the pool, sell it on the venue
+const marketData: MarketData = {
+  symbol: 'TEST',
+  lastPrice: 105,
+  bidPrice: 105,
+  askPrice: 105.1,
+  volume24h: 0,
+  high24h: 106,
+  low24h: 104,
+  volatility: 0.01,
+};
+
+function setup(config: DeepPartial<MarketMakerConfig> = {}): { mm: MarketMaker; arb: ArbitrageEngine } {
+  const mm = new MarketMaker({ minOrderSize: 1, ...config }, new ManualClock(1000));
+  mm.initializeLiquidityPool(1000, 100000);
+  return { mm, arb: new ArbitrageEngine(mm) };
+}
+
+test('execute offsets the swap in full with a hedge order', () => {
+  const { mm, arb } = setup();
+  const plan = arb.findOpportunity(marketData);
+  assert.ok(plan);
+  assert.equal(plan.direction, 'buy-pool-sell-venue');
+
+  const { swapTrade, hedgeOrder, hedgeTrade } = arb.execute(plan);
+  assert.equal(hedgeOrder.purpose, 'hedge');
+  assert.equal(hedgeOrder.side, 'sell');
+  assert.ok(hedgeTrade);
+  assert.ok(Math.abs(hedgeTrade.size - swapTrade.size) <= mm.getConfig().sizeTickSize / 2);
+  assert.ok(Math.abs(mm.getInventoryState().currentInventory) <= mm.getConfig().sizeTickSize / 2);
+});
+
+test('execute throws before swapping when the hedge would be rejected', () => {
+  const { mm, arb } = setup({ inventory: { minInventory: -1 } });
+  const plan = arb.findOpportunity(marketData);
+  assert.ok(plan);
+  const reserves = mm.getPoolState();
+
+  assert.throws(() => arb.execute(plan), /inventory-headroom/);
+  assert.deepEqual(mm.getPoolState(), reserves);
+  assert.equal(mm.getInventoryState().currentInventory, 0);
+});
+
+test('a hedge rejected after the swap emits arbitrage-unhedged', () => {
+  const { mm, arb } = setup({ risk: { maxOrdersPerInterval: 1 } });
+  mm.placeOrder('buy', 50, 1);
+  const events: ArbitrageUnhedgedEvent[] = [];
+  arb.on('arbitrage-unhedged', event => events.push(event));
+
+  const execution = arb.execute(arb.findOpportunity(marketData)!);
+  assert.equal(execution.hedgeOrder.rejectReason, 'risk-limit');
+  assert.equal(events.length, 1);
+  assert.equal(events[0].unhedgedSize, execution.swapTrade.size);
+});
+
+test('sizing prices the swap with the pool fee policy', () => {
+  const { mm, arb } = setup();
+  const staticPlan = arb.findOpportunity(marketData)!;
+  const pool = mm.getLiquidityPool() as LiquidityPool;
+  // Buying A in the pool pushes its price away from 100, so the policy
+  // charges more than the static fee
+  pool.setFeePolicy(new DirectionalFeePolicy({ referencePrice: 100 }));
+
+  const plan = arb.findOpportunity(marketData);
+  assert.ok(plan);
+  assert.ok(plan.amountIn < staticPlan.amountIn);
+  const quote = pool.simulateSwap(plan.amountIn, 'B');
+  assert.ok(quote.fee / plan.amountIn > pool.getState().fee);
+  assert.ok(Math.abs(plan.amountOut - quote.amountOut) < 1e-6);
+  assert.ok(Math.abs(plan.poolFee - quote.fee) < 1e-6);
+
+  const { swap } = arb.execute(plan);
+  assert.ok(Math.abs(swap.amountOut - plan.amountOut) < 1e-6);
+});
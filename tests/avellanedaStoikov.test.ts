@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AvellanedaStoikovModel } from '../avellanedaStoikov';
+import { MarketMaker } from '../marketMaker';
+import { ManualClock } from '../clock';
+import type { InventoryState, MarketData } from '../types';
+
+const marketData: MarketData = {
+  symbol: 'TEST',
+  lastPrice: 100,
+  bidPrice: 99.95,
+  askPrice: 100.05,
+  volume24h: 0,
+  high24h: 101,
+  low24h: 99,
+  volatility: 0.01,
+};
+
+function inventory(currentInventory: number): InventoryState {
+  return {
+    currentInventory,
+    targetInventory: 0,
+    inventoryRatio: 0.5,
+    skewFactor: 0,
+    maxInventory: 1000,
+    minInventory: -1000,
+    lastUpdate: 0,
+  };
+}
+
+function isOnTick(price: number, tick: number): boolean {
+  return Math.abs(price / tick - Math.round(price / tick)) < 1e-6;
+}
+
+test('A-S quotes round to the configured tick and pass the pre-trade checks', () => {
+  const mm = new MarketMaker({ quoteModel: 'avellaneda-stoikov', priceTickSize: 0.01 }, new ManualClock(0));
+  const quote = mm.generateQuotes({ ...marketData, bidPrice: 99.937, askPrice: 100.063 });
+
+  assert.ok(isOnTick(quote.bidPrice, 0.01), `bid ${quote.bidPrice}`);
+  assert.ok(isOnTick(quote.askPrice, 0.01), `ask ${quote.askPrice}`);
+  assert.deepEqual(mm.placeOrders(quote).rejectedOrders, []);
+});
+
+test('a long inventory lowers the reservation price', () => {
+  const model = new AvellanedaStoikovModel({ riskAversion: 0.5 });
+  const flat = model.calculateReservation(100, 0.1, inventory(0), 10);
+  const long = model.calculateReservation(100, 0.1, inventory(50), 10);
+  const short = model.calculateReservation(100, 0.1, inventory(-50), 10);
+
+  assert.equal(flat.reservationPrice, 100);
+  assert.ok(long.reservationPrice < 100);
+  assert.ok(short.reservationPrice > 100);
+  assert.equal(long.halfSpread, flat.halfSpread);
+});
+
+test('the spread is clamped to minSpread and maxSpread', () => {
+  const narrow = new AvellanedaStoikovModel({ orderArrivalIntensity: 1e9, minSpread: 0.001 });
+  assert.equal(narrow.calculateReservation(100, 0, inventory(0), 10).halfSpread, 0.0005);
+
+  const wide = new AvellanedaStoikovModel({ orderArrivalIntensity: 0.01, maxSpread: 0.02 });
+  assert.equal(wide.calculateReservation(100, 0, inventory(0), 10).halfSpread, 0.01);
+});
+
+test('time remaining runs down over the session', () => {
+  const clock = new ManualClock(0);
+  const model = new AvellanedaStoikovModel({ timeHorizon: 2, sessionLengthMs: 1000 }, clock);
+  assert.equal(model.getTimeRemaining(), 2);
+  clock.advance(250);
+  assert.equal(model.getTimeRemaining(), 1.5);
+  clock.advance(2000);
+  assert.equal(model.getTimeRemaining(), 0);
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Backtester, parseCsvEvents } from '../backtester';
+import type { BacktestEvent } from '../types';
+
+function createEvents(): BacktestEvent[] {
+  const events: BacktestEvent[] = [];
+  for (let i = 0; i < 60; i++) {
+    const mid = 100 + Math.sin(i / 5);
+    const timestamp = i * 1000;
+    events.push({ type: 'quote', timestamp, bidPrice: mid - 0.05, bidSize: 500, askPrice: mid + 0.05, askSize: 500 });
+    events.push({ type: 'trade', timestamp: timestamp + 500, price: i % 2 === 0 ? mid - 0.5 : mid + 0.5, size: 50, side: i % 2 === 0 ? 'sell' : 'buy' });
+  }
+  return events;
+}
+
+test('replays of the same events produce identical reports', () => {
+  const first = new Backtester({}, { seed: 7, fillModel: 'probabilistic', fillProbability: 0.5 }).run(createEvents());
+  const second = new Backtester({}, { seed: 7, fillModel: 'probabilistic', fillProbability: 0.5 }).run(createEvents());
+
+  assert.deepEqual(first, second);
+  assert.equal(first.eventsProcessed, 120);
+  assert.ok(first.fills.count > 0);
+});
+
+test('fills move inventory on the side that traded', () => {
+  const report = new Backtester({}, { fillModel: 'touch-through' }).run(createEvents());
+
+  assert.equal(report.fills.count, report.fills.buyCount + report.fills.sellCount);
+  const last = report.inventoryPath[report.inventoryPath.length - 1];
+  assert.ok(Math.abs(last.inventory - (report.fills.buyVolume - report.fills.sellVolume)) < 1e-9);
+});
+
+test('parseCsvEvents reads quote and trade rows', () => {
+  const events = parseCsvEvents([
+    'type,timestamp,bidPrice,bidSize,askPrice,askSize,price,size,side',
+    'quote,1000,99.9,10,100.1,12,,,',
+    'trade,1500,,,,,100.1,3,buy',
+  ].join('\n'));
+
+  assert.equal(events.length, 2);
+  assert.deepEqual(events[1], { type: 'trade', timestamp: 1500, price: 100.1, size: 3, side: 'buy' });
+});
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  ConcentratedLiquidityPool,
+  getLiquidityForAmounts,
+  priceToTick,
+  tickToPrice,
+  tickToSqrtPrice,
+} from '../concentratedLiquidityPool';
+import { ManualClock } from '../clock';
+import { InsufficientLiquidityError } from '../poolErrors';
+
+function createPool(): ConcentratedLiquidityPool {
+  const pool = new ConcentratedLiquidityPool(0.003, 60, new ManualClock(0));
+  pool.initialize(1);
+  return pool;
+}
+
+function assertClose(actual: number, expected: number, tolerance: number = 1e-9): void {
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} != ${expected}`);
+}
+
+test('ticks and prices convert both ways', () => {
+  for (const tick of [-887272, -6000, -1, 0, 1, 60, 887272]) {
+    assert.equal(priceToTick(tickToPrice(tick)), tick);
+  }
+
+  const pool = createPool();
+  assert.equal(pool.nearestUsableTick(1.0061), 60);
+  assert.throws(() => pool.addLiquidity(-50, 60, 1, 1), /multiples of tick spacing 60/);
+  assert.throws(() => pool.addLiquidity(60, -60, 1, 1), /Lower tick must be below upper tick/);
+});
+
+test('a range away from the price deposits only one token', () => {
+  const pool = createPool();
+  const above = pool.addLiquidity(600, 1200, 100, 100, 'alice');
+  const below = pool.addLiquidity(-1200, -600, 100, 100, 'bob');
+
+  assertClose(above.tokenADeposited, 100);
+  assert.equal(above.tokenBDeposited, 0);
+  assert.equal(below.tokenADeposited, 0);
+  assertClose(below.tokenBDeposited, 100);
+  assert.equal(pool.getActiveLiquidity(), 0);
+  assert.ok(!pool.getLiquidityPosition(above.positionId).inRange);
+});
+
+test('a swap inside one range follows the constant-liquidity curve', () => {
+  const pool = createPool();
+  const { liquidity } = pool.addLiquidity(-600, 600, 1000, 1000);
+  assertClose(liquidity, getLiquidityForAmounts(1, tickToSqrtPrice(-600), tickToSqrtPrice(600), 1000, 1000));
+
+  const amountIn = 10 * (1 - 0.003);
+  const sqrtPrice = liquidity / (liquidity + amountIn);
+  const result = pool.executeSwap(10, 'A');
+
+  assertClose(result.amountOut, liquidity * (1 - sqrtPrice));
+  assertClose(result.fee, 0.03);
+  assertClose(pool.getPrice(), sqrtPrice * sqrtPrice);
+  assert.equal(pool.getState().currentTick, priceToTick(sqrtPrice * sqrtPrice));
+});
+
+test('crossing a range boundary drops its liquidity', () => {
+  const pool = createPool();
+  const wide = pool.addLiquidity(-6000, 6000, 1000, 1000);
+  const narrow = pool.addLiquidity(-60, 60, 10, 10);
+  assertClose(pool.getActiveLiquidity(), wide.liquidity + narrow.liquidity, 1e-6);
+
+  pool.executeSwap(100, 'A');
+  assert.ok(pool.getState().currentTick < -60);
+  assertClose(pool.getActiveLiquidity(), wide.liquidity, 1e-6);
+  assert.ok(!pool.getLiquidityPosition(narrow.positionId).inRange);
+
+  pool.executeSwap(pool.getState().tokenBReserve, 'B');
+  assert.ok(pool.getState().currentTick >= 60);
+});
+
+test('a swap past the last range fails and leaves the pool unchanged', () => {
+  const pool = createPool();
+  pool.addLiquidity(-60, 60, 10, 10);
+  const before = pool.getState();
+
+  assert.throws(() => pool.executeSwap(1000, 'A'), InsufficientLiquidityError);
+  assert.deepEqual(pool.getState(), before);
+});
+
+test('only in-range positions earn fees', () => {
+  const pool = createPool();
+  const active = pool.addLiquidity(-600, 600, 1000, 1000, 'alice');
+  const idle = pool.addLiquidity(600, 1200, 1000, 0, 'bob');
+
+  pool.executeSwap(10, 'A');
+  pool.executeSwap(10, 'B');
+
+  const fees = pool.collectFees(active.positionId);
+  assertClose(fees.feesA, 0.03);
+  assertClose(fees.feesB, 0.03);
+  assert.deepEqual(pool.collectFees(idle.positionId), { feesA: 0, feesB: 0 });
+  assert.deepEqual(pool.collectFees(active.positionId), { feesA: 0, feesB: 0 });
+});
+
+test('removing a whole position returns its deposit and deletes it', () => {
+  const pool = createPool();
+  const added = pool.addLiquidity(-600, 600, 1000, 1000, 'alice');
+  const removed = pool.removeLiquidity(added.positionId);
+
+  assertClose(removed.tokenAReceived, added.tokenADeposited);
+  assertClose(removed.tokenBReceived, added.tokenBDeposited);
+  assert.deepEqual(pool.getPositions('alice'), []);
+  assert.throws(() => pool.removeLiquidity(added.positionId), /Position not found/);
+});
@@ -0,0 +1,222 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createMarketMakerConfig,
+  getDefaultMarketMakerConfig,
+  getEnvOverrides,
+  mergeConfig,
+  validateMarketMakerConfig,
+} from '../config';
+import { ConfigWatcher, loadMarketMakerConfig } from '../configLoader';
+import { parseYaml } from '../yaml';
+import { MarketMaker } from '../marketMaker';
+import { ManualClock } from '../clock';
+import type { ConfigAppliedEvent, ConfigRejectedEvent } from '../types';
+
+function withTempDir(run: (dir: string) => void): void {
+  const dir = mkdtempSync(join(tmpdir(), 'mm-config-'));
+  try {
+    run(dir);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('partial configs merge field by field onto the defaults', () => {
+  const defaults = getDefaultMarketMakerConfig();
+  const config = createMarketMakerConfig({ spread: { baseSpread: 0.003 } });
+
+  assert.equal(config.spread.baseSpread, 0.003);
+  assert.equal(config.spread.minSpread, defaults.spread.minSpread);
+  assert.deepEqual(config.risk, defaults.risk);
+  assert.equal(getDefaultMarketMakerConfig().spread.baseSpread, defaults.spread.baseSpread);
+});
+
+test('mergeConfig replaces arrays and leaves its inputs untouched', () => {
+  const base = { levels: [1, 2, 3], nested: { a: 1, b: 2 } };
+  const merged = mergeConfig(base, { levels: [4], nested: { b: 5 } });
+
+  assert.deepEqual(merged, { levels: [4], nested: { a: 1, b: 5 } });
+  assert.deepEqual(base, { levels: [1, 2, 3], nested: { a: 1, b: 2 } });
+});
+
+test('validation reports each invalid field by path', () => {
+  const config = mergeConfig(getDefaultMarketMakerConfig(), {
+    priceTickSize: 0,
+    ladder: { levels: 1.5 },
+  });
+  (config.spread as { extra?: number }).extra = 1;
+
+  assert.deepEqual(validateMarketMakerConfig(config), [
+    'spread.extra: unknown field',
+    'ladder.levels: must be an integer, got 1.5',
+    'priceTickSize: must be > 0, got 0',
+  ]);
+});
+
+test('cross-field ordering is checked once every field is valid', () => {
+  const config = mergeConfig(getDefaultMarketMakerConfig(), { spread: { minSpread: 0.01, maxSpread: 0.005 } });
+  assert.deepEqual(validateMarketMakerConfig(config), [
+    'spread.minSpread: must be <= spread.maxSpread (0.005), got 0.01',
+  ]);
+  assert.throws(() => createMarketMakerConfig({ inventory: { targetInventory: 5000 } }), /inventory\.targetInventory/);
+});
+
+test('environment overrides map onto config paths and skip unknown names', () => {
+  const { overrides, ignored } = getEnvOverrides({
+    MM_SPREAD__BASE_SPREAD: '0.0025',
+    MM_oracle__mode: 'band',
+    MM_PRE_TRADE__SELF_TRADE_PREVENTION: 'false',
+    MM_LOG_LEVEL: 'debug',
+    OTHER_VAR: '1',
+  });
+
+  assert.deepEqual(overrides, {
+    spread: { baseSpread: 0.0025 },
+    oracle: { mode: 'band' },
+    preTrade: { selfTradePrevention: false },
+  });
+  assert.deepEqual(ignored, ['MM_LOG_LEVEL']);
+});
+
+test('loadMarketMakerConfig reads JSON and YAML files with env overrides on top', () => {
+  withTempDir(dir => {
+    const jsonPath = join(dir, 'maker.json');
+    writeFileSync(jsonPath, JSON.stringify({ spread: { baseSpread: 0.003 } }));
+    const yamlPath = join(dir, 'maker.yaml');
+    writeFileSync(yamlPath, 'spread:\n  baseSpread: 0.003\nladder: { levels: 3, spacing: bps }\n');
+
+    const json = loadMarketMakerConfig(jsonPath, { env: { MM_ORDER_SIZE: '50' } });
+    assert.equal(json.spread.baseSpread, 0.003);
+    assert.equal(json.orderSize, 50);
+
+    const yaml = loadMarketMakerConfig(yamlPath, { env: {} });
+    assert.equal(yaml.ladder.levels, 3);
+    assert.equal(yaml.ladder.spacing, 'bps');
+  });
+});
+
+test('loadMarketMakerConfig names the file in every failure', () => {
+  withTempDir(dir => {
+    const path = join(dir, 'maker.yaml');
+    writeFileSync(path, '- 1\n- 2\n');
+    assert.throws(() => loadMarketMakerConfig(path, { env: {} }), /maker\.yaml: expected an object at the top level/);
+
+    writeFileSync(path, 'spread:\n  baseSpread: wide\n');
+    assert.throws(() => loadMarketMakerConfig(path, { env: {} }), /spread\.baseSpread: expected a number, got 'wide'/);
+
+    const toml = join(dir, 'maker.toml');
+    writeFileSync(toml, '');
+    assert.throws(() => loadMarketMakerConfig(toml, { env: {} }), /maker\.toml: Unknown config format/);
+  });
+});
+
+test('parseYaml reads the documented subset', () => {
+  const text = [
+    '---',
+    '# comment',
+    'name: "quoted # not a comment"',
+    "other: 'it''s'",
+    'enabled: true',
+    'limit: .inf',
+    'hex: 0x10',
+    'empty: ~',
+    'nested:',
+    '  list:',
+    '    - 1',
+    '    - key: value',
+    '      more: 2',
+    '  flow: { a: [1, 2], b: x }',
+    '...',
+  ].join('\n');
+
+  assert.deepEqual(parseYaml(text), {
+    name: 'quoted # not a comment',
+    other: "it's",
+    enabled: true,
+    limit: Infinity,
+    hex: 16,
+    empty: null,
+    nested: { list: [1, { key: 'value', more: 2 }], flow: { a: [1, 2], b: 'x' } },
+  });
+});
+
+test('parseYaml keeps Object.prototype names as plain keys', () => {
+  const parsed = parseYaml('constructor: 1\ntoString: { valueOf: 2 }\n__proto__:\n  polluted: true\n') as Record<string, unknown>;
+
+  assert.deepEqual(Object.keys(parsed), ['constructor', 'toString', '__proto__']);
+  assert.equal(parsed.constructor, 1);
+  assert.equal(Object.getPrototypeOf(parsed), Object.prototype);
+  assert.deepEqual(parsed.toString, { valueOf: 2 });
+  assert.equal(({} as Record<string, unknown>).polluted, undefined);
+
+  assert.throws(() => createMarketMakerConfig(parsed), /constructor: unknown field/);
+  assert.throws(() => createMarketMakerConfig(parsed), /__proto__: unknown field/);
+});
+
+test('parseYaml rejects syntax outside the subset with the line number', () => {
+  const cases: [string, RegExp][] = [
+    ['base: &anchor 1', /line 1: unsupported YAML syntax "&anchor 1"/],
+    ['copy: *anchor', /line 1: unsupported YAML syntax/],
+    ['value: !!str 5', /line 1: unsupported YAML syntax/],
+    ['text: |\n  multi\n  line', /line 1: unsupported YAML syntax "\|"/],
+    ['text: >', /line 1: unsupported YAML syntax/],
+    ['list: [a, *b]', /line 1: unsupported YAML syntax "\*b"/],
+    ['text: "starts here\n  ends here"', /line 1: unterminated or multi-line string/],
+    ['text: plain\n  continued', /line 2: unexpected indentation/],
+    ['? complex: key', /line 1: unsupported YAML syntax/],
+    ['a: 1\n---\nb: 2', /line 2: multiple documents are not supported/],
+    ['a: 1\n...\nb: 2', /line 3: content after the end of the document/],
+    ['a:\n\tb: 1', /line 2: tabs are not allowed/],
+    ['a: 1\na: 2', /line 2: duplicate key "a"/],
+    ['flow: { a: 1, a: 2 }', /line 1: duplicate key "a"/],
+  ];
+
+  for (const [text, error] of cases) {
+    assert.throws(() => parseYaml(text), error, text);
+  }
+});
+
+test('ConfigWatcher applies changed fields and rejects invalid files', () => {
+  withTempDir(dir => {
+    const path = join(dir, 'maker.json');
+    writeFileSync(path, JSON.stringify({ spread: { baseSpread: 0.003 } }));
+    const mm = new MarketMaker(loadMarketMakerConfig(path, { env: {} }), new ManualClock(1000));
+    const watcher = new ConfigWatcher(mm, path, { env: {} });
+    const rejected: ConfigRejectedEvent[] = [];
+    watcher.on('config-rejected', event => rejected.push(event));
+
+    assert.equal(watcher.reload(), null);
+
+    writeFileSync(path, JSON.stringify({ spread: { baseSpread: 0.004 }, orderSize: 120 }));
+    const applied = watcher.reload() as ConfigAppliedEvent;
+    assert.deepEqual(applied.changes, ['spread.baseSpread', 'orderSize']);
+    assert.equal(mm.getConfig().orderSize, 120);
+
+    writeFileSync(path, JSON.stringify({ orderSize: -1 }));
+    assert.equal(watcher.reload(), null);
+    assert.equal(rejected.length, 1);
+    assert.equal(mm.getConfig().orderSize, 120);
+  });
+});
+
+test('ConfigWatcher reports ignored environment variables once per change', () => {
+  withTempDir(dir => {
+    const path = join(dir, 'maker.json');
+    writeFileSync(path, JSON.stringify({ orderSize: 120 }));
+    const env: Record<string, string> = { MM_LOG_LEVEL: 'debug' };
+    const mm = new MarketMaker(loadMarketMakerConfig(path, { env }), new ManualClock(1000));
+    const watcher = new ConfigWatcher(mm, path, { env });
+    const ignored: string[][] = [];
+    watcher.on('config-env-ignored', event => ignored.push(event.names));
+
+    watcher.reload();
+    watcher.reload();
+    env.MM_COLOR = 'on';
+    watcher.reload();
+    assert.deepEqual(ignored, [['MM_LOG_LEVEL'], ['MM_LOG_LEVEL', 'MM_COLOR']]);
+  });
+});
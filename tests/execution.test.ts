@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MarketMaker } from '../marketMaker';
+import { ExecutionEngine } from '../execution';
+import { ManualClock } from '../clock';
+import type { MarketData } from '../types';
+
+const marketData: MarketData = {
+  symbol: 'TEST',
+  lastPrice: 100,
+  bidPrice: 99.95,
+  askPrice: 100.05,
+  volume24h: 0,
+  high24h: 101,
+  low24h: 99,
+  volatility: 0.01,
+};
+
+function assertClose(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+}
+
+function setup(): { mm: MarketMaker; execution: ExecutionEngine; clock: ManualClock } {
+  const clock = new ManualClock(0);
+  const mm = new MarketMaker({ minOrderSize: 1 }, clock);
+  return { mm, execution: new ExecutionEngine(mm), clock };
+}
+
+test('TWAP crosses the touch in equal slices and completes on the last one', () => {
+  const { execution, clock } = setup();
+  const parent = execution.submit('buy', 60, { algorithm: 'twap', durationMs: 60000, sliceIntervalMs: 10000 });
+  const filled: number[] = [];
+
+  for (let slice = 0; slice < 6; slice++) {
+    execution.update(marketData);
+    filled.push(execution.getParentOrder(parent.id)!.filledSize);
+    clock.advance(10000);
+  }
+
+  assert.deepEqual(filled, [10, 20, 30, 40, 50, 60]);
+  const done = execution.getParentOrder(parent.id)!;
+  assert.equal(done.status, 'completed');
+  assertClose(done.avgFillPrice, marketData.askPrice);
+});
+
+test('VWAP follows the cumulative volume profile', () => {
+  const { execution, clock } = setup();
+  const parent = execution.submit('sell', 100, { algorithm: 'vwap', durationMs: 20000, volumeProfile: [1, 3] });
+
+  execution.update(marketData);
+  assert.equal(execution.getParentOrder(parent.id)!.filledSize, 25);
+  clock.advance(10000);
+  execution.update(marketData);
+  assert.equal(execution.getParentOrder(parent.id)!.filledSize, 100);
+  assertClose(execution.getParentOrder(parent.id)!.avgFillPrice, marketData.bidPrice);
+});
+
+test('an iceberg shows one display-size child at a time at the near touch', () => {
+  const { mm, execution } = setup();
+  const parent = execution.submit('buy', 30, { algorithm: 'iceberg', displaySize: 10 });
+
+  execution.update(marketData);
+  execution.update(marketData);
+  const [child] = mm.getActiveOrders();
+  assert.equal(mm.getActiveOrders().length, 1);
+  assert.deepEqual([child.size, child.parentId], [10, parent.id]);
+  assertClose(child.price, marketData.bidPrice);
+
+  mm.processFill(child.id, 10, child.price);
+  execution.update(marketData);
+  assert.equal(mm.getActiveOrders().length, 1);
+  assert.notEqual(mm.getActiveOrders()[0].id, child.id);
+  assert.equal(execution.getParentOrder(parent.id)!.filledSize, 10);
+});
+
+test('passive-aggressive rests, then cancels and crosses after passiveMs', () => {
+  const { mm, execution, clock } = setup();
+  const parent = execution.submit('sell', 20, { algorithm: 'passive-aggressive', passiveMs: 5000 });
+
+  execution.update(marketData);
+  const [passive] = mm.getActiveOrders();
+  assertClose(passive.price, marketData.askPrice);
+
+  clock.advance(5000);
+  execution.update(marketData);
+  const done = execution.getParentOrder(parent.id)!;
+  assert.equal(done.status, 'completed');
+  assertClose(done.avgFillPrice, marketData.bidPrice);
+  assert.deepEqual(mm.getActiveOrders(), []);
+});
+
+test('maxParticipation caps the schedule at a share of market volume', () => {
+  const { execution } = setup();
+  const parent = execution.submit('buy', 100, { algorithm: 'twap', durationMs: 10000, maxParticipation: 0.1 });
+
+  execution.update(marketData, 200);
+  assert.equal(execution.getParentOrder(parent.id)!.filledSize, 20);
+  execution.update(marketData, 300);
+  assert.equal(execution.getParentOrder(parent.id)!.filledSize, 50);
+});
+
+test('quote updates leave working children alone and parents expire', () => {
+  const { mm, execution, clock } = setup();
+  const parent = execution.submit('buy', 30, { algorithm: 'iceberg', displaySize: 10, durationMs: 10000 });
+  execution.update(marketData);
+  const [child] = mm.getActiveOrders();
+
+  mm.updateQuotes(mm.generateQuotes({ ...marketData, bidPrice: 99.9, askPrice: 100.1 }));
+  assert.ok(mm.getActiveOrders().some(order => order.id === child.id));
+
+  clock.advance(10000);
+  execution.update(marketData);
+  assert.equal(execution.getParentOrder(parent.id)!.status, 'expired');
+  assert.ok(!mm.getActiveOrders().some(order => order.id === child.id));
+});
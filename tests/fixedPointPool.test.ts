@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  FIXED_POINT_MINIMUM_LIQUIDITY,
+  FixedPointLiquidityPool,
+  formatUnits,
+  parseUnits,
+} from '../fixedPointPool';
+import { ManualClock } from '../clock';
+import type { FixedPointPoolSnapshot } from '../types';
+
+function createPool(): FixedPointLiquidityPool {
+  const pool = new FixedPointLiquidityPool({}, new ManualClock(1000));
+  pool.initialize(1000000n, 2000000n);
+  return pool;
+}
+
+test('the first mint is the floored sqrt of k minus the locked minimum liquidity', () => {
+  const pool = createPool();
+  // sqrt(2e12) = 1414213.56...
+  const locked = '0x0000000000000000000000000000000000000000';
+
+  assert.equal(pool.getBalance(), 1414213n - FIXED_POINT_MINIMUM_LIQUIDITY);
+  assert.equal(pool.getBalance(locked), 1000n);
+  assert.equal(pool.getState().lpTokenSupply, 1414213n);
+});
+
+test('swap amounts use floor division with the 997/1000 fee', () => {
+  const pool = createPool();
+
+  // 1000 * 997 * 2000000 / (1000000 * 1000 + 1000 * 997) = 1992.01...
+  assert.equal(pool.getAmountOut(1000n, 'A'), 1992n);
+  // 1000000 * 1992 * 1000 / ((2000000 - 1992) * 997) = 999.99..., plus one
+  assert.equal(pool.getAmountIn(1992n, 'B'), 1000n);
+
+  const swap = pool.executeSwap(1000n, 'A');
+  assert.equal(swap.fee, 3n);
+  assert.equal(pool.getState().tokenAReserve, 1001000n);
+  assert.equal(pool.getState().tokenBReserve, 1998008n);
+
+  const feeless = new FixedPointLiquidityPool({ feeNumerator: 1000 }, new ManualClock(1000));
+  feeless.initialize(1000000n, 2000000n);
+  // 1000 * 2000000 / 1001000 = 1998.00...
+  assert.equal(feeless.getAmountOut(1000n, 'A'), 1998n);
+});
+
+test('raw units round-trip through each token\'s decimals', () => {
+  const pool = new FixedPointLiquidityPool({ decimalsA: 18, decimalsB: 6 }, new ManualClock(1000));
+
+  assert.equal(pool.toRaw('1.5', 'B'), 1500000n);
+  assert.equal(pool.fromRaw(1500000n, 'B'), '1.5');
+  assert.equal(parseUnits(0.1, 18), 100000000000000000n);
+  assert.equal(parseUnits(1e-7, 8), 10n);
+  assert.equal(formatUnits(parseUnits('123.000456', 6), 6), '123.000456');
+  assert.equal(formatUnits(-1n, 2), '-0.01');
+  assert.throws(() => parseUnits('0.0000001', 6), /more than 6 decimals/);
+
+  pool.initialize(pool.toRaw('1000', 'A'), pool.toRaw('2000000', 'B'));
+  const swap = pool.executeSwap(parseUnits('1', 18), 'A');
+  assert.equal(pool.fromRaw(swap.amountOut, 'B'), '1992.013962');
+});
+
+test('snapshots survive JSON and clones are independent', () => {
+  const pool = createPool();
+  pool.addLiquidity(1000n, 2000n, 'lp');
+  pool.executeSwap(5000n, 'B');
+
+  const snapshot = JSON.parse(JSON.stringify(pool.createSnapshot())) as FixedPointPoolSnapshot;
+  const restored = new FixedPointLiquidityPool({ decimalsA: 6 }, new ManualClock(2000));
+  restored.restoreSnapshot(snapshot);
+  assert.deepEqual(restored.getState(), pool.getState());
+  assert.deepEqual(restored.getBalances(), pool.getBalances());
+  assert.deepEqual(restored.getConfig(), pool.getConfig());
+
+  const copy = pool.clone();
+  copy.executeSwap(1000n, 'A');
+  assert.equal(pool.getState().tokenAReserve, BigInt(snapshot.reserveA));
+
+  assert.throws(
+    () => restored.restoreSnapshot({ ...snapshot, totalSupply: '1' }),
+    /balances hold \d+ LP tokens, but supply is 1/
+  );
+});
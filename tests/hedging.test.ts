@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { HedgingEngine } from '../hedging';
+import { MarketMaker } from '../marketMaker';
+import { MatchingEngine } from '../matchingEngine';
+import { ManualClock } from '../clock';
+import type { HedgeConfig, MarketData, OrderRejectReason } from '../types';
+
+const perpData: MarketData = {
+  symbol: 'PERP',
+  lastPrice: 50,
+  bidPrice: 49.99,
+  askPrice: 50.01,
+  volume24h: 0,
+  high24h: 51,
+  low24h: 49,
+  volatility: 0.01,
+};
+
+function createHedger(config: Partial<HedgeConfig>, hedgeMinOrderSize: number = 1) {
+  const clock = new ManualClock(1000);
+  const mm = new MarketMaker({ priceTickSize: 0.01, minOrderSize: 1 }, clock);
+  const hedgeMaker = new MarketMaker({ priceTickSize: 0.01, minOrderSize: hedgeMinOrderSize }, clock);
+  const hedger = new HedgingEngine(mm, hedgeMaker, { instrument: 'PERP', ...config });
+  return { mm, hedgeMaker, hedger };
+}
+
+// Buys size on the primary maker so its inventory drifts above target
+function drift(mm: MarketMaker, size: number): void {
+  const order = mm.placeOrder('buy', 99.9, size);
+  mm.processFill(order.id, size, 99.9);
+}
+
+test('threshold hedges fully once the unhedged size passes the threshold', () => {
+  const { mm, hedgeMaker, hedger } = createHedger({ policy: 'threshold', threshold: 100 });
+  hedger.attach();
+  hedger.updateMarketData(perpData);
+
+  drift(mm, 80);
+  assert.equal(hedger.getExposure().hedgePosition, 0);
+
+  drift(mm, 70);
+  const exposure = hedger.getExposure();
+  assert.equal(exposure.hedgePosition, -150);
+  assert.equal(exposure.netDelta, 0);
+
+  // The hedge went through the hedge maker's own books
+  assert.equal(hedgeMaker.getInventoryState().currentInventory, -150);
+  assert.equal(hedgeMaker.getLedger().getNetPosition(), -150);
+});
+
+test('band hedges back to the edge of the band', () => {
+  const { mm, hedger } = createHedger({ policy: 'band', threshold: 100, bandTarget: 50 });
+  hedger.updateMarketData(perpData);
+  drift(mm, 150);
+
+  const order = hedger.hedge();
+  assert.equal(order?.side, 'sell');
+  assert.equal(order?.size, 100);
+  assert.equal(order?.price, 49.99);
+  assert.equal(order?.purpose, 'hedge');
+  assert.equal(hedger.getExposure().netDelta, 50);
+  assert.equal(hedger.hedge(), null);
+});
+
+test('continuous hedges every drift of at least minHedgeSize and counts working orders', () => {
+  const { mm, hedgeMaker, hedger } = createHedger({ policy: 'continuous', minHedgeSize: 2 });
+  hedgeMaker.setExecutionVenue(new MatchingEngine(new ManualClock(1000)));
+  hedger.updateMarketData(perpData);
+
+  drift(mm, 1);
+  assert.equal(hedger.hedge(), null);
+
+  drift(mm, 4);
+  const order = hedger.hedge();
+  assert.equal(order?.size, 5);
+  assert.deepEqual(hedger.getActiveOrders().map(active => active.id), [order?.id]);
+
+  // The resting order covers the drift, so nothing more is sent
+  const exposure = hedger.getExposure();
+  assert.equal(exposure.pendingHedge, -5);
+  assert.equal(exposure.hedgePosition, 0);
+  assert.equal(hedger.hedge(), null);
+});
+
+test('a hedge order the hedge maker rejects is reported and not counted', () => {
+  const { mm, hedgeMaker, hedger } = createHedger({ policy: 'continuous' }, 10);
+  const rejected: OrderRejectReason[] = [];
+  hedger.on('hedge-rejected', event => rejected.push(event.code));
+  hedger.updateMarketData(perpData);
+  drift(mm, 5);
+
+  const order = hedger.hedge();
+  assert.equal(order?.status, 'rejected');
+  assert.deepEqual(rejected, ['size-below-minimum']);
+  assert.deepEqual(hedgeMaker.getActiveOrders(), []);
+
+  const exposure = hedger.getExposure();
+  assert.equal(exposure.pendingHedge, 0);
+  assert.equal(exposure.hedgePosition, 0);
+});
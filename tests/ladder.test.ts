@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildQuoteLadder, calculateLevelOffset, calculateLevelSizeWeight } from '../ladder';
+import { MarketMaker } from '../marketMaker';
+import { ManualClock } from '../clock';
+import type { InventoryState, LadderConfig, MarketData, Quote } from '../types';
+
+const quote: Quote = {
+  bidPrice: 99.95,
+  bidSize: 10,
+  askPrice: 100.05,
+  askSize: 10,
+  spread: 0.1,
+  midPrice: 100,
+};
+
+const config: LadderConfig = {
+  levels: 3,
+  spacing: 'bps',
+  spacingValue: 10,
+  spacingRatio: 2,
+  sizeDistribution: 'flat',
+  sizeFactor: 1,
+  inventorySkewMultiplier: 0.5,
+};
+
+function inventory(skewFactor: number): InventoryState {
+  return {
+    currentInventory: 0,
+    targetInventory: 0,
+    inventoryRatio: 0.5,
+    skewFactor,
+    maxInventory: 1000,
+    minInventory: -1000,
+    lastUpdate: 0,
+  };
+}
+
+function assertClose(actual: number, expected: number, message?: string): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9, message ?? `${actual} != ${expected}`);
+}
+
+test('each spacing mode offsets levels from the touch', () => {
+  assert.equal(calculateLevelOffset(0, 100, config, 0.01), 0);
+  assertClose(calculateLevelOffset(2, 100, config, 0.01), 0.2);
+  assertClose(calculateLevelOffset(2, 100, { ...config, spacing: 'ticks', spacingValue: 5 }, 0.01), 0.1);
+  // 10 bps, then 20 bps on top of it
+  assertClose(calculateLevelOffset(2, 100, { ...config, spacing: 'geometric' }, 0.01), 0.3);
+});
+
+test('each size distribution weights the levels', () => {
+  const weights = (overrides: Partial<LadderConfig>) =>
+    [0, 1, 2].map(level => calculateLevelSizeWeight(level, { ...config, ...overrides }));
+
+  assert.deepEqual(weights({}), [1, 1, 1]);
+  assert.deepEqual(weights({ sizeDistribution: 'linear', sizeFactor: 0.5 }), [1, 1.5, 2]);
+  assert.deepEqual(weights({ sizeDistribution: 'linear', sizeFactor: -0.75 }), [1, 0.25, 0]);
+  assert.deepEqual(weights({ sizeDistribution: 'exponential', sizeFactor: 0.5 }), [1, 0.5, 0.25]);
+});
+
+test('a flat inventory builds a symmetric ladder starting at the quote', () => {
+  const ladder = buildQuoteLadder(quote, inventory(0), config, 0.01);
+
+  assert.deepEqual(ladder.bids.map(level => level.level), [0, 1, 2]);
+  assert.equal(ladder.bids[0].price, 99.95);
+  assert.equal(ladder.asks[0].price, 100.05);
+  for (let i = 0; i < 3; i++) {
+    assertClose(quote.bidPrice - ladder.bids[i].price, ladder.asks[i].price - quote.askPrice);
+  }
+});
+
+test('long inventory spreads the bids and packs the asks toward the touch', () => {
+  const flat = buildQuoteLadder(quote, inventory(0), config, 0.01);
+  const long = buildQuoteLadder(quote, inventory(0.5), config, 0.01);
+  const short = buildQuoteLadder(quote, inventory(-0.5), config, 0.01);
+
+  assert.ok(long.bids[2].price < flat.bids[2].price);
+  assert.ok(long.asks[2].price < flat.asks[2].price);
+  assert.ok(short.bids[2].price > flat.bids[2].price);
+  assert.ok(short.asks[2].price > flat.asks[2].price);
+});
+
+test('the maker places and updates every ladder level', () => {
+  const marketData: MarketData = {
+    symbol: 'TEST',
+    lastPrice: 100,
+    bidPrice: 99.95,
+    askPrice: 100.05,
+    volume24h: 0,
+    high24h: 101,
+    low24h: 99,
+    volatility: 0.01,
+  };
+  const mm = new MarketMaker({ priceTickSize: 0.01, orderSize: 10, ladder: config }, new ManualClock(0));
+  const generated = mm.generateQuotes(marketData);
+  assert.equal(generated.ladder?.bids.length, 3);
+
+  const { bidOrders, askOrders, rejectedOrders } = mm.placeOrders(generated);
+  assert.deepEqual(rejectedOrders, []);
+  assert.deepEqual(bidOrders.map(order => order.level), [0, 1, 2]);
+  assert.deepEqual(askOrders.map(order => order.level), [0, 1, 2]);
+
+  const result = mm.updateQuotes({ ...generated, ladder: { ...generated.ladder!, bids: generated.ladder!.bids.slice(0, 2) } });
+  assert.deepEqual(result.cancelled.map(order => order.id), [bidOrders[2].id]);
+  assert.equal(result.unchanged.length, 5);
+});
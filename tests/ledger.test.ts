@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PnLLedger } from '../ledger';
+import type { AccountingMethod, Trade } from '../types';
+
+let nextId = 0;
+
+function fill(side: 'buy' | 'sell', size: number, price: number, fee: number = 0): Trade {
+  return { id: `trade-${nextId++}`, side, size, price, fee, timestamp: nextId };
+}
+
+for (const method of ['fifo', 'lifo', 'average'] as AccountingMethod[]) {
+  test(`${method}: closing 0.1 + 0.2 with 0.3 leaves no open lots`, () => {
+    const ledger = new PnLLedger(method);
+    ledger.recordFill(fill('buy', 0.1, 100));
+    ledger.recordFill(fill('buy', 0.2, 101));
+    ledger.recordFill(fill('sell', 0.3, 102));
+
+    assert.equal(ledger.getLots().length, 0);
+    assert.equal(ledger.getNetPosition(), 0);
+    assert.equal(ledger.getUnrealizedPnL(50), 0);
+    assert.doesNotThrow(() => ledger.setMethod(method === 'fifo' ? 'lifo' : 'fifo'));
+  });
+}
+
+test('fifo and lifo realize against the oldest and newest lots', () => {
+  const fifo = new PnLLedger('fifo');
+  const lifo = new PnLLedger('lifo');
+  for (const ledger of [fifo, lifo]) {
+    ledger.recordFill(fill('buy', 1, 100));
+    ledger.recordFill(fill('buy', 1, 110));
+    ledger.recordFill(fill('sell', 1, 120));
+  }
+
+  assert.equal(fifo.getRealizedPnL(), 20);
+  assert.equal(lifo.getRealizedPnL(), 10);
+  assert.equal(fifo.getAvgEntryPrice(), 110);
+  assert.equal(lifo.getAvgEntryPrice(), 100);
+});
+
+test('a fill larger than the position flips it at the fill price', () => {
+  const ledger = new PnLLedger('average');
+  ledger.recordFill(fill('buy', 2, 100, 0.5));
+  const realized = ledger.recordFill(fill('sell', 5, 104, 0.5));
+
+  assert.equal(realized, 2 * 4 - 0.5);
+  assert.equal(ledger.getNetPosition(), -3);
+  assert.equal(ledger.getAvgEntryPrice(), 104);
+  assert.equal(ledger.getRealizedPnL(), 7);
+});
+
+test('snapshots restore lots and totals', () => {
+  const ledger = new PnLLedger('lifo');
+  ledger.recordFill(fill('buy', 3, 100, 0.3));
+  ledger.recordFill(fill('sell', 1, 105, 0.1));
+
+  const restored = new PnLLedger();
+  restored.restoreSnapshot(ledger.createSnapshot());
+  assert.deepEqual(restored.getSummary(103), ledger.getSummary(103));
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LiquidityPool } from '../liquidityPool';
+import { ManualClock } from '../clock';
+import { InsufficientLiquidityError, PoolError, SlippageError } from '../poolErrors';
+
+function createPool(): LiquidityPool {
+  const pool = new LiquidityPool(0.003, new ManualClock(0));
+  pool.initialize(10000, 20000, 'alice');
+  pool.addLiquidity(1000, 2000, 'bob');
+  return pool;
+}
+
+test('an owner without a position cannot remove liquidity', () => {
+  const pool = createPool();
+  const supply = pool.getState().lpTokenSupply;
+
+  assert.throws(() => pool.removeLiquidity(supply, 'mallory'), /No liquidity position for mallory/);
+  assert.throws(() => pool.removeLiquidity(1), /No liquidity position for default/);
+  assert.equal(pool.getState().lpTokenSupply, supply);
+});
+
+test('an owner cannot burn more than their position', () => {
+  const pool = createPool();
+  const bob = pool.getPosition('bob')!;
+
+  assert.throws(() => pool.removeLiquidity(bob.lpTokens * 2, 'bob'), /holds only/);
+  pool.removeLiquidity(bob.lpTokens, 'bob');
+  assert.equal(pool.getPosition('bob'), null);
+
+  const held = pool.getPositions().reduce((sum, position) => sum + position.lpTokens, 0);
+  assert.ok(held <= pool.getState().lpTokenSupply + 1e-9);
+});
+
+test('swaps follow x * y = k with the fee on the input', () => {
+  const pool = createPool();
+  const { tokenAReserve, tokenBReserve } = pool.getState();
+  const quoted = pool.simulateSwap(100, 'A');
+  assert.ok(Math.abs(pool.getAmountIn(quoted.amountOut, 'B') - 100) < 1e-6);
+  const result = pool.executeSwap(100, 'A');
+
+  const amountInWithFee = 100 * 0.997;
+  const expected = (amountInWithFee * tokenBReserve) / (tokenAReserve + amountInWithFee);
+  assert.ok(Math.abs(result.amountOut - expected) < 1e-9);
+});
+
+test('slippage and liquidity failures throw typed pool errors', () => {
+  const pool = createPool();
+
+  assert.throws(() => pool.executeSwap(100, 'A', 1000), (error: unknown) =>
+    error instanceof SlippageError && error instanceof PoolError &&
+    error.code === 'slippage-exceeded' && error.bound === 'min-out' && error.limit === 1000
+  );
+  assert.throws(() => pool.getAmountIn(1e9, 'A'), (error: unknown) =>
+    error instanceof InsufficientLiquidityError && error.code === 'insufficient-liquidity'
+  );
+});
+
+test('snapshots round-trip reserves and positions', () => {
+  const pool = createPool();
+  pool.executeSwap(250, 'B');
+
+  const restored = new LiquidityPool(0.003, new ManualClock(0));
+  restored.restoreSnapshot(pool.createSnapshot());
+  assert.deepEqual(restored.getState(), pool.getState());
+  assert.deepEqual(restored.getPositions(), pool.getPositions());
+});
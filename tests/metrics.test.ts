@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MetricsExporter, MetricsRegistry } from '../metrics';
+import { MarketMaker } from '../marketMaker';
+import { ManualClock } from '../clock';
+import type { MarketData } from '../types';
+
+const marketData: MarketData = {
+  symbol: 'TEST',
+  lastPrice: 100,
+  bidPrice: 99.95,
+  askPrice: 100.05,
+  volume24h: 0,
+  high24h: 101,
+  low24h: 99,
+  volatility: 0.01,
+};
+
+function createMaker(): MarketMaker {
+  return new MarketMaker({ priceTickSize: 0.01, risk: { maxVolatility: 0.05 } }, new ManualClock(0));
+}
+
+test('the registry renders the Prometheus text format', () => {
+  const registry = new MetricsRegistry();
+  registry.registerCounter('requests_total', 'Requests\nserved');
+  registry.registerGauge('temperature', 'Current temperature');
+  registry.registerHistogram('latency', 'Latency', [0.1, 1]);
+
+  registry.increment('requests_total', { path: '/a"b' });
+  registry.increment('requests_total', { path: '/a"b' }, 2);
+  registry.setGauge('temperature', -Infinity);
+  registry.observe('latency', 0.5);
+  registry.observe('latency', 5);
+
+  assert.equal(registry.render(), [
+    '# HELP requests_total Requests\\nserved',
+    '# TYPE requests_total counter',
+    'requests_total{path="/a\\"b"} 3',
+    '# HELP temperature Current temperature',
+    '# TYPE temperature gauge',
+    'temperature -Inf',
+    '# HELP latency Latency',
+    '# TYPE latency histogram',
+    'latency_bucket{le="0.1"} 0',
+    'latency_bucket{le="1"} 1',
+    'latency_bucket{le="+Inf"} 2',
+    'latency_sum 5.5',
+    'latency_count 2',
+    '',
+  ].join('\n'));
+});
+
+test('the registry rejects misuse', () => {
+  const registry = new MetricsRegistry();
+  registry.registerCounter('events_total', 'Events');
+
+  assert.throws(() => registry.registerCounter('bad name', 'x'), /Invalid metric name/);
+  assert.throws(() => registry.registerGauge('events_total', 'x'), /already registered as counter/);
+  assert.throws(() => registry.increment('events_total', {}, -1), /cannot decrease/);
+  assert.throws(() => registry.setGauge('events_total', 1), /is a counter, not a gauge/);
+  assert.throws(() => registry.observe('missing', 1), /Unknown metric: missing/);
+});
+
+test('the exporter counts orders, fills and rejections by label', () => {
+  const mm = createMaker();
+  const metrics = new MetricsExporter('mm');
+  metrics.attach(mm);
+  const registry = metrics.getRegistry();
+
+  const { bidOrders } = mm.placeOrders(mm.generateQuotes(marketData));
+  mm.processFill(bidOrders[0].id, 10, bidOrders[0].price);
+  mm.placeOrder('buy', 99.955, 10);
+
+  assert.equal(registry.getValue('mm_quotes_total'), 1);
+  assert.equal(registry.getValue('mm_orders_placed_total', { side: 'buy' }), 1);
+  assert.equal(registry.getValue('mm_fills_total', { side: 'buy' }), 1);
+  assert.equal(registry.getValue('mm_fill_size', { side: 'buy' }), 1);
+  assert.equal(registry.getValue('mm_inventory'), 10);
+  assert.equal(registry.getValue('mm_orders_rejected_total', { side: 'buy', reason: 'price-off-tick' }), 1);
+  assert.match(metrics.render(), /^mm_fill_volume_total\{side="buy"\} 10$/m);
+});
+
+test('the halted gauge is set on a halt and cleared on reset', () => {
+  const mm = createMaker();
+  const metrics = new MetricsExporter('mm');
+  metrics.attach(mm);
+  const registry = metrics.getRegistry();
+  const resets: string[] = [];
+  mm.on('risk-reset', event => resets.push(event.breach.type));
+
+  mm.generateQuotes({ ...marketData, volatility: 0.1 });
+  assert.equal(registry.getValue('mm_halted'), 1);
+  assert.equal(registry.getValue('mm_risk_halts_total', { type: 'volatility' }), 1);
+
+  mm.resetHalt();
+  mm.resetHalt();
+  assert.equal(registry.getValue('mm_halted'), 0);
+  assert.deepEqual(resets, ['volatility']);
+  assert.match(metrics.render(), /^mm_halted 0$/m);
+
+  mm.generateQuotes({ ...marketData, volatility: 0.1 });
+  assert.equal(registry.getValue('mm_halted'), 1);
+  assert.equal(registry.getValue('mm_risk_halts_total', { type: 'volatility' }), 2);
+});
+
+test('detaching stops the exporter from updating', () => {
+  const mm = createMaker();
+  const metrics = new MetricsExporter('mm');
+  const detach = metrics.attach(mm);
+
+  mm.generateQuotes(marketData);
+  detach();
+  mm.generateQuotes(marketData);
+  assert.equal(metrics.getRegistry().getValue('mm_quotes_total'), 1);
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PriceOracle } from '../oracle';
+import { LiquidityPool } from '../liquidityPool';
+import { ManualClock } from '../clock';
+
+function assertClose(actual: number, expected: number, tolerance: number = 1e-9): void {
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} != ${expected}`);
+}
+
+// Price 2 for ten seconds, then 4
+function createOracle(cardinality: number = 100): PriceOracle {
+  const oracle = new PriceOracle({ cardinality });
+  oracle.update(100, 200, 0);
+  oracle.update(100, 400, 10000);
+  return oracle;
+}
+
+test('consult averages the price over the window', () => {
+  const result = createOracle().consult(20, 20000);
+
+  assert.equal(result.startTime, 0);
+  assert.equal(result.endTime, 20000);
+  assertClose(result.twap, 3);
+  assertClose(result.inverseTwap, (0.5 + 0.25) / 2);
+  assertClose(result.geometricMeanPrice, Math.sqrt(8));
+});
+
+test('a window starting between observations is interpolated', () => {
+  const oracle = createOracle();
+  assertClose(oracle.consult(15, 20000).twap, (5 * 2 + 10 * 4) / 15);
+  assertClose(oracle.consult(4, 8000).twap, 2);
+});
+
+test('the ring buffer keeps only the newest observations', () => {
+  const oracle = new PriceOracle({ cardinality: 3 });
+  for (let i = 0; i <= 4; i++) {
+    oracle.update(100, 100 * (i + 1), i * 1000);
+  }
+
+  assert.deepEqual(oracle.getObservations().map(observation => observation.timestamp), [2000, 3000, 4000]);
+  assert.ok(oracle.canConsult(2, 4000));
+  assert.ok(!oracle.canConsult(3, 4000));
+  assert.throws(() => oracle.consult(3, 4000), /Oracle history starts at 2000, after 1000/);
+  assertClose(oracle.consult(2, 4000).twap, (3 + 4) / 2);
+});
+
+test('updates at the same timestamp share one slot', () => {
+  const oracle = new PriceOracle({ cardinality: 2 });
+  oracle.update(100, 100, 0);
+  oracle.update(100, 200, 1000);
+  oracle.update(100, 300, 1000);
+
+  assert.deepEqual(oracle.getObservations().map(observation => observation.timestamp), [0, 1000]);
+  assertClose(oracle.consult(1, 2000).twap, 3);
+  assert.throws(() => oracle.update(100, 100, 500), /before the last update at 1000/);
+});
+
+test('resizing and snapshots keep the newest history', () => {
+  const oracle = createOracle();
+  oracle.update(100, 100, 20000);
+
+  const restored = new PriceOracle();
+  restored.restoreSnapshot(oracle.createSnapshot());
+  assert.deepEqual(restored.consult(30, 30000), oracle.consult(30, 30000));
+
+  oracle.updateConfig({ cardinality: 2 });
+  assert.deepEqual(oracle.getObservations().map(observation => observation.timestamp), [10000, 20000]);
+  assert.throws(() => oracle.updateConfig({ cardinality: 0 }), /positive integer/);
+});
+
+test('a pool records an observation on every reserve change', () => {
+  const clock = new ManualClock(0);
+  const pool = new LiquidityPool(0.003, clock);
+  pool.initialize(1000, 2000);
+
+  clock.advance(60000);
+  pool.executeSwap(100, 'B');
+  const price = pool.getPrice();
+  clock.advance(60000);
+
+  assert.ok(pool.canConsult(120));
+  assertClose(pool.consult(120).twap, (2 + price) / 2);
+  assertClose(pool.consult(30).twap, price);
+});
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  OrderBookQuoter,
+  calculateBookImbalance,
+  calculateDepthWeightedMid,
+  calculateMicroprice,
+} from '../orderBook';
+import { MarketMaker } from '../marketMaker';
+import { ManualClock } from '../clock';
+import type { MarketData, OrderBook, QuoteGeneratedEvent } from '../types';
+
+// 800 bid against 300 ask within the depth window
+const book: OrderBook = {
+  bids: [
+    { price: 99.8, size: 500, side: 'bid' },
+    { price: 99.9, size: 300, side: 'bid' },
+  ],
+  asks: [
+    { price: 100.2, size: 200, side: 'ask' },
+    { price: 100.1, size: 100, side: 'ask' },
+  ],
+  timestamp: 0,
+};
+
+function assertClose(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+}
+
+test('fair value helpers read the sorted book', () => {
+  assertClose(calculateMicroprice(book), (99.9 * 100 + 100.1 * 300) / 400);
+  assertClose(calculateBookImbalance(book), 500 / 1100);
+  assertClose(calculateBookImbalance(book, 1), 200 / 400);
+
+  const bidVwap = (99.9 * 300 + 99.8 * 500) / 800;
+  const askVwap = (100.1 * 100 + 100.2 * 200) / 300;
+  assertClose(calculateDepthWeightedMid(book), (bidVwap * 300 + askVwap * 800) / 1100);
+});
+
+test('each fair value method is skewed by the book imbalance', () => {
+  const unskewed = (fairValue: 'mid' | 'microprice' | 'depth-weighted') =>
+    new OrderBookQuoter({ fairValue, imbalanceSkewMultiplier: 0 }).calculateFairValue(book);
+
+  assertClose(unskewed('mid'), 100);
+  assertClose(unskewed('microprice'), calculateMicroprice(book));
+  assertClose(unskewed('depth-weighted'), calculateDepthWeightedMid(book));
+
+  const skewed = new OrderBookQuoter({ fairValue: 'mid', imbalanceSkewMultiplier: 1 }).calculateFairValue(book);
+  assertClose(skewed, 100 + (500 / 1100) * 0.1);
+});
+
+test('a one-sided book has no fair value', () => {
+  const quoter = new OrderBookQuoter();
+  assert.throws(() => quoter.calculateFairValue({ ...book, asks: [] }), /both bids and asks/);
+});
+
+test('queue placement joins, improves, steps behind or keeps the model price', () => {
+  const place = (config: ConstructorParameters<typeof OrderBookQuoter>[0], price: number) =>
+    new OrderBookQuoter(config).placeSide('bid', price, book, 0.01);
+
+  const model = place({}, 99.85);
+  assert.equal(model.placement, 'model');
+  assertClose(model.price, 99.85);
+  assert.deepEqual(place({}, 100), { price: 99.9, placement: 'join' });
+
+  const improved = place({ improveDepthThreshold: 200 }, 100);
+  assert.equal(improved.placement, 'improve');
+  assertClose(improved.price, 99.91);
+
+  const behind = place({ behindDepthThreshold: 500 }, 100);
+  assert.equal(behind.placement, 'behind');
+  assertClose(behind.price, 99.89);
+});
+
+test('a quote never rests at or through the opposite touch', () => {
+  const tight: OrderBook = {
+    bids: [{ price: 99.9, size: 5000, side: 'bid' }],
+    asks: [{ price: 99.91, size: 5000, side: 'ask' }],
+    timestamp: 0,
+  };
+  const quoter = new OrderBookQuoter({ improveDepthThreshold: 0 });
+
+  // Improving either side would cross, so both join
+  assert.deepEqual(quoter.placeSide('bid', 100, tight, 0.01), { price: 99.9, placement: 'join' });
+  assert.deepEqual(quoter.placeSide('ask', 99.8, tight, 0.01), { price: 99.91, placement: 'join' });
+
+  const ask = quoter.placeSide('ask', 99.5, book, 0.01);
+  assert.ok(ask.price > 99.9);
+});
+
+test('the maker quotes around the book fair value', () => {
+  const marketData: MarketData = {
+    symbol: 'TEST',
+    lastPrice: 100,
+    bidPrice: 99.9,
+    askPrice: 100.1,
+    volume24h: 0,
+    high24h: 101,
+    low24h: 99,
+    volatility: 0.01,
+  };
+  const mm = new MarketMaker({ priceTickSize: 0.01 }, new ManualClock(0));
+  const events: QuoteGeneratedEvent[] = [];
+  mm.on('quote-generated', event => events.push(event));
+
+  const quote = mm.generateQuotes(marketData, book);
+  assertClose(events[0].fairValue, new OrderBookQuoter().calculateFairValue(book));
+  assert.equal(events[0].orderBook, book);
+  assert.ok(quote.bidPrice < 100.1 && quote.askPrice > 99.9);
+  assert.deepEqual(mm.placeOrders(quote).rejectedOrders, []);
+});
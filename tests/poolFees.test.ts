@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DirectionalFeePolicy, StaticFeePolicy, VolatilityFeePolicy } from '../poolFees';
+import { LiquidityPool } from '../liquidityPool';
+import { ManualClock } from '../clock';
+import type { PoolFeeContext, ProtocolFeeClaim, VolatilityEstimator } from '../types';
+
+function createEstimator(volatility: number, ready: boolean = true): VolatilityEstimator {
+  return {
+    getVolatility: () => volatility,
+    getPeriodVolatility: () => volatility,
+    isReady: () => ready,
+    reset: () => {},
+  };
+}
+
+function context(priceBefore: number, priceAfter: number): PoolFeeContext {
+  return { tokenIn: 'A', tokenAReserve: 1000, tokenBReserve: 1000, priceBefore, priceAfter, timestamp: 0 };
+}
+
+function createPool(): LiquidityPool {
+  const pool = new LiquidityPool(0.003, new ManualClock(0));
+  pool.initialize(10000, 10000, 'alice');
+  return pool;
+}
+
+function assertClose(actual: number, expected: number, tolerance: number = 1e-9): void {
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} != ${expected}`);
+}
+
+test('fees and fee bounds are validated', () => {
+  assert.throws(() => new StaticFeePolicy(1), /Fee must be between 0 and 1/);
+  assert.throws(() => new StaticFeePolicy(-0.1), /Fee must be between 0 and 1/);
+  assert.throws(() => new DirectionalFeePolicy({ minFee: 0.02, maxFee: 0.01 }), /Minimum fee exceeds maximum fee/);
+  assert.throws(() => new DirectionalFeePolicy().setReferencePrice(0), /Reference price must be positive/);
+});
+
+test('the volatility fee falls back to the base fee until the estimator is ready', () => {
+  const config = { baseFee: 0.003, volatilityMultiplier: 0.01, minFee: 0.001, maxFee: 0.005 };
+
+  assert.equal(new VolatilityFeePolicy(createEstimator(0.1, false), config).getFee(), 0.003);
+  assertClose(new VolatilityFeePolicy(createEstimator(0.1), config).getFee(), 0.004);
+  assert.equal(new VolatilityFeePolicy(createEstimator(1), config).getFee(), 0.005);
+});
+
+test('the directional fee charges moves away from the reference and discounts moves toward it', () => {
+  const policy = new DirectionalFeePolicy({ baseFee: 0.003, imbalanceMultiplier: 0.1, minFee: 0.0005, maxFee: 0.01 });
+  assert.equal(policy.getFee(context(1, 1.01)), 0.003);
+
+  policy.setReferencePrice(1);
+  assertClose(policy.getFee(context(1.01, 1.02)), 0.005);
+  assertClose(policy.getFee(context(1.01, 1)), 0.002);
+  assert.equal(policy.getFee(context(1.05, 1.2)), 0.01);
+  assert.equal(policy.getFee(context(1.05, 1)), 0.0005);
+});
+
+test('a pool charges the policy fee and quotes exact-out through it', () => {
+  const pool = createPool();
+  const staticOut = pool.simulateSwap(100, 'A').amountOut;
+  pool.setFeePolicy(new DirectionalFeePolicy({ referencePrice: 1 }));
+
+  const away = pool.simulateSwap(100, 'A');
+  assert.ok(away.amountOut < staticOut);
+  assert.ok(away.fee / away.amountIn > 0.003);
+  assertClose(pool.getAmountIn(away.amountOut, 'B'), 100, 1e-6);
+
+  pool.setFeePolicy(null);
+  assert.equal(pool.simulateSwap(100, 'A').amountOut, staticOut);
+});
+
+test('a fee policy that returns an invalid fee fails the swap', () => {
+  const pool = createPool();
+  pool.setFeePolicy({ getFee: () => 1.5 });
+  assert.throws(() => pool.simulateSwap(100, 'A'), /Fee policy returned invalid fee 1.5/);
+});
+
+test('the protocol share of fees leaves the reserves until it is claimed', () => {
+  const pool = createPool();
+  pool.setProtocolFee(0.25, 'treasury');
+  const claims: ProtocolFeeClaim[] = [];
+  pool.on('protocol-fees-claimed', claim => claims.push(claim));
+
+  const result = pool.executeSwap(1000, 'A');
+  assertClose(pool.getProtocolFees().tokenA, 0.75);
+  assert.equal(pool.getProtocolFees().tokenB, 0);
+  assertClose(pool.getState().tokenAReserve, 10000 + 1000 - 0.75);
+  assertClose(pool.getPosition('alice')!.feesEarnedA, result.fee - 0.75, 1e-6);
+
+  const claim = pool.claimProtocolFees();
+  assert.equal(claim.recipient, 'treasury');
+  assertClose(claim.tokenA, 0.75);
+  assert.deepEqual(claims, [claim]);
+  assert.deepEqual(pool.getProtocolFees(), { tokenA: 0, tokenB: 0 });
+  assert.throws(() => pool.setProtocolFee(1.5), /Protocol fee share must be between 0 and 1/);
+});
+
+test('clones and snapshots keep the protocol fee state', () => {
+  const pool = createPool();
+  pool.setProtocolFee(0.5);
+  pool.setFeePolicy(new StaticFeePolicy(0.01));
+  pool.executeSwap(1000, 'B');
+
+  const clone = pool.clone();
+  assert.deepEqual(clone.getProtocolFees(), pool.getProtocolFees());
+  assert.equal(clone.simulateSwap(100, 'A').amountOut, pool.simulateSwap(100, 'A').amountOut);
+
+  const restored = new LiquidityPool(0.003, new ManualClock(0));
+  restored.restoreSnapshot(pool.createSnapshot());
+  assertClose(restored.getProtocolFees().tokenB, 5);
+  assert.equal(restored.claimProtocolFees().recipient, 'protocol');
+});
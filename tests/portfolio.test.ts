@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PortfolioMarketMaker } from '../portfolio';
+import { ManualClock } from '../clock';
+import { SeededIdGenerator } from '../ids';
+import type { MarketData, PortfolioConfig, Quote } from '../types';
+
+function marketData(symbol: string, price: number): MarketData {
+  return {
+    symbol,
+    lastPrice: price,
+    bidPrice: price - 0.05,
+    askPrice: price + 0.05,
+    volume24h: 1000000,
+    high24h: price,
+    low24h: price,
+    volatility: 0.01,
+  };
+}
+
+function createPortfolio(config: Partial<PortfolioConfig>): PortfolioMarketMaker {
+  const portfolio = new PortfolioMarketMaker(
+    { quoteBudget: 1000000, maxCorrelationSkew: 0, ...config },
+    new ManualClock(0),
+    new SeededIdGenerator(1)
+  );
+  const marketMaker = { priceTickSize: 0.01, minOrderSize: 1, orderSize: 5 };
+  portfolio.addSymbol('ETH-USD', { marketMaker });
+  portfolio.addSymbol('ETH-USDC', { marketMaker });
+  portfolio.addSymbol('BTC-USD', { marketMaker });
+  return portfolio;
+}
+
+function quoteAt(price: number, size: number): Quote {
+  return { bidPrice: price - 0.05, bidSize: size, askPrice: price + 0.05, askSize: size, spread: 0.1, midPrice: price };
+}
+
+test('open orders on symbols sharing a base asset count against its limit', () => {
+  const portfolio = createPortfolio({ assetLimits: { ETH: 8 } });
+  const ethUsd = portfolio.getMarketMaker('ETH-USD');
+  const ethUsdc = portfolio.getMarketMaker('ETH-USDC');
+
+  assert.equal(ethUsd.placeOrder('buy', 100, 5).size, 5);
+  // Filled positions are still zero, but 5 ETH are already bid for
+  assert.equal(ethUsdc.placeOrder('buy', 100, 5).size, 3);
+  assert.equal(ethUsdc.placeOrder('buy', 100, 5).rejectReason, 'inventory-headroom');
+  assert.equal(ethUsdc.checkOrder('buy', 100, 1)?.code, 'inventory-headroom');
+
+  // Selling is limited by the short side, which the bids do not use
+  assert.equal(ethUsdc.placeOrder('sell', 100.1, 8).size, 8);
+});
+
+test('portfolio quotes and direct quote updates both respect the shared limit', () => {
+  const portfolio = createPortfolio({ assetLimits: { ETH: 8 } });
+  const ethUsd = portfolio.getMarketMaker('ETH-USD');
+  portfolio.getMarketMaker('ETH-USDC').placeOrder('buy', 100, 6);
+
+  const quote = portfolio.generateQuotes(marketData('ETH-USD', 100));
+  assert.equal(quote.bidSize, 2);
+
+  const result = ethUsd.updateQuotes(quoteAt(100, 5));
+  const [bid] = result.placed.filter(order => order.side === 'buy');
+  assert.equal(bid.size, 2);
+
+  // The symbol's own quote is replaced, so it does not limit the next one
+  assert.equal(portfolio.generateQuotes(marketData('ETH-USD', 100)).bidSize, 2);
+});
+
+test('fills keep the limit once the orders that caused them are gone', () => {
+  const portfolio = createPortfolio({ assetLimits: { ETH: 8 } });
+  const order = portfolio.getMarketMaker('ETH-USD').placeOrder('buy', 100, 5);
+  portfolio.processFill('ETH-USD', order.id, 5, 100);
+
+  assert.equal(portfolio.getAssetExposures().ETH, 5);
+  assert.equal(portfolio.getMarketMaker('ETH-USDC').placeOrder('buy', 100, 5).size, 3);
+});
+
+test('resting orders on other symbols count toward the gross notional limit', () => {
+  const portfolio = createPortfolio({ maxGrossNotional: 1000 });
+  portfolio.generateQuotes(marketData('BTC-USD', 100));
+  portfolio.getMarketMaker('BTC-USD').placeOrder('buy', 100, 6);
+
+  assert.equal(portfolio.generateQuotes(marketData('ETH-USD', 100)).bidSize, 4);
+  assert.equal(portfolio.getMarketMaker('ETH-USD').placeOrder('buy', 100, 10).size, 4);
+});
+
+test('a removed symbol is no longer limited by the portfolio', () => {
+  const portfolio = createPortfolio({ assetLimits: { ETH: 8 } });
+  const ethUsd = portfolio.getMarketMaker('ETH-USD');
+  portfolio.getMarketMaker('ETH-USDC').placeOrder('buy', 100, 8);
+
+  assert.equal(ethUsd.placeOrder('buy', 100, 5).status, 'rejected');
+  portfolio.removeSymbol('ETH-USD');
+  assert.equal(ethUsd.getHeadroomLimit(), null);
+  assert.equal(ethUsd.placeOrder('buy', 100, 5).size, 5);
+});
@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MarketMaker } from '../marketMaker';
+import { MatchingEngine } from '../matchingEngine';
+import { ManualClock } from '../clock';
+import { SeededIdGenerator } from '../ids';
+import type { MarketData, OrderRejectReason, Quote } from '../types';
+
+const marketData: MarketData = {
+  symbol: 'TEST',
+  lastPrice: 100,
+  bidPrice: 99.95,
+  askPrice: 100.05,
+  volume24h: 0,
+  high24h: 101,
+  low24h: 99,
+  volatility: 0.01,
+};
+
+const quote: Quote = {
+  bidPrice: 99.95,
+  bidSize: 40,
+  askPrice: 100.05,
+  askSize: 40,
+  spread: 0.1,
+  midPrice: 100,
+};
+
+function createMaker(ids?: SeededIdGenerator): MarketMaker {
+  return new MarketMaker({
+    priceTickSize: 0.01,
+    minOrderSize: 10,
+    inventory: { minInventory: -100, maxInventory: 100, rebalanceThreshold: 0.1 },
+  }, new ManualClock(1000), ids);
+}
+
+test('each pre-trade check rejects with its own code', () => {
+  const cases: { code: OrderRejectReason; place: (mm: MarketMaker) => void }[] = [
+    { code: 'price-off-tick', place: mm => mm.placeOrder('buy', 99.955, 20) },
+    { code: 'inventory-headroom', place: mm => mm.placeOrder('buy', 99.9, 300) && mm.placeOrder('buy', 99.9, 20) },
+    { code: 'size-below-minimum', place: mm => mm.placeOrder('buy', 99.9, 5) },
+    { code: 'price-band', place: mm => mm.placeOrder('buy', 90, 20) },
+    { code: 'self-trade', place: mm => mm.placeOrder('buy', 99.9, 20) && mm.placeOrder('sell', 99.9, 20) },
+  ];
+
+  for (const { code, place } of cases) {
+    const mm = createMaker();
+    mm.generateQuotes(marketData);
+    const rejected: OrderRejectReason[] = [];
+    mm.on('order-rejected', event => rejected.push(event.code));
+
+    place(mm);
+    assert.deepEqual(rejected, [code], code);
+  }
+});
+
+test('a rejected order is returned but never rests', () => {
+  const mm = createMaker();
+  const order = mm.placeOrder('buy', 99.955, 20);
+
+  assert.equal(order.status, 'rejected');
+  assert.equal(order.rejectReason, 'price-off-tick');
+  assert.deepEqual(mm.getActiveOrders(), []);
+});
+
+test('placeOrders returns empty lists for a side with no placed levels', () => {
+  const mm = createMaker();
+  const { bidOrders, askOrders, rejectedOrders } = mm.placeOrders({ ...quote, bidPrice: 99.955 });
+
+  assert.deepEqual(bidOrders, []);
+  assert.equal(askOrders.length, 1);
+  assert.equal(rejectedOrders[0].rejectReason, 'price-off-tick');
+});
+
+test('quote updates leave orders placed outside the ladder alone', () => {
+  const mm = createMaker();
+  mm.placeOrders(quote);
+  const manual = mm.placeOrder('buy', 99.5, 20);
+  assert.equal(manual.purpose, 'manual');
+
+  const result = mm.updateQuotes({ ...quote, bidPrice: 99.9, askPrice: 100.1 });
+  assert.ok(!result.cancelled.some(order => order.id === manual.id));
+  assert.ok(mm.getActiveOrders().some(order => order.id === manual.id));
+});
+
+test('a rebalance pulls our crossing quote instead of being rejected as a self-trade', () => {
+  const mm = createMaker();
+  const { bidOrders } = mm.placeOrders(quote);
+  mm.processFill(bidOrders[0].id, 40, 99.95);
+  mm.setExecutionVenue(new MatchingEngine(new ManualClock(1000)));
+  const [bid] = mm.placeOrders(quote).bidOrders;
+
+  const rejected: OrderRejectReason[] = [];
+  mm.on('order-rejected', event => rejected.push(event.code));
+  mm.executeRebalance(marketData);
+
+  assert.deepEqual(rejected, []);
+  assert.ok(!mm.getActiveOrders().some(order => order.id === bid.id));
+  const [rebalance] = mm.getActiveOrders().filter(order => order.purpose === 'rebalance');
+  assert.equal(rebalance.side, 'sell');
+  assert.equal(rebalance.price, 99.95);
+
+  const result = mm.updateQuotes(quote);
+  assert.ok(!result.cancelled.some(order => order.id === rebalance.id));
+  assert.ok(mm.getActiveOrders().some(order => order.id === rebalance.id));
+});
+
+test('orders the venue rejects on submission come back as rejected', () => {
+  // Two makers with the same seed issue the same order ids, so the engine
+  // rejects the second maker's orders as duplicates
+  const engine = new MatchingEngine(new ManualClock(1000));
+  const first = createMaker(new SeededIdGenerator(7));
+  first.setExecutionVenue(engine);
+  first.placeOrders(quote);
+
+  const second = createMaker(new SeededIdGenerator(7));
+  second.setExecutionVenue(engine);
+  const { bidOrders, askOrders, rejectedOrders } = second.placeOrders(quote);
+
+  assert.deepEqual([bidOrders, askOrders], [[], []]);
+  assert.deepEqual(rejectedOrders.map(order => order.rejectReason), ['venue-rejected', 'venue-rejected']);
+  assert.deepEqual(second.getActiveOrders(), []);
+
+  const result = second.updateQuotes({ ...quote, bidPrice: 99.9 });
+  assert.deepEqual(result.rejected, []);
+  assert.equal(result.placed.length, 2);
+});
@@ -0,0 +1,174 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { QuotingEngine } from '../quotingEngine';
+import { MarketMaker } from '../marketMaker';
+import { ManualClock } from '../clock';
+import type { MarketData, MarketDataListener, MarketDataSource } from '../types';
+
+const marketData: MarketData = {
+  symbol: 'TEST',
+  lastPrice: 100,
+  bidPrice: 99.95,
+  askPrice: 100.05,
+  volume24h: 0,
+  high24h: 101,
+  low24h: 99,
+  volatility: 0.01,
+};
+
+function atPrice(price: number): MarketData {
+  return { ...marketData, bidPrice: price - 0.05, askPrice: price + 0.05 };
+}
+
+// Lets the promise chain of a fired timer or event settle
+function flush(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+function createMaker(clock: ManualClock): MarketMaker {
+  return new MarketMaker({ priceTickSize: 0.01, updateIntervalMs: 500 }, clock);
+}
+
+test('cycles replace moved levels and leave levels within tolerance alone', async () => {
+  const clock = new ManualClock(0);
+  const mm = createMaker(clock);
+  const engine = new QuotingEngine(mm, { getMarketData: () => null }, { priceTolerance: 0.001 });
+
+  const first = await engine.step(atPrice(100));
+  assert.equal(first.status, 'quoted');
+  assert.equal(first.orders?.placed.length, 2);
+
+  const small = await engine.step(atPrice(100.02));
+  assert.deepEqual([small.orders?.unchanged.length, small.orders?.replaced.length], [2, 0]);
+
+  const moved = await engine.step(atPrice(101));
+  assert.equal(moved.orders?.replaced.length, 2);
+  assert.deepEqual(moved.orders?.placed, []);
+  assert.equal(mm.getActiveOrders().length, 2);
+  assert.equal(engine.getState().cycles, 3);
+});
+
+test('a missing update skips the cycle and a halted maker is not quoted', async () => {
+  const mm = new MarketMaker({ priceTickSize: 0.01, risk: { maxVolatility: 0.05 } }, new ManualClock(0));
+  const engine = new QuotingEngine(mm, { getMarketData: () => null });
+
+  assert.equal((await engine.step()).status, 'skipped');
+  assert.equal((await engine.step({ ...marketData, volatility: 0.1 })).status, 'halted');
+  assert.equal((await engine.step(marketData)).status, 'halted');
+  assert.deepEqual(mm.getActiveOrders(), []);
+});
+
+test('interval mode backs off exponentially after errors and resets on success', async () => {
+  const clock = new ManualClock(0);
+  let failures = 3;
+  const source: MarketDataSource = {
+    getMarketData: () => {
+      if (failures-- > 0) throw new Error('feed down');
+      return marketData;
+    },
+  };
+  const engine = new QuotingEngine(createMaker(clock), source, {
+    initialBackoffMs: 100,
+    backoffMultiplier: 3,
+    maxBackoffMs: 500,
+  });
+
+  engine.start();
+  const delays: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    clock.advance(engine.getState().nextCycleTime! - clock.now());
+    await flush();
+    delays.push(engine.getState().nextCycleTime! - clock.now());
+  }
+
+  assert.deepEqual(delays, [100, 300, 500, 500]);
+  assert.equal(engine.getState().consecutiveErrors, 0);
+  assert.equal(engine.getState().lastError, 'feed down');
+  assert.equal(engine.getMarketMaker().getActiveOrders().length, 2);
+
+  await engine.stop();
+  assert.equal(clock.getPendingTimers(), 0);
+  assert.deepEqual(engine.getMarketMaker().getActiveOrders(), []);
+});
+
+class PushSource implements MarketDataSource {
+  listener: MarketDataListener | null = null;
+
+  getMarketData(): MarketData | null {
+    return null;
+  }
+
+  subscribe(listener: MarketDataListener): () => void {
+    this.listener = listener;
+    return () => {
+      this.listener = null;
+    };
+  }
+
+  push(data: MarketData): void {
+    this.listener?.(data);
+  }
+}
+
+test('event mode quotes only the latest update of a burst', async () => {
+  const clock = new ManualClock(0);
+  const mm = createMaker(clock);
+  const source = new PushSource();
+  const engine = new QuotingEngine(mm, source, { mode: 'event' });
+  const mids: number[] = [];
+  mm.on('quote-generated', event => mids.push(event.quote.midPrice));
+
+  engine.start();
+  source.push(atPrice(100));
+  source.push(atPrice(101));
+  source.push(atPrice(102));
+  await engine.whenIdle();
+  await flush();
+  await engine.whenIdle();
+
+  assert.deepEqual(mids, [100, 102]);
+  await engine.stop();
+  assert.equal(source.listener, null);
+});
+
+test('event mode drops updates during the backoff after an error', async () => {
+  const clock = new ManualClock(0);
+  const mm = createMaker(clock);
+  const source = new PushSource();
+  const engine = new QuotingEngine(mm, source, { mode: 'event', initialBackoffMs: 1000 });
+
+  const generateQuotes = mm.generateQuotes.bind(mm);
+  let failures = 1;
+  mm.generateQuotes = (...args) => {
+    if (failures-- > 0) throw new Error('model failed');
+    return generateQuotes(...args);
+  };
+
+  engine.start();
+  source.push(marketData);
+  await flush();
+  assert.equal(engine.getState().consecutiveErrors, 1);
+
+  clock.advance(500);
+  source.push(marketData);
+  await flush();
+  assert.equal(engine.getState().cycles, 1);
+
+  clock.advance(500);
+  source.push(marketData);
+  await flush();
+  assert.equal(engine.getState().cycles, 2);
+  assert.equal(engine.getState().consecutiveErrors, 0);
+  assert.equal(mm.getActiveOrders().length, 2);
+  await engine.stop();
+});
+
+test('the quoting mode cannot change while running', () => {
+  const engine = new QuotingEngine(createMaker(new ManualClock(0)), new PushSource(), { mode: 'event' });
+  engine.start();
+  assert.throws(() => engine.updateConfig({ mode: 'interval' }), /while running/);
+  assert.throws(
+    () => new QuotingEngine(createMaker(new ManualClock(0)), { getMarketData: () => null }, { mode: 'event' }).start(),
+    /does not support subscriptions/
+  );
+});
@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RiskManager } from '../riskManager';
+import { MarketMaker } from '../marketMaker';
+import { ManualClock } from '../clock';
+import type { MarketData, RiskHaltEvent } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const marketData: MarketData = {
+  symbol: 'TEST',
+  lastPrice: 100,
+  bidPrice: 99.95,
+  askPrice: 100.05,
+  volume24h: 0,
+  high24h: 101,
+  low24h: 99,
+  volatility: 0.01,
+};
+
+function atPrice(price: number): MarketData {
+  return { ...marketData, bidPrice: price - 0.05, askPrice: price + 0.05 };
+}
+
+test('a volatility breach halts until the halt is reset', () => {
+  const risk = new RiskManager({ maxVolatility: 0.05 }, new ManualClock(0));
+  const breach = risk.checkMarketData({ ...marketData, volatility: 0.06 });
+
+  assert.equal(breach?.type, 'volatility');
+  assert.equal(breach?.limit, 0.05);
+  assert.ok(risk.isHalted());
+  assert.deepEqual(risk.checkMarketData(marketData), breach);
+  assert.deepEqual(risk.checkOrderRate(), breach);
+
+  risk.resetHalt();
+  assert.equal(risk.checkMarketData(marketData), null);
+});
+
+test('the price circuit breaker only compares prices inside its window', () => {
+  const clock = new ManualClock(0);
+  const risk = new RiskManager({ maxPriceMove: 0.05, priceMoveWindowMs: 1000 }, clock);
+
+  assert.equal(risk.checkMarketData(atPrice(100)), null);
+  clock.advance(1500);
+  assert.equal(risk.checkMarketData(atPrice(104)), null);
+  clock.advance(500);
+  assert.equal(risk.checkMarketData(atPrice(108)), null);
+
+  clock.advance(100);
+  const breach = risk.checkMarketData(atPrice(110));
+  assert.equal(breach?.type, 'price-move');
+  assert.ok(Math.abs(breach!.value - 6 / 104) < 1e-9);
+});
+
+test('the order rate limit counts orders in a sliding interval', () => {
+  const clock = new ManualClock(0);
+  const risk = new RiskManager({ maxOrdersPerInterval: 3, orderRateIntervalMs: 1000 }, clock);
+
+  for (let i = 0; i < 3; i++) {
+    assert.equal(risk.checkOrderRate(), null);
+    clock.advance(400);
+  }
+  assert.equal(risk.checkOrderRate(), null);
+  assert.equal(risk.getState().ordersInInterval, 3);
+
+  assert.equal(risk.checkOrderRate()?.type, 'order-rate');
+  assert.ok(risk.isHalted());
+});
+
+test('loss limits are measured from the day start, zero and the peak', () => {
+  const evaluate = (risk: RiskManager, equity: number, timestamp: number = 0) =>
+    risk.evaluate({ realizedPnL: equity, unrealizedPnL: 0, inventory: 0, markPrice: 100, timestamp });
+
+  const daily = new RiskManager({ maxDailyLoss: 100, maxDrawdown: 1000 });
+  assert.equal(evaluate(daily, 500), null);
+  assert.equal(evaluate(daily, 450, DAY_MS), null);
+  assert.equal(evaluate(daily, 360, DAY_MS)?.type, 'daily-loss');
+
+  const total = new RiskManager({ maxDailyLoss: 1000, maxTotalLoss: 50, maxDrawdown: 1000 });
+  assert.equal(evaluate(total, -60)?.type, 'total-loss');
+
+  const drawdown = new RiskManager({ maxDailyLoss: 1000, maxDrawdown: 200 });
+  assert.equal(evaluate(drawdown, 300), null);
+  assert.equal(evaluate(drawdown, 150), null);
+  assert.equal(drawdown.getState().drawdown, 150);
+  assert.equal(evaluate(drawdown, 90)?.type, 'drawdown');
+});
+
+test('exposure is limited by notional at the mark price', () => {
+  const risk = new RiskManager({ maxNotionalExposure: 10000 });
+
+  assert.equal(risk.getMaxOrderSize('buy', 40, 20, 100), 40);
+  assert.equal(risk.getMaxOrderSize('sell', 40, 20, 100), 120);
+  assert.equal(risk.getMaxOrderSize('buy', 120, 0, 100), 0);
+
+  const breach = risk.evaluate({ realizedPnL: 0, unrealizedPnL: 0, inventory: -101, markPrice: 100, timestamp: 0 });
+  assert.equal(breach?.type, 'notional-exposure');
+});
+
+test('a snapshot keeps the halt and the rate window', () => {
+  const risk = new RiskManager({ maxOrdersPerInterval: 1 }, new ManualClock(0));
+  risk.checkOrderRate();
+  risk.checkOrderRate();
+
+  const restored = new RiskManager({ maxOrdersPerInterval: 1 }, new ManualClock(0));
+  restored.restoreSnapshot(risk.createSnapshot());
+  assert.deepEqual(restored.getState(), risk.getState());
+  assert.equal(restored.getHaltReason()?.type, 'order-rate');
+});
+
+test('a halt pulls the maker\'s orders and blocks new quotes until reset', () => {
+  const mm = new MarketMaker({ priceTickSize: 0.01, risk: { maxVolatility: 0.05 } }, new ManualClock(0));
+  const halts: RiskHaltEvent[] = [];
+  mm.on('risk-halt', event => halts.push(event));
+  mm.placeOrders(mm.generateQuotes(marketData));
+  assert.ok(mm.getActiveOrders().length > 0);
+
+  mm.generateQuotes({ ...marketData, volatility: 0.1 });
+  mm.generateQuotes({ ...marketData, volatility: 0.1 });
+  assert.equal(halts.length, 1);
+  assert.equal(halts[0].breach.type, 'volatility');
+  assert.deepEqual(mm.getActiveOrders(), []);
+  assert.throws(() => mm.placeOrders(mm.generateQuotes(marketData)), /Market maker halted: Volatility circuit breaker/);
+  assert.equal(mm.placeOrder('buy', 99, 10).rejectReason, 'risk-limit');
+
+  mm.resetHalt();
+  const { bidOrders } = mm.placeOrders(mm.generateQuotes(marketData));
+  assert.equal(bidOrders.length, 1);
+});
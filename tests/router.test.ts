@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { LiquidityPool } from '../liquidityPool';
+import { PoolRegistry, SwapRouter } from '../router';
+import { ManualClock } from '../clock';
+import { SlippageError } from '../poolErrors';
+
+function createPool(reserveA: number, reserveB: number): LiquidityPool {
+  const pool = new LiquidityPool(0.003, new ManualClock(0));
+  pool.initialize(reserveA, reserveB);
+  return pool;
+}
+
+// ETH only trades through DAI, so every ETH -> USDC route takes two hops
+function createRouter(): { router: SwapRouter; ethDai: LiquidityPool; daiUsdc: LiquidityPool } {
+  const ethDai = createPool(1000, 2000000);
+  const daiUsdc = createPool(5000000, 5000000);
+  const registry = new PoolRegistry();
+  registry.register('eth-dai', ethDai, 'ETH', 'DAI');
+  registry.register('dai-usdc', daiUsdc, 'DAI', 'USDC');
+  return { router: new SwapRouter(registry), ethDai, daiUsdc };
+}
+
+test('a multi-hop route swaps each hop with the output of the one before', () => {
+  const { router, ethDai, daiUsdc } = createRouter();
+  const quote = router.quoteExactIn('ETH', 'USDC', 10);
+  assert.deepEqual(quote.legs.map(leg => leg.tokens), [['ETH', 'DAI', 'USDC']]);
+
+  const executed = router.execute(quote);
+  const [first, second] = executed.legs[0].hops;
+  assert.equal(second.amountIn, first.amountOut);
+  assert.ok(Math.abs(executed.amountOut - quote.amountOut) < 1e-9);
+  assert.equal(ethDai.getState().tokenAReserve, 1010);
+  assert.ok(daiUsdc.getState().tokenBReserve < 5000000);
+});
+
+test('a hop that misses its minimum output leaves every pool unchanged', () => {
+  const { router, ethDai, daiUsdc } = createRouter();
+  const quote = router.quoteExactIn('ETH', 'USDC', 10);
+
+  // Someone else moves the second pool after the quote
+  daiUsdc.executeSwap(500000, 'A');
+  const before = [ethDai.getState(), daiUsdc.getState()];
+
+  assert.throws(() => router.execute(quote, 0.001), SlippageError);
+  assert.deepEqual([ethDai.getState(), daiUsdc.getState()], before);
+});
+
+test('swap limits are checked against the quote before any pool is touched', () => {
+  const { router, ethDai, daiUsdc } = createRouter();
+  const before = [ethDai.getState(), daiUsdc.getState()];
+  const quote = router.quoteExactIn('ETH', 'USDC', 10);
+
+  assert.throws(() => router.swapExactIn('ETH', 'USDC', 10, quote.amountOut * 1.01), SlippageError);
+  assert.throws(() => router.swapExactOut('ETH', 'USDC', quote.amountOut, 9), SlippageError);
+  assert.deepEqual([ethDai.getState(), daiUsdc.getState()], before);
+});
+
+test('tokens with no connecting pools have no route', () => {
+  const { router } = createRouter();
+  assert.throws(() => router.quoteExactIn('ETH', 'WBTC', 1), /No route from ETH to WBTC/);
+});
+
+// Two ETH/USDC pools at the same price, so an order is best split across them
+function createParallelRouter(): { router: SwapRouter; deep: LiquidityPool; shallow: LiquidityPool } {
+  const deep = createPool(1000, 2000000);
+  const shallow = createPool(500, 1000000);
+  const registry = new PoolRegistry();
+  registry.register('deep', deep, 'ETH', 'USDC');
+  registry.register('shallow', shallow, 'ETH', 'USDC');
+  return { router: new SwapRouter(registry), deep, shallow };
+}
+
+test('parallel pools split an exact-in order and beat the best single pool', () => {
+  const { router, deep, shallow } = createParallelRouter();
+  const single = deep.getAmountOut(100, 'A');
+  const quote = router.quoteExactIn('ETH', 'USDC', 100);
+
+  assert.deepEqual(quote.legs.map(leg => leg.poolIds).sort(), [['deep'], ['shallow']]);
+  assert.ok(Math.abs(quote.amountIn - 100) < 1e-9);
+  assert.ok(quote.amountOut > single);
+
+  const executed = router.execute(quote);
+  assert.ok(Math.abs(executed.amountOut - quote.amountOut) < 1e-6);
+  assert.ok(deep.getState().tokenAReserve > 1000);
+  assert.ok(shallow.getState().tokenAReserve > 500);
+});
+
+test('an exact-out swap delivers exactly the requested amount for less than one pool would take', () => {
+  const { router, deep, shallow } = createParallelRouter();
+  const single = deep.getAmountIn(150000, 'B');
+  const quote = router.quoteExactOut('ETH', 'USDC', 150000);
+
+  assert.equal(quote.legs.length, 2);
+  assert.ok(Math.abs(quote.amountOut - 150000) < 1e-6);
+  assert.ok(quote.amountIn < single);
+
+  const executed = router.swapExactOut('ETH', 'USDC', 150000, quote.amountIn);
+  assert.ok(Math.abs(executed.amountOut - 150000) < 1e-6);
+  const paidIn = deep.getState().tokenAReserve - 1000 + shallow.getState().tokenAReserve - 500;
+  assert.ok(Math.abs(paidIn - quote.amountIn) < 1e-9);
+});
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MarketMaker } from '../marketMaker';
+import { ManualClock } from '../clock';
+import { SeededIdGenerator } from '../ids';
+import { validateMarketMakerSnapshot } from '../snapshot';
+import type { MarketData, MarketMakerSnapshot } from '../types';
+
+const marketData: MarketData = {
+  symbol: 'TEST',
+  lastPrice: 100,
+  bidPrice: 99.95,
+  askPrice: 100.05,
+  volume24h: 0,
+  high24h: 101,
+  low24h: 99,
+  volatility: 0.01,
+};
+
+function roundTrip(snapshot: MarketMakerSnapshot): MarketMakerSnapshot {
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+test('a JSON round-trip keeps risk limits disabled with Infinity', () => {
+  const clock = new ManualClock(1000);
+  const mm = new MarketMaker({ risk: { maxDailyLoss: Infinity, maxDrawdown: Infinity } }, clock);
+  mm.placeOrders(mm.generateQuotes(marketData));
+
+  const snapshot = roundTrip(mm.createSnapshot());
+  assert.equal(snapshot.config.risk.maxDailyLoss, null);
+  assert.deepEqual(validateMarketMakerSnapshot(snapshot), []);
+
+  const restored = new MarketMaker({}, clock);
+  restored.restoreSnapshot(snapshot);
+  assert.equal(restored.getConfig().risk.maxDailyLoss, Infinity);
+  assert.equal(restored.getConfig().risk.maxDrawdown, Infinity);
+
+  restored.processFill(restored.getActiveOrders('buy')[0].id, 100, 99.95);
+  restored.processFill(restored.getActiveOrders('sell')[0].id, 100, 90);
+  restored.generateQuotes(marketData);
+  assert.equal(restored.getRiskState().halted, false);
+});
+
+test('restore rejects an invalid config before changing any state', () => {
+  const clock = new ManualClock(1000);
+  const mm = new MarketMaker({}, clock);
+  const snapshot = roundTrip(mm.createSnapshot());
+  (snapshot.config.spread as { baseSpread: unknown }).baseSpread = 'wide';
+
+  const target = new MarketMaker({ orderSize: 50 }, clock);
+  assert.throws(() => target.restoreSnapshot(snapshot), /config: spread\.baseSpread: expected a number/);
+  assert.equal(target.getConfig().orderSize, 50);
+});
+
+test('a restored maker resumes with the same orders, trades and positions', () => {
+  const clock = new ManualClock(1000);
+  const mm = new MarketMaker({}, clock, new SeededIdGenerator(3));
+  const { bidOrders } = mm.placeOrders(mm.generateQuotes(marketData));
+  mm.processFill(bidOrders[0].id, 40, bidOrders[0].price);
+
+  const restored = new MarketMaker({}, clock, new SeededIdGenerator(3));
+  restored.restoreSnapshot(roundTrip(mm.createSnapshot()));
+
+  assert.deepEqual(restored.getActiveOrders(), mm.getActiveOrders());
+  assert.deepEqual(restored.getPosition(100), mm.getPosition(100));
+  assert.deepEqual(restored.createSnapshot(), mm.createSnapshot());
+});
+
+test('orders placed after a restore never reuse restored IDs', () => {
+  const clock = new ManualClock(1000);
+  const mm = new MarketMaker({ ladder: { levels: 3 } }, clock, new SeededIdGenerator(7));
+  mm.placeOrders(mm.generateQuotes(marketData));
+  const snapshot = roundTrip(mm.createSnapshot());
+
+  const restored = new MarketMaker({}, clock, new SeededIdGenerator(7));
+  restored.restoreSnapshot(snapshot);
+  const order = restored.placeOrder('buy', 99.5, 20);
+
+  assert.equal(order.status, 'pending');
+  assert.ok(!snapshot.activeOrders.some(resting => resting.id === order.id));
+  assert.equal(restored.getActiveOrders().length, snapshot.activeOrders.length + 1);
+  assert.equal(order.id, mm.placeOrder('buy', 99.5, 20).id);
+});
+
+test('snapshots from before ID sequences were recorded still restore', () => {
+  const clock = new ManualClock(1000);
+  const snapshot = roundTrip(new MarketMaker({}, clock, new SeededIdGenerator(1)).createSnapshot());
+  const legacy = { ...snapshot, version: 3 } as Partial<MarketMakerSnapshot>;
+  delete legacy.idSequence;
+
+  const restored = new MarketMaker({}, clock, new SeededIdGenerator(1));
+  restored.restoreSnapshot(legacy as MarketMakerSnapshot);
+  assert.equal(restored.createSnapshot().idSequence, 0);
+});
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { StableSwapPool, calculateStableSwapD } from '../stableSwapPool';
+import { ManualClock } from '../clock';
+import { InsufficientLiquidityError, SlippageError } from '../poolErrors';
+
+function createPool(clock: ManualClock = new ManualClock(0), amplification: number = 100): StableSwapPool {
+  const pool = new StableSwapPool(3, amplification, 0.0004, clock);
+  pool.addLiquidity([1000000, 1000000, 1000000]);
+  return pool;
+}
+
+function assertClose(actual: number, expected: number, tolerance: number = 1e-6): void {
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} != ${expected}`);
+}
+
+test('a balanced pool has D equal to the sum of balances', () => {
+  const pool = createPool();
+  const state = pool.getState();
+
+  assertClose(calculateStableSwapD([1000000, 1000000, 1000000], 100), 3000000);
+  assertClose(state.virtualPrice, 1);
+  assertClose(pool.getSpotPrice(0, 2), 1);
+});
+
+test('swaps trade near par and quote exact-out consistently', () => {
+  const pool = createPool();
+  const result = pool.simulateSwap(10000, 0, 2);
+
+  assert.ok(result.amountOut < 10000 * (1 - 0.0004));
+  assert.ok(result.amountOut > 9990);
+  assertClose(pool.getAmountIn(result.amountOut, 2, 0), 10000, 1e-4);
+
+  pool.executeSwap(10000, 0, 0, 2);
+  const { balances } = pool.getState();
+  assert.equal(balances[0], 1010000);
+  assertClose(balances[2], 1000000 - result.amountOut);
+  assert.equal(balances[1], 1000000);
+});
+
+test('a higher amplification gives less slippage', () => {
+  const low = createPool(new ManualClock(0), 5).simulateSwap(200000, 0, 1);
+  const high = createPool(new ManualClock(0), 500).simulateSwap(200000, 0, 1);
+  assert.ok(high.amountOut > low.amountOut);
+  assert.ok(high.priceImpact < low.priceImpact);
+});
+
+test('A ramps linearly and stops at the target', () => {
+  const clock = new ManualClock(0);
+  const pool = createPool(clock);
+  pool.rampA(300, 1000);
+
+  clock.advance(250);
+  assertClose(pool.getA(), 150);
+  const before = pool.simulateSwap(200000, 0, 1).amountOut;
+
+  clock.advance(250);
+  assertClose(pool.getA(), 200);
+  assert.ok(pool.simulateSwap(200000, 0, 1).amountOut > before);
+
+  clock.advance(1000);
+  assert.equal(pool.getA(), 300);
+  assert.equal(pool.getState().amplification, 300);
+});
+
+test('stopping a ramp freezes A where it is', () => {
+  const clock = new ManualClock(0);
+  const pool = createPool(clock);
+  pool.rampA(50, 1000);
+  clock.advance(500);
+  pool.stopRampA();
+
+  clock.advance(1000);
+  assertClose(pool.getA(), 75);
+});
+
+test('a ramp may change A by at most 10x', () => {
+  const pool = createPool();
+  assert.throws(() => pool.rampA(1001, 1000), /at most 10x/);
+  assert.throws(() => pool.rampA(9, 1000), /at most 10x/);
+  assert.throws(() => pool.rampA(200, 0), /Ramp duration must be positive/);
+  pool.rampA(1000, 1000);
+});
+
+test('imbalanced deposits pay a fee and proportional withdrawals do not', () => {
+  const pool = createPool();
+  const balanced = pool.addLiquidity([1000, 1000, 1000]);
+  assert.deepEqual(balanced.fees.map(fee => Math.round(fee * 1e6)), [0, 0, 0]);
+
+  const imbalanced = pool.addLiquidity([3000, 0, 0]);
+  assert.ok(imbalanced.fees[0] > 0);
+  assert.ok(imbalanced.lpTokensReceived < balanced.lpTokensReceived);
+
+  const supply = pool.getState().lpTokenSupply;
+  const removed = pool.removeLiquidity(supply / 2);
+  assert.equal(removed.fee, 0);
+  assert.deepEqual(pool.getState().balances, removed.amounts);
+});
+
+test('slippage and liquidity limits are enforced', () => {
+  const pool = createPool();
+  const before = pool.getState();
+
+  assert.throws(() => pool.executeSwap(1000, 0, 1000, 1), SlippageError);
+  assert.throws(() => pool.getAmountIn(1000000, 1, 0), InsufficientLiquidityError);
+  assert.throws(() => pool.simulateSwap(1, 0, 0), /Invalid token index/);
+  assert.deepEqual(pool.getState(), before);
+});
@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { EwmaVolatility, GarchVolatility, garchLogLikelihood } from '../volatility';
+import { createSeededRandom } from '../ids';
+import { MarketMaker } from '../marketMaker';
+import { ManualClock } from '../clock';
+import type { QuoteGeneratedEvent } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Returns drawn from a GARCH(1,1) process with standard normal shocks
+function simulateGarch(count: number, omega: number, alpha: number, beta: number, seed: number): number[] {
+  const random = createSeededRandom(seed);
+  const returns: number[] = [];
+  let variance = omega / (1 - alpha - beta);
+  for (let i = 0; i < count; i++) {
+    const shock = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    const r = Math.sqrt(variance) * shock;
+    returns.push(r);
+    variance = omega + alpha * r * r + beta * variance;
+  }
+  return returns;
+}
+
+test('GARCH fit recovers the parameters of a simulated process', () => {
+  const returns = simulateGarch(3000, 0.00001, 0.1, 0.85, 42);
+  const garch = new GarchVolatility();
+  const fit = garch.fit(returns);
+
+  assert.ok(Math.abs(fit.alpha - 0.1) < 0.05, `alpha ${fit.alpha}`);
+  assert.ok(Math.abs(fit.beta - 0.85) < 0.08, `beta ${fit.beta}`);
+  assert.ok(fit.alpha + fit.beta < 1);
+  assert.deepEqual(
+    { omega: garch.getConfig().omega, alpha: garch.getConfig().alpha, beta: garch.getConfig().beta },
+    { omega: fit.omega, alpha: fit.alpha, beta: fit.beta }
+  );
+});
+
+test('GARCH fit targets the sample variance and beats the starting parameters', () => {
+  const returns = simulateGarch(1000, 0.00002, 0.15, 0.8, 7);
+  const sampleVariance = returns.reduce((sum, r) => sum + r * r, 0) / returns.length;
+  const fit = new GarchVolatility().fit(returns);
+
+  assert.ok(Math.abs(fit.longRunVariance - sampleVariance) < 1e-15);
+  assert.ok(Math.abs(fit.omega / (1 - fit.alpha - fit.beta) - sampleVariance) < 1e-12);
+  const start = garchLogLikelihood(returns, sampleVariance * 0.05, 0.05, 0.9, sampleVariance);
+  assert.ok(fit.logLikelihood >= start);
+});
+
+test('GARCH forecasts decay toward the long-run variance', () => {
+  const garch = new GarchVolatility();
+  garch.fit(simulateGarch(500, 0.00001, 0.1, 0.85, 3));
+  const longRun = garch.getLongRunVariance();
+
+  const { alpha, beta } = garch.getConfig();
+  const gap = garch.getVariance() - longRun;
+
+  assert.equal(garch.forecastVariance(1), garch.getVariance());
+  assert.ok(Math.abs(garch.forecastVariance(200) - longRun - gap * Math.pow(alpha + beta, 199)) < 1e-15);
+  assert.ok(Math.abs(garch.forecastVariance(200) - longRun) < Math.abs(gap));
+});
+
+test('GARCH fit rejects samples it cannot fit', () => {
+  const garch = new GarchVolatility();
+  assert.throws(() => garch.fit([0.01, -0.01]), /at least 10 returns/);
+  assert.throws(() => garch.fit(new Array(20).fill(0)), /non-zero returns/);
+  assert.throws(() => new GarchVolatility({ alpha: 0.2, beta: 0.8 }), /stationary/);
+});
+
+test('fitPrices continues streaming from the last price', () => {
+  const returns = simulateGarch(200, 0.00001, 0.1, 0.85, 11);
+  const prices = [100];
+  for (const r of returns) prices.push(prices[prices.length - 1] * Math.exp(r));
+
+  const garch = new GarchVolatility();
+  garch.fitPrices(prices);
+  const variance = garch.getVariance();
+  const { omega, alpha, beta } = garch.getConfig();
+
+  garch.update(prices[prices.length - 1] * Math.exp(0.02));
+  assert.ok(garch.isReady());
+  assert.ok(Math.abs(garch.getVariance() - (omega + alpha * 0.02 * 0.02 + beta * variance)) < 1e-15);
+});
+
+test('EWMA variance of a constant-size return converges to its square', () => {
+  const ewma = new EwmaVolatility({ lambda: 0.9 });
+  let price = 100;
+  for (let i = 0; i < 200; i++) {
+    price *= i % 2 === 0 ? Math.exp(0.01) : Math.exp(-0.01);
+    ewma.update(price);
+  }
+  assert.ok(Math.abs(ewma.getVariance() - 0.0001) < 1e-12);
+});
+
+test('an estimator with the default horizon drives quotes on the daily scale', () => {
+  // Hourly ticks from a walk with 2% daily volatility
+  const random = createSeededRandom(11);
+  const estimator = new EwmaVolatility({ periodMs: HOUR_MS });
+  let price = 100;
+  for (let hour = 0; hour <= 24 * 30; hour++) {
+    const shock = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    price *= Math.exp((0.02 / Math.sqrt(24)) * shock);
+    estimator.update(price, hour * HOUR_MS);
+  }
+  assert.ok(Math.abs(estimator.getVolatility() - 0.02) < 0.01, `volatility ${estimator.getVolatility()}`);
+
+  const mm = new MarketMaker({ priceTickSize: 0.01 }, new ManualClock(0));
+  mm.setVolatilityEstimator(estimator);
+  const events: QuoteGeneratedEvent[] = [];
+  mm.on('quote-generated', event => events.push(event));
+
+  const quote = mm.generateQuotes({
+    symbol: 'TEST',
+    lastPrice: price,
+    bidPrice: price - 0.05,
+    askPrice: price + 0.05,
+    volume24h: 1000000,
+    high24h: price * 1.02,
+    low24h: price * 0.98,
+    volatility: 0.01,
+  });
+
+  assert.equal(mm.isHalted(), false);
+  assert.equal(events[0].marketData.volatility, estimator.getVolatility());
+  assert.ok(quote.askPrice - quote.bidPrice <= price * mm.getConfig().spread.maxSpread + 0.01);
+  assert.equal(mm.placeOrders(quote).bidOrders.length, 1);
+});
@@ -10,6 +10,18 @@ export interface OrderBook {
   timestamp: number;
 }
 
+export type FairValueMethod = 'mid' | 'microprice' | 'depth-weighted';
+
+export interface OrderBookQuotingConfig {
+  fairValue: FairValueMethod;
+  depthLevels: number;
+  imbalanceSkewMultiplier: number;
+  improveDepthThreshold: number;
+  behindDepthThreshold: number;
+}
+
+export type QueuePlacement = 'join' | 'improve' | 'behind' | 'model';
+
 export interface Quote {
   bidPrice: number;
   bidSize: number;
@@ -17,6 +29,33 @@ export interface Quote {
   askSize: number;
   spread: number;
   midPrice: number;
+  ladder?: QuoteLadder;
+}
+
+export type LadderSpacing = 'ticks' | 'bps' | 'geometric';
+
+export type LadderSizeDistribution = 'flat' | 'linear' | 'exponential';
+
+export interface LadderConfig {
+  levels: number;
+  spacing: LadderSpacing;
+  spacingValue: number;
+  spacingRatio: number;
+  sizeDistribution: LadderSizeDistribution;
+  sizeFactor: number;
+  inventorySkewMultiplier: number;
+}
+
+export interface QuoteLadderLevel {
+  level: number;
+  price: number;
+  size: number;
+}
+
+export interface QuoteLadder {
+  bids: QuoteLadderLevel[];
+  asks: QuoteLadderLevel[];
+  midPrice: number;
 }
 
 export interface Position {
@@ -26,6 +65,29 @@ export interface Position {
   unrealizedPnL: number;
 }
 
+export type AccountingMethod = 'fifo' | 'lifo' | 'average';
+
+export interface Lot {
+  tradeId: string;
+  size: number;
+  price: number;
+  timestamp: number;
+}
+
+export interface LedgerSummary {
+  method: AccountingMethod;
+  position: number;
+  avgEntryPrice: number;
+  grossRealizedPnL: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalFees: number;
+  totalPnL: number;
+  cashFlow: number;
+  markToMarket: number;
+  fillCount: number;
+}
+
 export interface InventoryState {
   currentInventory: number;
   targetInventory: number;
@@ -33,6 +95,7 @@ export interface InventoryState {
   skewFactor: number;
   maxInventory: number;
   minInventory: number;
+  lastUpdate: number;
 }
 
 export interface SpreadConfig {
@@ -43,6 +106,84 @@ export interface SpreadConfig {
   inventorySkewMultiplier: number;
 }
 
+export interface AvellanedaStoikovConfig {
+  riskAversion: number;
+  orderArrivalIntensity: number;
+  timeHorizon: number;
+  sessionLengthMs: number;
+  minSpread: number;
+  maxSpread: number;
+}
+
+export interface VolatilityEstimator {
+  getVolatility(): number;
+  getPeriodVolatility(): number;
+  isReady(): boolean;
+  reset(): void;
+}
+
+export interface OhlcBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  timestamp: number;
+}
+
+export interface EwmaVolatilityConfig {
+  lambda: number;
+  periodMs: number;
+  horizonMs: number;
+  minObservations: number;
+}
+
+export type RangeVolatilityMethod = 'parkinson' | 'garman-klass';
+
+export interface RangeVolatilityConfig {
+  method: RangeVolatilityMethod;
+  window: number;
+  periodMs: number;
+  horizonMs: number;
+}
+
+export interface RealizedVolatilityConfig {
+  windowMs: number;
+  periodMs: number;
+  horizonMs: number;
+  minObservations: number;
+}
+
+export interface GarchConfig {
+  omega: number;
+  alpha: number;
+  beta: number;
+  periodMs: number;
+  horizonMs: number;
+  minObservations: number;
+}
+
+export interface GarchFitResult {
+  omega: number;
+  alpha: number;
+  beta: number;
+  longRunVariance: number;
+  logLikelihood: number;
+  iterations: number;
+}
+
+export type QuoteModelType = 'spread' | 'avellaneda-stoikov';
+
+export interface QuoteModel {
+  // Prices must be multiples of priceTickSize or the pre-trade checks reject them
+  generateQuote(
+    midPrice: number,
+    marketData: MarketData,
+    inventoryState: InventoryState,
+    orderSize: number,
+    priceTickSize: number
+  ): Quote;
+}
+
 export interface InventoryConfig {
   targetInventory: number;
   maxInventory: number;
@@ -51,15 +192,121 @@ export interface InventoryConfig {
   skewSensitivity: number;
 }
 
+export interface RiskConfig {
+  maxNotionalExposure: number;
+  maxDailyLoss: number;
+  maxTotalLoss: number;
+  maxDrawdown: number;
+  maxOrdersPerInterval: number;
+  orderRateIntervalMs: number;
+  maxVolatility: number;
+  maxPriceMove: number;
+  priceMoveWindowMs: number;
+  maxOracleDeviation: number;
+}
+
+export type RiskBreachType =
+  | 'notional-exposure'
+  | 'daily-loss'
+  | 'total-loss'
+  | 'drawdown'
+  | 'order-rate'
+  | 'volatility'
+  | 'price-move'
+  | 'oracle-deviation';
+
+export interface RiskBreach {
+  type: RiskBreachType;
+  message: string;
+  value: number;
+  limit: number;
+  timestamp: number;
+}
+
+export interface RiskSnapshot {
+  realizedPnL: number;
+  unrealizedPnL: number;
+  inventory: number;
+  markPrice: number;
+  timestamp: number;
+}
+
+export interface RiskState {
+  halted: boolean;
+  haltReason: RiskBreach | null;
+  peakEquity: number;
+  currentEquity: number;
+  drawdown: number;
+  dailyPnL: number;
+  ordersInInterval: number;
+}
+
 export interface MarketMakerConfig {
   spread: SpreadConfig;
   inventory: InventoryConfig;
+  quoteModel: QuoteModelType;
+  avellanedaStoikov: AvellanedaStoikovConfig;
+  ladder: LadderConfig;
+  orderBook: OrderBookQuotingConfig;
+  accountingMethod: AccountingMethod;
+  feeRate: number;
+  risk: RiskConfig;
   orderSize: number;
   maxOrderSize: number;
   minOrderSize: number;
   priceTickSize: number;
   sizeTickSize: number;
   updateIntervalMs: number;
+  oracle: OracleQuotingConfig;
+  preTrade: PreTradeConfig;
+}
+
+// Nested objects may be partial too; arrays are replaced as a whole
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+export type ConfigFormat = 'json' | 'yaml';
+
+export interface ConfigLoadOptions {
+  format: ConfigFormat | null;
+  env: Record<string, string | undefined> | null;
+  envPrefix: string;
+}
+
+export interface ConfigWatcherConfig extends ConfigLoadOptions {
+  intervalMs: number;
+}
+
+export interface ConfigAppliedEvent {
+  path: string;
+  changes: string[];
+  config: MarketMakerConfig;
+  timestamp: number;
+}
+
+export interface ConfigRejectedEvent {
+  path: string;
+  reason: string;
+  timestamp: number;
+}
+
+// Prefixed variables that match no config field
+export interface ConfigEnvIgnoredEvent {
+  path: string;
+  names: string[];
+  timestamp: number;
+}
+
+export interface ConfigWatcherEvents {
+  'config-applied': ConfigAppliedEvent;
+  'config-rejected': ConfigRejectedEvent;
+  'config-env-ignored': ConfigEnvIgnoredEvent;
+}
+
+export interface EnvOverrides {
+  overrides: DeepPartial<MarketMakerConfig>;
+  ignored: string[];
 }
 
 export interface Trade {
@@ -79,18 +326,60 @@ export interface MarketData {
   volume24h: number;
   high24h: number;
   low24h: number;
+  // Daily volatility of returns, e.g. 0.01 for 1%
   volatility: number;
 }
 
-export interface PoolState {
-  tokenAReserve: number;
-  tokenBReserve: number;
-  totalLiquidity: number;
-  lpTokenSupply: number;
+// Pool amounts are floats by default and raw integer units in fixed-point mode
+export type PoolAmount = number | bigint;
+
+export interface PoolState<T extends PoolAmount = number> {
+  tokenAReserve: T;
+  tokenBReserve: T;
+  totalLiquidity: T;
+  lpTokenSupply: T;
   fee: number;
   lastUpdate: number;
 }
 
+export interface LiquidityPoolState extends PoolState {
+  feesCollectedA: number;
+  feesCollectedB: number;
+  protocolFeesA: number;
+  protocolFeesB: number;
+  protocolFeeShare: number;
+  feeRecipient: string;
+}
+
+export interface ConcentratedPoolState extends PoolState {
+  sqrtPrice: number;
+  currentTick: number;
+  tickSpacing: number;
+  initializedTicks: number;
+}
+
+export interface StableSwapPoolState extends PoolState {
+  balances: number[];
+  amplification: number;
+  virtualPrice: number;
+}
+
+// Amounts are numbers except for the fixed-point pool, which uses bigint
+// raw units
+export interface AmmPool<T extends PoolAmount = number> {
+  getState(): PoolState<T>;
+  getPrice(): number;
+  simulateSwap(amountIn: T, tokenIn: 'A' | 'B'): SwapResult<T>;
+  executeSwap(amountIn: T, tokenIn: 'A' | 'B', minAmountOut?: T): SwapResult<T>;
+  reset(): void;
+}
+
+export interface RoutablePool<T extends PoolAmount = number> extends AmmPool<T> {
+  getAmountIn(amountOut: T, tokenOut: 'A' | 'B'): T;
+  getSpotPrice(tokenIn: 'A' | 'B'): number;
+  clone(): RoutablePool<T>;
+}
+
 export interface LiquidityPosition {
   lpTokens: number;
   shareOfPool: number;
@@ -101,30 +390,185 @@ export interface LiquidityPosition {
   impermanentLoss: number;
 }
 
-export interface SwapResult {
-  amountIn: number;
-  amountOut: number;
+export interface TrackedLiquidityPosition extends LiquidityPosition {
+  positionId: string;
+  depositedA: number;
+  depositedB: number;
+  hodlValue: number;
+  feesEarnedA: number;
+  feesEarnedB: number;
+  feesValue: number;
+  netPnL: number;
+  openedAt: number;
+}
+
+export interface SwapResult<T extends PoolAmount = number> {
+  amountIn: T;
+  amountOut: T;
   priceImpact: number;
-  fee: number;
+  fee: T;
   newPrice: number;
 }
 
-export interface AddLiquidityResult {
-  lpTokensReceived: number;
-  tokenADeposited: number;
-  tokenBDeposited: number;
+export interface AddLiquidityResult<T extends PoolAmount = number> {
+  lpTokensReceived: T;
+  tokenADeposited: T;
+  tokenBDeposited: T;
   shareOfPool: number;
 }
 
-export interface RemoveLiquidityResult {
-  lpTokensBurned: number;
-  tokenAReceived: number;
-  tokenBReceived: number;
-  fee: number;
+export interface RemoveLiquidityResult<T extends PoolAmount = number> {
+  lpTokensBurned: T;
+  tokenAReceived: T;
+  tokenBReceived: T;
+  fee: T;
+}
+
+export interface PoolFeeContext {
+  tokenIn: 'A' | 'B';
+  tokenAReserve: number;
+  tokenBReserve: number;
+  // Pool price of token A in token B before and after the swap, ignoring the fee
+  priceBefore: number;
+  priceAfter: number;
+  timestamp: number;
+}
+
+export interface PoolFeePolicy {
+  getFee(context: PoolFeeContext): number;
+}
+
+export interface VolatilityFeeConfig {
+  baseFee: number;
+  volatilityMultiplier: number;
+  minFee: number;
+  maxFee: number;
+}
+
+export interface DirectionalFeeConfig {
+  baseFee: number;
+  imbalanceMultiplier: number;
+  minFee: number;
+  maxFee: number;
+  referencePrice: number | null;
+}
+
+export interface ProtocolFeeClaim {
+  recipient: string;
+  tokenA: number;
+  tokenB: number;
+  timestamp: number;
+}
+
+export interface PriceOracleConfig {
+  cardinality: number;
+}
+
+// Cumulative sums of price * seconds since the oracle started; price A is
+// token A in token B, price B its inverse
+export interface OracleObservation {
+  timestamp: number;
+  priceACumulative: number;
+  priceBCumulative: number;
+  logPriceCumulative: number;
+}
+
+export interface OracleConsultation {
+  windowSeconds: number;
+  startTime: number;
+  endTime: number;
+  twap: number;
+  inverseTwap: number;
+  geometricMeanPrice: number;
+}
+
+export interface PriceOracleSnapshot {
+  cardinality: number;
+  reserveA: number;
+  reserveB: number;
+  priceACumulative: number;
+  priceBCumulative: number;
+  logPriceCumulative: number;
+  lastTimestamp: number | null;
+  observations: OracleObservation[];
+}
+
+export type OracleQuotingMode = 'off' | 'reference' | 'band';
+
+export type OraclePriceType = 'arithmetic' | 'geometric';
+
+export interface OracleQuotingConfig {
+  mode: OracleQuotingMode;
+  priceType: OraclePriceType;
+  windowSeconds: number;
+}
+
+// maxPriceDeviation is the largest fraction an order price may be away from mid
+export interface PreTradeConfig {
+  maxPriceDeviation: number;
+  selfTradePrevention: boolean;
+}
+
+export type PoolErrorCode = 'slippage-exceeded' | 'insufficient-liquidity';
+
+export type SlippageBound = 'min-out' | 'max-in';
+
+export interface FixedPointPoolConfig {
+  feeNumerator: number;
+  feeDenominator: number;
+  decimalsA: number;
+  decimalsB: number;
+}
+
+export interface ConcentratedPosition {
+  positionId: string;
+  owner: string;
+  tickLower: number;
+  tickUpper: number;
+  priceLower: number;
+  priceUpper: number;
+  liquidity: number;
+  tokenAAmount: number;
+  tokenBAmount: number;
+  feesOwedA: number;
+  feesOwedB: number;
+  inRange: boolean;
+}
+
+export interface ConcentratedAddLiquidityResult extends AddLiquidityResult {
+  positionId: string;
+  liquidity: number;
+}
+
+export interface ConcentratedRemoveLiquidityResult extends RemoveLiquidityResult {
+  positionId: string;
+  feesA: number;
+  feesB: number;
+}
+
+export interface StableSwapAddLiquidityResult extends AddLiquidityResult {
+  amounts: number[];
+  fees: number[];
+}
+
+export interface StableSwapRemoveLiquidityResult extends RemoveLiquidityResult {
+  amounts: number[];
 }
 
 export type OrderStatus = 'pending' | 'filled' | 'partial' | 'cancelled' | 'rejected';
 
+export type OrderRejectReason =
+  | 'inventory-headroom'
+  | 'size-below-minimum'
+  | 'price-off-tick'
+  | 'price-band'
+  | 'self-trade'
+  | 'risk-limit'
+  | 'venue-rejected';
+
+// Only 'quote' orders are cancelled and replaced by quote updates
+export type OrderPurpose = 'quote' | 'rebalance' | 'hedge' | 'manual';
+
 export interface Order {
   id: string;
   side: 'buy' | 'sell';
@@ -132,10 +576,164 @@ export interface Order {
   size: number;
   filledSize: number;
   status: OrderStatus;
+  rejectReason?: OrderRejectReason;
+  level?: number;
+  parentId?: string;
+  purpose?: OrderPurpose;
   createdAt: number;
   updatedAt: number;
 }
 
+export type ExecutionReportType = 'ack' | 'fill' | 'cancel' | 'replace' | 'reject';
+
+export interface ExecutionReport {
+  type: ExecutionReportType;
+  orderId: string;
+  side: 'buy' | 'sell';
+  price: number;
+  size: number;
+  remainingSize: number;
+  liquidity?: 'maker' | 'taker';
+  reason?: string;
+  timestamp: number;
+}
+
+export type ExecutionReportListener = (report: ExecutionReport) => void;
+
+export interface ExecutionVenue {
+  submitOrder(order: Order): void;
+  cancelOrder(orderId: string): boolean;
+  replaceOrder(orderId: string, price: number, size: number): boolean;
+  setReportListener(listener: ExecutionReportListener | null): void;
+}
+
+export interface MatchingEngineFill {
+  makerOrderId: string;
+  takerOrderId: string;
+  takerSide: 'buy' | 'sell';
+  price: number;
+  size: number;
+  timestamp: number;
+}
+
+export interface Clock {
+  now(): number;
+  schedule(callback: () => void, delayMs: number): () => void;
+}
+
+// Generators whose IDs depend on how many were issued expose that count, so
+// snapshots can resume the sequence instead of reissuing restored IDs
+export interface IdGenerator {
+  next(prefix: string): string;
+  getSequence?(): number;
+  setSequence?(sequence: number): void;
+}
+
+export type MarketDataListener = (marketData: MarketData, orderBook?: OrderBook) => void;
+
+export interface MarketDataSource {
+  getMarketData(): MarketData | null | Promise<MarketData | null>;
+  getOrderBook?(): OrderBook | null | Promise<OrderBook | null>;
+  subscribe?(listener: MarketDataListener): () => void;
+}
+
+export type QuotingMode = 'interval' | 'event';
+
+export interface QuotingEngineConfig {
+  mode: QuotingMode;
+  priceTolerance: number;
+  sizeTolerance: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  backoffMultiplier: number;
+}
+
+export interface OrderUpdateResult {
+  placed: Order[];
+  replaced: Order[];
+  cancelled: Order[];
+  unchanged: Order[];
+  rejected: Order[];
+}
+
+export interface PreTradeContext {
+  minOrderSize: number;
+  priceTickSize: number;
+  // Largest size the inventory and exposure limits allow
+  headroom: number;
+  // Mid the price band is measured from; null until market data arrives
+  referencePrice: number | null;
+  config: PreTradeConfig;
+  restingOrders: Order[];
+}
+
+export interface PreTradeRejection {
+  code: OrderRejectReason;
+  message: string;
+}
+
+export type PreTradeCheck = (order: Order, context: PreTradeContext) => PreTradeRejection | null;
+
+// Largest size a new order may have on top of the maker's own limits, such as
+// a limit shared with other makers. `replacing` is the order being replaced,
+// whose open size is freed by the new one.
+export type OrderHeadroomLimit = (side: 'buy' | 'sell', price: number, replacing?: Order) => number;
+
+export type QuoteCycleStatus = 'quoted' | 'skipped' | 'halted' | 'error';
+
+export interface QuoteCycleResult {
+  status: QuoteCycleStatus;
+  timestamp: number;
+  quote: Quote | null;
+  orders: OrderUpdateResult | null;
+  error: Error | null;
+}
+
+export interface QuotingEngineState {
+  running: boolean;
+  cycles: number;
+  consecutiveErrors: number;
+  lastError: string | null;
+  lastCycleTime: number | null;
+  nextCycleTime: number | null;
+}
+
+export interface PortfolioConfig {
+  quoteBudget: number;
+  maxGrossNotional: number;
+  assetLimits: Record<string, number>;
+  correlations: Record<string, Record<string, number>>;
+  maxCorrelationSkew: number;
+  correlationSkewNotional: number;
+}
+
+export interface PortfolioSymbolConfig {
+  baseAsset: string;
+  quoteAsset: string;
+  weight: number;
+  marketMaker: DeepPartial<MarketMakerConfig>;
+}
+
+export interface SymbolExposure {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  position: number;
+  markPrice: number;
+  notional: number;
+  allocation: number;
+  correlatedNotional: number;
+}
+
+export interface PortfolioState {
+  symbols: SymbolExposure[];
+  assetExposures: Record<string, number>;
+  grossNotional: number;
+  netNotional: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+}
+
 export interface MMStats {
   totalTrades: number;
   totalVolume: number;
@@ -145,3 +743,424 @@ export interface MMStats {
   inventoryTurnover: number;
   uptime: number;
 }
+
+export type EventListener<T> = (event: T) => void;
+
+export interface InventoryLimitEvent {
+  limit: 'max' | 'min';
+  attemptedInventory: number;
+  inventory: number;
+  trade: Trade;
+  timestamp: number;
+}
+
+export interface InventoryEvents {
+  'inventory-limit': InventoryLimitEvent;
+}
+
+export interface SwapEvent {
+  tokenIn: 'A' | 'B';
+  result: SwapResult;
+  protocolFee: number;
+  tokenAReserve: number;
+  tokenBReserve: number;
+  timestamp: number;
+}
+
+export interface LiquidityChangeEvent {
+  action: 'add' | 'remove';
+  owner: string;
+  lpTokens: number;
+  tokenAAmount: number;
+  tokenBAmount: number;
+  lpTokenSupply: number;
+  timestamp: number;
+}
+
+export interface LiquidityPoolEvents {
+  'swap': SwapEvent;
+  'liquidity-changed': LiquidityChangeEvent;
+  'protocol-fees-claimed': ProtocolFeeClaim;
+}
+
+export interface QuoteGeneratedEvent {
+  quote: Quote;
+  marketData: MarketData;
+  orderBook: OrderBook | null;
+  inventory: InventoryState;
+  fairValue: number;
+  timestamp: number;
+}
+
+export interface OrderEvent {
+  order: Order;
+  timestamp: number;
+}
+
+export interface OrderRejectedEvent extends OrderEvent {
+  code: OrderRejectReason;
+  reason: string;
+}
+
+export interface FillEvent {
+  order: Order;
+  trade: Trade;
+  timestamp: number;
+}
+
+export interface RebalanceEvent {
+  side: 'buy' | 'sell';
+  size: number;
+  price: number;
+  inventory: number;
+  targetInventory: number;
+  timestamp: number;
+}
+
+export interface RiskHaltEvent {
+  breach: RiskBreach;
+  timestamp: number;
+}
+
+// The halt that resetHalt cleared
+export interface RiskResetEvent {
+  breach: RiskBreach;
+  timestamp: number;
+}
+
+export interface MarketMakerEvents extends InventoryEvents, LiquidityPoolEvents {
+  'quote-generated': QuoteGeneratedEvent;
+  'order-placed': OrderEvent;
+  'order-replaced': OrderEvent;
+  'order-cancelled': OrderEvent;
+  'order-rejected': OrderRejectedEvent;
+  'fill': FillEvent;
+  'rebalance-triggered': RebalanceEvent;
+  'risk-halt': RiskHaltEvent;
+  'risk-reset': RiskResetEvent;
+}
+
+export type HedgePolicy = 'threshold' | 'band' | 'continuous';
+
+export interface HedgeConfig {
+  instrument: string;
+  hedgeRatio: number;
+  policy: HedgePolicy;
+  threshold: number;
+  bandTarget: number;
+  minHedgeSize: number;
+}
+
+export interface HedgeExposure {
+  primaryDelta: number;
+  hedgePosition: number;
+  pendingHedge: number;
+  targetHedge: number;
+  netDelta: number;
+  hedgeMarkPrice: number;
+  hedgeRealizedPnL: number;
+  hedgeUnrealizedPnL: number;
+}
+
+export interface HedgeEvents {
+  'hedge-placed': OrderEvent;
+  'hedge-rejected': OrderRejectedEvent;
+  'hedge-fill': FillEvent;
+}
+
+export type ExecutionAlgorithm = 'twap' | 'vwap' | 'iceberg' | 'passive-aggressive';
+
+export interface ExecutionConfig {
+  algorithm: ExecutionAlgorithm;
+  durationMs: number;
+  sliceIntervalMs: number;
+  volumeProfile: number[];
+  displaySize: number;
+  passiveMs: number;
+  maxParticipation: number;
+  limitPrice: number | null;
+}
+
+export type ParentOrderStatus = 'working' | 'completed' | 'cancelled' | 'expired';
+
+export interface ParentOrder {
+  id: string;
+  side: 'buy' | 'sell';
+  size: number;
+  filledSize: number;
+  workingSize: number;
+  scheduledSize: number;
+  avgFillPrice: number;
+  marketVolume: number;
+  childOrderIds: string[];
+  status: ParentOrderStatus;
+  config: ExecutionConfig;
+  startTime: number;
+  endTime: number;
+  updatedAt: number;
+}
+
+export interface ParentOrderEvent {
+  parent: ParentOrder;
+  timestamp: number;
+}
+
+export interface ExecutionEvents {
+  'parent-created': ParentOrderEvent;
+  'parent-updated': ParentOrderEvent;
+  'parent-finished': ParentOrderEvent;
+}
+
+export interface ArbitrageConfig {
+  venueFeeRate: number;
+  minProfit: number;
+  maxTradeSize: number;
+  slippageTolerance: number;
+}
+
+export type ArbitrageDirection = 'buy-pool-sell-venue' | 'buy-venue-sell-pool';
+
+export interface ArbitragePlan {
+  direction: ArbitrageDirection;
+  tokenIn: 'A' | 'B';
+  amountIn: number;
+  amountOut: number;
+  baseSize: number;
+  venueSide: 'buy' | 'sell';
+  venuePrice: number;
+  poolPrice: number;
+  poolPriceAfter: number;
+  poolFee: number;
+  venueFee: number;
+  expectedProfit: number;
+}
+
+export interface ArbitrageExecution {
+  plan: ArbitragePlan;
+  swap: SwapResult;
+  swapTrade: Trade;
+  // Status 'rejected' if submission failed after the swap
+  hedgeOrder: Order;
+  hedgeTrade: Trade | null;
+}
+
+export interface ArbitrageUnhedgedEvent {
+  execution: ArbitrageExecution;
+  // Token A from the swap that the hedge order does not cover
+  unhedgedSize: number;
+  timestamp: number;
+}
+
+export interface ArbitrageEvents {
+  'arbitrage-unhedged': ArbitrageUnhedgedEvent;
+}
+
+export interface RegisteredPool {
+  id: string;
+  tokenA: string;
+  tokenB: string;
+  pool: RoutablePool;
+}
+
+export interface RoutePath {
+  tokens: string[];
+  pools: RegisteredPool[];
+}
+
+export type SwapType = 'exact-in' | 'exact-out';
+
+export interface RouterConfig {
+  maxHops: number;
+  maxSplits: number;
+  splitSteps: number;
+}
+
+export interface RouteHop {
+  poolId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+}
+
+export interface RouteLeg {
+  tokens: string[];
+  poolIds: string[];
+  amountIn: number;
+  amountOut: number;
+  hops: RouteHop[];
+}
+
+export interface RouteQuote {
+  type: SwapType;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  amountOut: number;
+  legs: RouteLeg[];
+  priceImpact: number;
+}
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export type MetricLabels = Record<string, string>;
+
+export type SnapshotKind = 'market-maker' | 'inventory' | 'liquidity-pool' | 'fixed-point-pool';
+
+export interface InventorySnapshot {
+  kind: 'inventory';
+  version: number;
+  config: InventoryConfig;
+  currentInventory: number;
+  avgEntryPrice: number;
+  lastUpdate: number;
+  tradeHistory: Trade[];
+}
+
+export interface LiquidityPoolPositionSnapshot {
+  owner: string;
+  lpTokens: number;
+  entryPrice: number;
+  depositedA: number;
+  depositedB: number;
+  feeGrowthALast: number;
+  feeGrowthBLast: number;
+  feesEarnedA: number;
+  feesEarnedB: number;
+  openedAt: number;
+}
+
+export interface LiquidityPoolSnapshot {
+  kind: 'liquidity-pool';
+  version: number;
+  fee: number;
+  tokenAReserve: number;
+  tokenBReserve: number;
+  lpTokenSupply: number;
+  feeGrowthPerLpA: number;
+  feeGrowthPerLpB: number;
+  feesCollectedA: number;
+  feesCollectedB: number;
+  protocolFeesA: number;
+  protocolFeesB: number;
+  protocolFeeShare: number;
+  feeRecipient: string;
+  oracle: PriceOracleSnapshot | null;
+  lastUpdate: number;
+  positions: LiquidityPoolPositionSnapshot[];
+}
+
+// Raw amounts are decimal strings so the snapshot survives JSON
+export interface FixedPointPoolSnapshot {
+  kind: 'fixed-point-pool';
+  version: number;
+  config: FixedPointPoolConfig;
+  reserveA: string;
+  reserveB: string;
+  totalSupply: string;
+  balances: { owner: string; balance: string }[];
+  lastUpdate: number;
+}
+
+export interface LedgerSnapshot {
+  method: AccountingMethod;
+  lots: Lot[];
+  grossRealizedPnL: number;
+  totalFees: number;
+  cashFlow: number;
+  fillCount: number;
+}
+
+export interface RiskManagerSnapshot {
+  haltReason: RiskBreach | null;
+  orderTimestamps: number[];
+  priceHistory: { timestamp: number; price: number }[];
+  peakEquity: number;
+  currentEquity: number;
+  currentDay: number;
+  dayStartEquity: number;
+}
+
+export interface MarketMakerSnapshot {
+  kind: 'market-maker';
+  version: number;
+  createdAt: number;
+  config: MarketMakerConfig;
+  running: boolean;
+  startTime: number;
+  totalVolume: number;
+  activeOrders: Order[];
+  tradeHistory: Trade[];
+  quoteModelSessionStart: number | null;
+  idSequence: number | null;
+  inventory: InventorySnapshot;
+  ledger: LedgerSnapshot;
+  risk: RiskManagerSnapshot;
+  pool: LiquidityPoolSnapshot | null;
+}
+
+export type FillModelType = 'touch-through' | 'queue-position' | 'probabilistic';
+
+export interface BacktestConfig {
+  fillModel: FillModelType;
+  latencyMs: number;
+  fillProbability: number;
+  requoteIntervalMs: number;
+  volatility: number | null;
+  volatilityWindow: number;
+  seed: number;
+  random: (() => number) | null;
+}
+
+export interface TopOfBookEvent {
+  type: 'quote';
+  timestamp: number;
+  bidPrice: number;
+  bidSize: number;
+  askPrice: number;
+  askSize: number;
+}
+
+export interface OrderBookEvent {
+  type: 'book';
+  timestamp: number;
+  book: OrderBook;
+}
+
+export interface MarketTradeEvent {
+  type: 'trade';
+  timestamp: number;
+  price: number;
+  size: number;
+  side: 'buy' | 'sell';
+}
+
+export type BacktestEvent = TopOfBookEvent | OrderBookEvent | MarketTradeEvent;
+
+export interface InventorySample {
+  timestamp: number;
+  inventory: number;
+  midPrice: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+}
+
+export interface BacktestReport {
+  startTime: number;
+  endTime: number;
+  eventsProcessed: number;
+  quoteUpdates: number;
+  stats: MMStats;
+  position: Position;
+  inventoryPath: InventorySample[];
+  fills: {
+    count: number;
+    buyCount: number;
+    sellCount: number;
+    buyVolume: number;
+    sellVolume: number;
+  };
+  totalFees: number;
+  finalMidPrice: number;
+  haltReason: RiskBreach | null;
+}
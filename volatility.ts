@@ -0,0 +1,506 @@
+import type {
+  EwmaVolatilityConfig,
+  GarchConfig,
+  GarchFitResult,
+  OhlcBar,
+  RangeVolatilityConfig,
+  RealizedVolatilityConfig,
+  VolatilityEstimator,
+} from './types';
+
+// Estimators report daily volatility by default, the scale of
+// MarketData.volatility that the spread model and risk limits are tuned for
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_EWMA_CONFIG: EwmaVolatilityConfig = {
+  lambda: 0.94,
+  periodMs: DAY_MS,
+  horizonMs: DAY_MS,
+  minObservations: 2,
+};
+
+const DEFAULT_RANGE_CONFIG: RangeVolatilityConfig = {
+  method: 'parkinson',
+  window: 20,
+  periodMs: DAY_MS,
+  horizonMs: DAY_MS,
+};
+
+const DEFAULT_REALIZED_CONFIG: RealizedVolatilityConfig = {
+  windowMs: DAY_MS,
+  periodMs: DAY_MS,
+  horizonMs: DAY_MS,
+  minObservations: 2,
+};
+
+const DEFAULT_GARCH_CONFIG: GarchConfig = {
+  omega: 0.000001,
+  alpha: 0.05,
+  beta: 0.9,
+  periodMs: DAY_MS,
+  horizonMs: DAY_MS,
+  minObservations: 2,
+};
+
+const GARCH_MAX_ITERATIONS = 500;
+const GARCH_TOLERANCE = 1e-9;
+
+// RiskMetrics-style exponentially weighted variance of log returns. With
+// timestamps, each squared return is scaled to one periodMs so irregular
+// ticks don't bias the estimate.
+export class EwmaVolatility implements VolatilityEstimator {
+  private config: EwmaVolatilityConfig;
+  private variance: number = 0;
+  private lastPrice: number | null = null;
+  private lastTimestamp: number | null = null;
+  private observations: number = 0;
+
+  constructor(config: Partial<EwmaVolatilityConfig> = {}) {
+    this.config = { ...DEFAULT_EWMA_CONFIG, ...config };
+    if (this.config.lambda <= 0 || this.config.lambda >= 1) {
+      throw new Error('EWMA lambda must be between 0 and 1');
+    }
+  }
+
+  update(price: number, timestamp?: number): number {
+    if (price <= 0) {
+      throw new Error('Price must be positive');
+    }
+
+    if (this.lastPrice !== null) {
+      const squaredReturn = scaleToPeriod(
+        Math.pow(Math.log(price / this.lastPrice), 2),
+        this.lastTimestamp,
+        timestamp,
+        this.config.periodMs
+      );
+      this.variance = this.observations <= 1
+        ? squaredReturn
+        : this.config.lambda * this.variance + (1 - this.config.lambda) * squaredReturn;
+    }
+
+    this.lastPrice = price;
+    this.lastTimestamp = timestamp ?? null;
+    this.observations++;
+    return this.getVolatility();
+  }
+
+  getVariance(): number {
+    return this.variance;
+  }
+
+  getPeriodVolatility(): number {
+    return Math.sqrt(this.variance);
+  }
+
+  getVolatility(): number {
+    return annualize(this.variance, this.config.periodMs, this.config.horizonMs);
+  }
+
+  isReady(): boolean {
+    return this.observations >= this.config.minObservations;
+  }
+
+  reset(): void {
+    this.variance = 0;
+    this.lastPrice = null;
+    this.lastTimestamp = null;
+    this.observations = 0;
+  }
+
+  updateConfig(config: Partial<EwmaVolatilityConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): EwmaVolatilityConfig {
+    return { ...this.config };
+  }
+}
+
+// Parkinson (high/low) and Garman-Klass (OHLC) estimators over a rolling
+// window of bars. Bars can be supplied directly or built from ticks, one bar
+// per periodMs.
+export class RangeVolatility implements VolatilityEstimator {
+  private config: RangeVolatilityConfig;
+  private barVariances: number[] = [];
+  private currentBar: OhlcBar | null = null;
+
+  constructor(config: Partial<RangeVolatilityConfig> = {}) {
+    this.config = { ...DEFAULT_RANGE_CONFIG, ...config };
+    if (this.config.window < 1) {
+      throw new Error('Window must hold at least one bar');
+    }
+  }
+
+  addBar(bar: OhlcBar): number {
+    this.barVariances.push(calculateBarVariance(bar, this.config.method));
+    if (this.barVariances.length > this.config.window) {
+      this.barVariances.shift();
+    }
+    return this.getVolatility();
+  }
+
+  update(price: number, timestamp: number): number {
+    if (price <= 0) {
+      throw new Error('Price must be positive');
+    }
+
+    const barStart = Math.floor(timestamp / this.config.periodMs) * this.config.periodMs;
+    if (this.currentBar && barStart > this.currentBar.timestamp) {
+      this.addBar(this.currentBar);
+      this.currentBar = null;
+    }
+
+    if (!this.currentBar) {
+      this.currentBar = { open: price, high: price, low: price, close: price, timestamp: barStart };
+    } else {
+      this.currentBar.high = Math.max(this.currentBar.high, price);
+      this.currentBar.low = Math.min(this.currentBar.low, price);
+      this.currentBar.close = price;
+    }
+    return this.getVolatility();
+  }
+
+  getVariance(): number {
+    if (this.barVariances.length === 0) return 0;
+    return this.barVariances.reduce((sum, variance) => sum + variance, 0) / this.barVariances.length;
+  }
+
+  getPeriodVolatility(): number {
+    return Math.sqrt(this.getVariance());
+  }
+
+  getVolatility(): number {
+    return annualize(this.getVariance(), this.config.periodMs, this.config.horizonMs);
+  }
+
+  isReady(): boolean {
+    return this.barVariances.length > 0;
+  }
+
+  reset(): void {
+    this.barVariances = [];
+    this.currentBar = null;
+  }
+
+  updateConfig(config: Partial<RangeVolatilityConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.barVariances = this.barVariances.slice(-this.config.window);
+  }
+
+  getConfig(): RangeVolatilityConfig {
+    return { ...this.config };
+  }
+}
+
+// Sum of squared tick log returns over a trailing time window, scaled by the
+// time the window actually covers.
+export class RealizedVolatility implements VolatilityEstimator {
+  private config: RealizedVolatilityConfig;
+  private ticks: { timestamp: number; price: number; squaredReturn: number }[] = [];
+  private sumSquaredReturns: number = 0;
+
+  constructor(config: Partial<RealizedVolatilityConfig> = {}) {
+    this.config = { ...DEFAULT_REALIZED_CONFIG, ...config };
+  }
+
+  update(price: number, timestamp: number): number {
+    if (price <= 0) {
+      throw new Error('Price must be positive');
+    }
+
+    const last = this.ticks[this.ticks.length - 1];
+    if (last && timestamp < last.timestamp) {
+      throw new Error('Ticks must arrive in time order');
+    }
+
+    const squaredReturn = last ? Math.pow(Math.log(price / last.price), 2) : 0;
+    this.ticks.push({ timestamp, price, squaredReturn });
+    this.sumSquaredReturns += squaredReturn;
+
+    // The first tick in the window only anchors the return of the next one
+    const windowStart = timestamp - this.config.windowMs;
+    while (this.ticks.length > 1 && this.ticks[1].timestamp <= windowStart) {
+      this.ticks.shift();
+      this.sumSquaredReturns -= this.ticks[0].squaredReturn;
+      this.ticks[0].squaredReturn = 0;
+    }
+
+    return this.getVolatility();
+  }
+
+  getVariance(): number {
+    const span = this.getSpanMs();
+    if (span <= 0) return 0;
+    return Math.max(0, this.sumSquaredReturns) * this.config.periodMs / span;
+  }
+
+  getPeriodVolatility(): number {
+    return Math.sqrt(this.getVariance());
+  }
+
+  getVolatility(): number {
+    return annualize(this.getVariance(), this.config.periodMs, this.config.horizonMs);
+  }
+
+  private getSpanMs(): number {
+    if (this.ticks.length < 2) return 0;
+    return this.ticks[this.ticks.length - 1].timestamp - this.ticks[0].timestamp;
+  }
+
+  isReady(): boolean {
+    return this.ticks.length >= this.config.minObservations && this.getSpanMs() > 0;
+  }
+
+  reset(): void {
+    this.ticks = [];
+    this.sumSquaredReturns = 0;
+  }
+
+  updateConfig(config: Partial<RealizedVolatilityConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): RealizedVolatilityConfig {
+    return { ...this.config };
+  }
+}
+
+// GARCH(1,1): sigma²(t+1) = omega + alpha * r(t)² + beta * sigma²(t)
+export class GarchVolatility implements VolatilityEstimator {
+  private config: GarchConfig;
+  private variance: number = 0;
+  private lastPrice: number | null = null;
+  private lastTimestamp: number | null = null;
+  private observations: number = 0;
+
+  constructor(config: Partial<GarchConfig> = {}) {
+    this.config = { ...DEFAULT_GARCH_CONFIG, ...config };
+    validateGarchParameters(this.config.omega, this.config.alpha, this.config.beta);
+  }
+
+  update(price: number, timestamp?: number): number {
+    if (price <= 0) {
+      throw new Error('Price must be positive');
+    }
+
+    if (this.lastPrice !== null) {
+      const squaredReturn = scaleToPeriod(
+        Math.pow(Math.log(price / this.lastPrice), 2),
+        this.lastTimestamp,
+        timestamp,
+        this.config.periodMs
+      );
+      this.updateVariance(squaredReturn);
+    }
+
+    this.lastPrice = price;
+    this.lastTimestamp = timestamp ?? null;
+    this.observations++;
+    return this.getVolatility();
+  }
+
+  private updateVariance(squaredReturn: number): void {
+    const { omega, alpha, beta } = this.config;
+    this.variance = this.observations <= 1
+      ? squaredReturn
+      : omega + alpha * squaredReturn + beta * this.variance;
+  }
+
+  // Maximum likelihood fit with variance targeting: omega is pinned to the
+  // sample variance, and alpha/beta are searched with Nelder-Mead. The
+  // conditional variance is then filtered through the sample so the
+  // estimator is ready to continue from the last return.
+  fit(returns: number[]): GarchFitResult {
+    if (returns.length < 10) {
+      throw new Error('GARCH fit needs at least 10 returns');
+    }
+
+    const sampleVariance = returns.reduce((sum, r) => sum + r * r, 0) / returns.length;
+    if (sampleVariance <= 0) {
+      throw new Error('GARCH fit needs non-zero returns');
+    }
+
+    const objective = ([alpha, beta]: number[]): number => {
+      if (alpha < 0 || beta < 0 || alpha + beta >= 0.9999) return Infinity;
+      return -garchLogLikelihood(returns, sampleVariance * (1 - alpha - beta), alpha, beta, sampleVariance);
+    };
+
+    const { point, value, iterations } = minimizeNelderMead(objective, [0.05, 0.9], 0.02);
+    const [alpha, beta] = point;
+    const omega = sampleVariance * (1 - alpha - beta);
+
+    this.config = { ...this.config, omega, alpha, beta };
+    this.variance = sampleVariance;
+    for (const r of returns) {
+      this.variance = omega + alpha * r * r + beta * this.variance;
+    }
+    this.observations = Math.max(this.observations, returns.length + 1);
+
+    return { omega, alpha, beta, longRunVariance: sampleVariance, logLikelihood: -value, iterations };
+  }
+
+  fitPrices(prices: number[]): GarchFitResult {
+    const returns: number[] = [];
+    for (let i = 1; i < prices.length; i++) {
+      returns.push(Math.log(prices[i] / prices[i - 1]));
+    }
+    const result = this.fit(returns);
+    this.lastPrice = prices[prices.length - 1];
+    this.lastTimestamp = null;
+    return result;
+  }
+
+  // Expected per-period variance `steps` periods ahead
+  forecastVariance(steps: number = 1): number {
+    const { alpha, beta } = this.config;
+    const longRun = this.getLongRunVariance();
+    if (!isFinite(longRun)) return this.variance;
+    return longRun + Math.pow(alpha + beta, Math.max(0, steps - 1)) * (this.variance - longRun);
+  }
+
+  getLongRunVariance(): number {
+    const { omega, alpha, beta } = this.config;
+    const persistence = alpha + beta;
+    return persistence < 1 ? omega / (1 - persistence) : Infinity;
+  }
+
+  getVariance(): number {
+    return this.variance;
+  }
+
+  getPeriodVolatility(): number {
+    return Math.sqrt(this.variance);
+  }
+
+  getVolatility(): number {
+    return annualize(this.variance, this.config.periodMs, this.config.horizonMs);
+  }
+
+  isReady(): boolean {
+    return this.observations >= this.config.minObservations;
+  }
+
+  reset(): void {
+    this.variance = 0;
+    this.lastPrice = null;
+    this.lastTimestamp = null;
+    this.observations = 0;
+  }
+
+  updateConfig(config: Partial<GarchConfig>): void {
+    const next = { ...this.config, ...config };
+    validateGarchParameters(next.omega, next.alpha, next.beta);
+    this.config = next;
+  }
+
+  getConfig(): GarchConfig {
+    return { ...this.config };
+  }
+}
+
+export function calculateBarVariance(bar: OhlcBar, method: 'parkinson' | 'garman-klass'): number {
+  if (bar.low <= 0 || bar.high < bar.low || bar.open <= 0 || bar.close <= 0) {
+    throw new Error('Invalid OHLC bar');
+  }
+
+  const highLow = Math.log(bar.high / bar.low);
+  if (method === 'parkinson') {
+    return (highLow * highLow) / (4 * Math.LN2);
+  }
+
+  const closeOpen = Math.log(bar.close / bar.open);
+  return Math.max(0, 0.5 * highLow * highLow - (2 * Math.LN2 - 1) * closeOpen * closeOpen);
+}
+
+export function annualize(periodVariance: number, periodMs: number, horizonMs: number): number {
+  if (periodMs <= 0) return 0;
+  return Math.sqrt(periodVariance * (horizonMs / periodMs));
+}
+
+export function garchLogLikelihood(
+  returns: number[],
+  omega: number,
+  alpha: number,
+  beta: number,
+  initialVariance: number
+): number {
+  let variance = initialVariance;
+  let logLikelihood = 0;
+
+  for (const r of returns) {
+    if (variance <= 0) return -Infinity;
+    logLikelihood -= 0.5 * (Math.log(2 * Math.PI) + Math.log(variance) + (r * r) / variance);
+    variance = omega + alpha * r * r + beta * variance;
+  }
+  return logLikelihood;
+}
+
+function scaleToPeriod(
+  squaredReturn: number,
+  previousTimestamp: number | null,
+  timestamp: number | undefined,
+  periodMs: number
+): number {
+  if (previousTimestamp === null || timestamp === undefined) return squaredReturn;
+
+  const elapsed = timestamp - previousTimestamp;
+  return elapsed > 0 ? squaredReturn * (periodMs / elapsed) : squaredReturn;
+}
+
+function validateGarchParameters(omega: number, alpha: number, beta: number): void {
+  if (omega < 0 || alpha < 0 || beta < 0) {
+    throw new Error('GARCH parameters must be non-negative');
+  }
+  if (alpha + beta >= 1) {
+    throw new Error('GARCH alpha + beta must be below 1 for a stationary process');
+  }
+}
+
+function minimizeNelderMead(
+  objective: (point: number[]) => number,
+  start: number[],
+  step: number
+): { point: number[]; value: number; iterations: number } {
+  let simplex = [start, ...start.map((_, i) => start.map((x, j) => (i === j ? x + step : x)))]
+    .map(point => ({ point, value: objective(point) }));
+
+  let iterations = 0;
+  while (iterations < GARCH_MAX_ITERATIONS) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[simplex.length - 1];
+    if (Math.abs(worst.value - best.value) < GARCH_TOLERANCE) break;
+    iterations++;
+
+    const others = simplex.slice(0, -1);
+    const centroid = start.map((_, i) => others.reduce((sum, v) => sum + v.point[i], 0) / others.length);
+    const along = (t: number) => centroid.map((c, i) => c + t * (worst.point[i] - c));
+
+    const reflected = along(-1);
+    const reflectedValue = objective(reflected);
+    if (reflectedValue < best.value) {
+      const expanded = along(-2);
+      const expandedValue = objective(expanded);
+      simplex[simplex.length - 1] = expandedValue < reflectedValue
+        ? { point: expanded, value: expandedValue }
+        : { point: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[simplex.length - 2].value) {
+      simplex[simplex.length - 1] = { point: reflected, value: reflectedValue };
+    } else {
+      const contracted = along(0.5);
+      const contractedValue = objective(contracted);
+      if (contractedValue < worst.value) {
+        simplex[simplex.length - 1] = { point: contracted, value: contractedValue };
+      } else {
+        simplex = simplex.map(vertex => {
+          const point = vertex.point.map((x, i) => best.point[i] + 0.5 * (x - best.point[i]));
+          return { point, value: objective(point) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return { point: simplex[0].point, value: simplex[0].value, iterations };
+}
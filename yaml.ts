@@ -0,0 +1,299 @@
+interface YamlLine {
+  indent: number;
+  text: string;
+  line: number;
+}
+
+interface FlowState {
+  text: string;
+  pos: number;
+  line: number;
+}
+
+const YAML_KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#[\]{},:-][^:#]*?|-[^\s:#][^:#]*?)\s*:(?:\s+(.*))?$/;
+
+// Characters a plain scalar may not start with; they open YAML features
+// outside the subset below (anchors, aliases, tags, block scalars, directives).
+// A leading "? " marks a complex key.
+const YAML_INDICATORS = '&*!|>%@`';
+
+// Parses the YAML subset config files use and throws on anything else:
+// - one document, optionally opened by "---" and closed by "..."
+// - block mappings and "- " sequences, indented with spaces
+// - flow [..] and {..} collections on a single line
+// - single-line plain, 'single' and "double" quoted scalars
+// - null/~, true/false, decimal, 0x hex, .inf and .nan scalars
+// - # comments
+// Anchors, aliases, tags, block scalars (| and >), multi-line strings,
+// complex keys and directives are rejected with the offending line.
+export function parseYaml(text: string): unknown {
+  const lines: YamlLine[] = [];
+  let ended = false;
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const content = stripYamlComment(raw);
+    const trimmed = content.trim();
+    if (trimmed === '') return;
+    if (ended) {
+      throw yamlError(index + 1, 'content after the end of the document');
+    }
+    if (trimmed === '---') {
+      if (lines.length > 0) throw yamlError(index + 1, 'multiple documents are not supported');
+      return;
+    }
+    if (trimmed === '...') {
+      ended = true;
+      return;
+    }
+
+    const indent = content.length - content.trimStart().length;
+    if (content.slice(0, indent).includes('\t')) {
+      throw yamlError(index + 1, 'tabs are not allowed for indentation');
+    }
+    lines.push({ indent, text: trimmed, line: index + 1 });
+  });
+
+  if (lines.length === 0) return null;
+  if (lines.length === 1 && !isYamlMappingEntry(lines[0].text) && !isYamlSequenceEntry(lines[0].text)) {
+    return parseYamlFlow(lines[0].text, lines[0].line);
+  }
+
+  const [value, next] = parseYamlBlock(lines, 0, lines[0].indent);
+  if (next < lines.length) {
+    throw yamlError(lines[next].line, 'unexpected indentation');
+  }
+  return value;
+}
+
+function parseYamlBlock(lines: YamlLine[], start: number, indent: number): [unknown, number] {
+  return isYamlSequenceEntry(lines[start].text)
+    ? parseYamlSequence(lines, start, indent)
+    : parseYamlMapping(lines, start, indent);
+}
+
+// Entries are collected in a Map and copied with Object.fromEntries, so keys
+// such as "constructor" or "__proto__" become plain own properties
+function parseYamlMapping(lines: YamlLine[], start: number, indent: number): [Record<string, unknown>, number] {
+  const entries = new Map<string, unknown>();
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent) {
+    const line = lines[i];
+    const match = YAML_KEY.exec(line.text);
+    if (!match) {
+      throw yamlError(line.line, `expected "key: value", got "${line.text}"`);
+    }
+
+    const key = /^["']/.test(match[1]) ? String(parseYamlScalar(match[1])) : checkScalar(match[1], line.line);
+    if (entries.has(key)) {
+      throw yamlError(line.line, `duplicate key "${key}"`);
+    }
+
+    i++;
+    const rest = match[2];
+    let value: unknown = null;
+    if (rest !== undefined && rest !== '') {
+      value = parseYamlFlow(rest, line.line);
+    } else if (i < lines.length && lines[i].indent > indent) {
+      [value, i] = parseYamlBlock(lines, i, lines[i].indent);
+    } else if (i < lines.length && lines[i].indent === indent && isYamlSequenceEntry(lines[i].text)) {
+      [value, i] = parseYamlSequence(lines, i, indent);
+    }
+    entries.set(key, value);
+  }
+
+  if (i < lines.length && lines[i].indent > indent) {
+    throw yamlError(lines[i].line, 'unexpected indentation');
+  }
+  return [Object.fromEntries(entries), i];
+}
+
+function parseYamlSequence(lines: YamlLine[], start: number, indent: number): [unknown[], number] {
+  const result: unknown[] = [];
+  let i = start;
+
+  while (i < lines.length && lines[i].indent === indent && isYamlSequenceEntry(lines[i].text)) {
+    const line = lines[i];
+    const rest = line.text.slice(1);
+    const item = rest.trim();
+
+    if (item === '') {
+      i++;
+      if (i < lines.length && lines[i].indent > indent) {
+        let value: unknown;
+        [value, i] = parseYamlBlock(lines, i, lines[i].indent);
+        result.push(value);
+      } else {
+        result.push(null);
+      }
+    } else if (isYamlMappingEntry(item)) {
+      // "- key: value" opens a mapping whose keys line up after the dash
+      const itemIndent = indent + 1 + (rest.length - rest.trimStart().length);
+      lines[i] = { ...line, indent: itemIndent, text: item };
+      let value: unknown;
+      [value, i] = parseYamlMapping(lines, i, itemIndent);
+      result.push(value);
+    } else {
+      result.push(parseYamlFlow(item, line.line));
+      i++;
+    }
+  }
+
+  return [result, i];
+}
+
+function parseYamlFlow(text: string, line: number): unknown {
+  if (text[0] !== '[' && text[0] !== '{') return parseYamlScalar(checkScalar(text, line));
+
+  const state: FlowState = { text, pos: 0, line };
+  const value = readFlowValue(state);
+  skipFlowSpaces(state);
+  if (state.pos < text.length) {
+    throw yamlError(line, `unexpected "${text.slice(state.pos)}"`);
+  }
+  return value;
+}
+
+function readFlowValue(state: FlowState): unknown {
+  skipFlowSpaces(state);
+  const open = state.text[state.pos];
+
+  if (open === '[' || open === '{') {
+    const close = open === '[' ? ']' : '}';
+    const items: unknown[] = [];
+    const entries = new Map<string, unknown>();
+    state.pos++;
+    skipFlowSpaces(state);
+
+    if (state.text[state.pos] === close) {
+      state.pos++;
+      return open === '[' ? items : {};
+    }
+
+    for (;;) {
+      if (open === '[') {
+        items.push(readFlowValue(state));
+      } else {
+        const key = String(readFlowScalar(state, ':'));
+        if (state.text[state.pos] !== ':') {
+          throw yamlError(state.line, `expected ":" after "${key}"`);
+        }
+        if (entries.has(key)) {
+          throw yamlError(state.line, `duplicate key "${key}"`);
+        }
+        state.pos++;
+        entries.set(key, readFlowValue(state));
+      }
+
+      skipFlowSpaces(state);
+      const separator = state.text[state.pos++];
+      if (separator === close) return open === '[' ? items : Object.fromEntries(entries);
+      if (separator !== ',') {
+        throw yamlError(state.line, `expected "," or "${close}"`);
+      }
+    }
+  }
+
+  return readFlowScalar(state, ',]}');
+}
+
+function readFlowScalar(state: FlowState, terminators: string): unknown {
+  skipFlowSpaces(state);
+  const start = state.pos;
+  const quote = state.text[start];
+
+  if (quote === '"' || quote === "'") {
+    state.pos++;
+    while (state.pos < state.text.length) {
+      const char = state.text[state.pos];
+      if (quote === '"' && char === '\\') {
+        state.pos += 2;
+        continue;
+      }
+      if (char === quote) {
+        if (quote === "'" && state.text[state.pos + 1] === "'") {
+          state.pos += 2;
+          continue;
+        }
+        break;
+      }
+      state.pos++;
+    }
+    if (state.pos >= state.text.length) {
+      throw yamlError(state.line, 'unterminated string');
+    }
+    state.pos++;
+    const token = state.text.slice(start, state.pos);
+    skipFlowSpaces(state);
+    return parseYamlScalar(token);
+  }
+
+  while (state.pos < state.text.length && !terminators.includes(state.text[state.pos])) {
+    state.pos++;
+  }
+  return parseYamlScalar(checkScalar(state.text.slice(start, state.pos).trim(), state.line));
+}
+
+function skipFlowSpaces(state: FlowState): void {
+  while (state.pos < state.text.length && /\s/.test(state.text[state.pos])) {
+    state.pos++;
+  }
+}
+
+// Also used for environment overrides, which are always one scalar
+export function parseYamlScalar(text: string): unknown {
+  if (text.startsWith('"') && text.endsWith('"') && text.length >= 2) {
+    return JSON.parse(text);
+  }
+  if (text.startsWith("'") && text.endsWith("'") && text.length >= 2) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (/^(null|Null|NULL|~)?$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?(\d[\d_]*\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text.replace(/_/g, ''));
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text, 16);
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN;
+  return text;
+}
+
+// Throws on scalars outside the subset and returns the rest unchanged
+function checkScalar(text: string, line: number): string {
+  if ((text !== '' && YAML_INDICATORS.includes(text[0])) || /^\?(\s|$)/.test(text)) {
+    throw yamlError(line, `unsupported YAML syntax "${text}"`);
+  }
+  const quote = text[0];
+  if ((quote === '"' || quote === "'") && (text.length < 2 || !text.endsWith(quote))) {
+    throw yamlError(line, `unterminated or multi-line string "${text}"`);
+  }
+  return text;
+}
+
+function isYamlSequenceEntry(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function isYamlMappingEntry(text: string): boolean {
+  return YAML_KEY.test(text);
+}
+
+// Drops a # comment that starts the line or follows whitespace, outside quotes
+function stripYamlComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function yamlError(line: number, message: string): Error {
+  return new Error(`YAML line ${line}: ${message}`);
+}